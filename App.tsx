@@ -1,25 +1,82 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Play, Pause, Download, Wand2, Maximize2, Minimize2, Loader2, Clock, Film, Shuffle, Sparkles, LayoutTemplate, Database, Palette, ImageIcon, Mic, Volume2, Image as ImageDown, Globe, RefreshCw, Type, Bot } from 'lucide-react';
-import { TableData, AnimationConfig, Theme, AnimationStyle, Layout } from './types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Play, Pause, Download, Wand2, Maximize2, Minimize2, Loader2, Clock, Film, Shuffle, Sparkles, LayoutTemplate, Database, Palette, ImageIcon, Mic, Volume2, Image as ImageDown, Globe, RefreshCw, Type, Bot, FileSpreadsheet, FolderOpen, Undo2, Redo2, History, Layers, Ratio, Monitor, Plus, Pencil, Upload, BarChart3, Clapperboard, FileAudio } from 'lucide-react';
+import { TableData, AnimationConfig, Theme, AnimationStyle, Layout, AspectRatio, Resolution, NarrativeLanguage, Project, ProjectSnapshot, VideoFormat, CustomTheme, RevealMode, ChartKind, Presentation, TableNarration } from './types';
 import { DEFAULT_TABLE_DATA, DEFAULT_ANIMATION_CONFIG } from './constants';
 import { TablePreview } from './components/TablePreview';
 import { Editor } from './components/Editor';
+import { ImportDialog } from './components/ImportDialog';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { HistoryPanel } from './components/HistoryPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { ThemeEditor } from './components/ThemeEditor';
+import { FontPanel } from './components/FontPanel';
+import { ColumnFormatPanel } from './components/ColumnFormatPanel';
+import { ViewPanel } from './components/ViewPanel';
+import { TimelinePanel } from './components/TimelinePanel';
+import { PresentationPanel } from './components/PresentationPanel';
+import { NarrationPanel } from './components/NarrationPanel';
+import { VoiceRecordingPanel } from './components/VoiceRecordingPanel';
+import { AudioMixPanel } from './components/AudioMixPanel';
 import { generateTableFromPrompt, fixTableJson, generateBackgroundImage, generateVoiceover, generateSummaryFromData } from './services/geminiService';
-import { renderVideo } from './utils/videoRenderer';
-import { renderTableImage } from './utils/imageRenderer';
+import { createProject, updateProject, getProject, getLastProjectId, setLastProjectId } from './services/projectStore';
+import { listCustomThemes, createCustomTheme, saveCustomTheme, deleteCustomTheme, importThemeFile, THEME_FILE_EXTENSION } from './services/themeStore';
+import { renderVideo, renderAudioTrack, renderSubtitles, getVideoExtension, VIDEO_FORMATS } from './utils/videoRenderer';
+import { SubtitleFormat } from './utils/subtitles';
+import { ASPECT_RATIO_LABELS, RESOLUTION_LABELS, resolveTheme, getThemeConfig } from './utils/sceneRenderer';
+import { renderTableImage, renderThumbnail } from './utils/imageRenderer';
+import { CHART_KIND_LABELS, getChartColumns } from './utils/chartRenderer';
+import { getColumnType } from './utils/columnFormat';
+import { getVisibleRows } from './utils/tableView';
+import { validateTableJson, applyTableFix, ValidationIssue, FixKind, FIX_LABELS } from './utils/tableValidator';
+import { useHistory } from './utils/useHistory';
 import { clsx } from 'clsx';
 
 // Fallback Embedded SVG Logo (Bar Chart Icon) if local file fails
 const EMBEDDED_LOGO = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjUxMiIgaGVpZ2h0PSI1MTIiIHJ4PSIxMjgiIGZpbGw9IiMwRjE3MkEiLz48cGF0aCBkPSJNMTQwIDM2MFYyNjAiIHN0cm9rZT0iIzNCODJGNiIgc3Ryb2tlLXdpZHRoPSI0OCIgc3Ryb2tlLWxpbmVjYXA9InJvdW5kIi8+PHBhdGggZD0iTTI1NiAzNjBWMTUyIiBzdHJva2U9IiM4QjVDRjYiIHN0cm9rZS13aWR0aD0iNDgiIHN0cm9rZS1saW5lY2FwPSJyb3VuZCIvPjxwYXRoIGQ9Ik0zNzIgMzYwVjIyMCIgc3Ryb2tlPSIjRUM0ODk5IiBzdHJva2Utd2lkdGg9IjQ4IiBzdHJva2UtbGluZWNhcD0icm91bmQiLz48L3N2Zz4=";
 const LOCAL_LOGO = "./images/logo.jpg";
 
+const UNTITLED_PROJECT = "Untitled Project";
+const CUSTOM_THEME_PREFIX = "custom:";
+const AUTOSAVE_DELAY_MS = 1500;
+const EXPORT_FORMAT_KEY = "loksewa:exportFormat";
+
+const loadExportFormat = (): VideoFormat => localStorage.getItem(EXPORT_FORMAT_KEY) === 'webm' ? 'webm' : 'mp4';
+
+// The parts of the app covered by undo/redo
+interface EditorState {
+  data: TableData;
+  config: AnimationConfig;
+  voicePcm: string | null;
+  presentation?: Presentation;
+  narration?: TableNarration;
+}
+
+const describeChange = (prev: EditorState, next: EditorState): string => {
+  if (prev.data !== next.data) return "Edited data";
+  if (prev.presentation !== next.presentation) return "Edited presentation";
+  if (prev.narration !== next.narration) return next.narration ? "Edited narration" : "Removed narration";
+  if (prev.voicePcm !== next.voicePcm) return next.voicePcm ? "Voiceover changed" : "Removed voiceover";
+  if (prev.config.backgroundImage !== next.config.backgroundImage) {
+    return next.config.backgroundImage ? "Background changed" : "Removed background";
+  }
+  if (prev.config.theme !== next.config.theme || prev.config.customTheme?.id !== next.config.customTheme?.id) return "Changed theme";
+  if (prev.config.customTheme !== next.config.customTheme) return "Edited theme";
+  if (prev.config.layout !== next.config.layout) return "Changed layout";
+  if (prev.config.chart !== next.config.chart) return "Changed chart";
+  if (prev.config.audio !== next.config.audio) return "Changed audio mix";
+  if (prev.config.view !== next.config.view) return "Changed view";
+  if (prev.config.rowTimings !== next.config.rowTimings) return "Edited timeline";
+  if (prev.config.aspectRatio !== next.config.aspectRatio || prev.config.resolution !== next.config.resolution) return "Changed frame";
+  return "Changed settings";
+};
+
 function App() {
   // State
   const [data, setData] = useState<TableData>(DEFAULT_TABLE_DATA);
   const [jsonString, setJsonString] = useState<string>(JSON.stringify(DEFAULT_TABLE_DATA, null, 2));
   const [isValidJson, setIsValidJson] = useState(true);
-  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [jsonIssues, setJsonIssues] = useState<ValidationIssue[]>([]);
   
   // Logo State
   const [logoSrc, setLogoSrc] = useState(LOCAL_LOGO);
@@ -30,55 +87,121 @@ function App() {
   
   const [isExporting, setIsExporting] = useState(false); 
   const [exportProgress, setExportProgress] = useState(0);
+  const [exportFormat, setExportFormat] = useState<VideoFormat>(loadExportFormat);
+  const [exportingEditFile, setExportingEditFile] = useState<'wav' | SubtitleFormat | null>(null);
 
   const [prompt, setPrompt] = useState("");
   const [showPromptInput, setShowPromptInput] = useState(false);
   
   const [config, setConfig] = useState<AnimationConfig>(DEFAULT_ANIMATION_CONFIG);
 
-  const [sidebarTab, setSidebarTab] = useState<'data' | 'design'>('data');
+  const [sidebarTab, setSidebarTab] = useState<'data' | 'design' | 'scenes'>('data');
+
+  // Custom themes
+  const [customThemes, setCustomThemes] = useState<CustomTheme[]>(listCustomThemes);
+  const [isThemeEditorOpen, setIsThemeEditorOpen] = useState(false);
+  const themeFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Rows the view settings leave out, dimmed in the grid editor
+  const hiddenRows = useMemo(() => {
+    const visible = new Set(getVisibleRows(data, config));
+    return new Set(data.data.map((_, i) => i).filter(i => !visible.has(i)));
+  }, [data, config.dateRange, config.columnTypes, config.view]);
+
+  // Columns a chart can be drawn from
+  const numericColumns = useMemo(() => getChartColumns(data, config), [data, config.columnTypes]);
 
   // Media State
   const [isGenImage, setIsGenImage] = useState(false);
   const [isGenVoice, setIsGenVoice] = useState(false);
   const [voicePcm, setVoicePcm] = useState<string | null>(null);
-  const [narrativeLanguage, setNarrativeLanguage] = useState<'auto' | 'en' | 'ne'>('auto');
+  const [presentation, setPresentation] = useState<Presentation | undefined>(undefined);
+  const [narration, setNarration] = useState<TableNarration | undefined>(undefined);
+  const [narrativeLanguage, setNarrativeLanguage] = useState<NarrativeLanguage>('auto');
+
+  // Import State
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+
+  // Batch State
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+
+  // Project State
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState(UNTITLED_PROJECT);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(true);
+  // Set when state was just loaded so the autosave doesn't immediately write it back
+  const skipAutosaveRef = useRef(true);
+  // The untitled project the first autosave is still creating, so later autosaves update it instead of creating another
+  const creatingProjectRef = useRef<Promise<string> | null>(null);
+
+  // Undo / Redo
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const editorState = useMemo<EditorState>(() => ({ data, config, voicePcm, presentation, narration }), [data, config, voicePcm, presentation, narration]);
+  const history = useHistory<EditorState>(editorState, (state) => {
+    setData(state.data);
+    setJsonString(JSON.stringify(state.data, null, 2));
+    setIsValidJson(true);
+    setJsonIssues([]);
+    setConfig(state.config);
+    setVoicePcm(state.voicePcm);
+    setPresentation(state.presentation);
+    setNarration(state.narration);
+  }, { describe: describeChange });
 
   // Refs
   const appContainerRef = useRef<HTMLDivElement>(null);
 
   // Handlers
-  const handleJsonChange = (newJson: string) => {
+  const handleJsonChange = (newJson: string, label?: string) => {
     setJsonString(newJson);
-    try {
-      const parsed = JSON.parse(newJson);
-      // Basic validation
-      if (parsed.columns && Array.isArray(parsed.columns) && parsed.data && Array.isArray(parsed.data)) {
-        setData(parsed);
-        setIsValidJson(true);
-        setJsonError(null);
-      } else {
-        throw new Error("Missing 'columns' or 'data' array.");
-      }
-    } catch (e: any) {
+    const result = validateTableJson(newJson);
+    setJsonIssues(result.issues);
+    // On errors keep rendering the last valid table
+    if (result.data) {
+      // Named only once the table actually changes, or the name would stick to the next edit
+      if (label) history.label(label);
+      setData(result.data);
+      setIsValidJson(true);
+    } else {
       setIsValidJson(false);
-      setJsonError(e.message);
     }
   };
 
+  const handleApplyFix = (fix: FixKind) => {
+    let fixed: string;
+    try {
+      fixed = applyTableFix(jsonString, fix);
+    } catch (e) {
+      alert("Fix the JSON syntax errors first.");
+      return;
+    }
+    if (fixed !== jsonString) handleJsonChange(fixed, FIX_LABELS[fix]);
+  };
+
+  // Replaces the whole table (AI generation, spreadsheet import)
+  const applyNewTable = (newData: TableData) => {
+    const formatted = JSON.stringify(newData, null, 2);
+    setJsonString(formatted);
+    setData(newData);
+    setIsValidJson(true);
+    setJsonIssues([]);
+    // Reset voice and bg on new data to avoid mismatch
+    setVoicePcm(null); 
+    setConfig(prev => ({ ...prev, backgroundImage: undefined }));
+  };
+
   const handleGenerate = async () => {
     if (!prompt.trim()) return;
     setIsGenerating(true);
     try {
       const newData = await generateTableFromPrompt(prompt);
-      const formatted = JSON.stringify(newData, null, 2);
-      setJsonString(formatted);
-      setData(newData);
-      setIsValidJson(true);
+      history.label("Generated table");
+      applyNewTable(newData);
       setShowPromptInput(false);
-      // Reset voice and bg on new data to avoid mismatch
-      setVoicePcm(null); 
-      setConfig(prev => ({ ...prev, backgroundImage: undefined }));
     } catch (error) {
       // Improved error handling for 429 Resource Exhausted
       const errMsg = error instanceof Error ? error.message : String(error);
@@ -92,15 +215,28 @@ function App() {
     }
   };
 
+  const handleImport = (newData: TableData) => {
+    history.label("Imported spreadsheet");
+    applyNewTable(newData);
+    setIsImportOpen(false);
+    setImportFile(null);
+  };
+
+  const openImport = (file: File | null = null) => {
+    setImportFile(file);
+    setIsImportOpen(true);
+  };
+
   const handleFixJson = async () => {
     setIsGenerating(true);
     try {
       const fixedData = await fixTableJson(jsonString);
+      history.label("Fixed JSON");
       const formatted = JSON.stringify(fixedData, null, 2);
       setJsonString(formatted);
       setData(fixedData);
       setIsValidJson(true);
-      setJsonError(null);
+      setJsonIssues([]);
     } catch (error) {
       alert("Could not fix JSON automatically.");
     } finally {
@@ -113,6 +249,7 @@ function App() {
       setIsGenImage(true);
       try {
           const base64Img = await generateBackgroundImage(data.title);
+          history.label("Generated background");
           setConfig(prev => ({ ...prev, backgroundImage: base64Img }));
       } catch (e) {
           console.error(e);
@@ -131,6 +268,7 @@ function App() {
       setIsGenVoice(true);
       try {
           const summary = await generateSummaryFromData(data, narrativeLanguage);
+          history.label("Regenerated summary");
           const newData = { ...data, summary };
           setData(newData);
           setJsonString(JSON.stringify(newData, null, 2));
@@ -153,6 +291,7 @@ function App() {
           if (!summaryText || summaryText.trim() === '') {
               try {
                   summaryText = await generateSummaryFromData(data, narrativeLanguage);
+                  history.label("Generated summary");
                   // Update local data with new summary
                   const newData = { ...data, summary: summaryText };
                   setData(newData);
@@ -172,6 +311,7 @@ function App() {
 
           if (summaryText) {
             const pcm = await generateVoiceover(summaryText);
+            history.label("Generated voiceover");
             setVoicePcm(pcm);
           }
       } catch (e) {
@@ -187,18 +327,67 @@ function App() {
       }
   };
 
+  const handleThemeSelect = (value: string) => {
+    if (value.startsWith(CUSTOM_THEME_PREFIX)) {
+      const id = value.slice(CUSTOM_THEME_PREFIX.length);
+      const custom = customThemes.find(t => t.id === id);
+      if (custom) setConfig(prev => ({ ...prev, customTheme: custom }));
+    } else {
+      setConfig(prev => ({ ...prev, theme: value as Theme, customTheme: undefined }));
+      setIsThemeEditorOpen(false);
+    }
+  };
+
+  // New themes start from whatever is on screen
+  const handleNewTheme = () => {
+    const custom = createCustomTheme(`Custom theme ${customThemes.length + 1}`, resolveTheme(config));
+    setCustomThemes(listCustomThemes());
+    history.label("Created theme");
+    setConfig(prev => ({ ...prev, customTheme: custom }));
+    setIsThemeEditorOpen(true);
+  };
+
+  const handleEditTheme = (custom: CustomTheme) => {
+    saveCustomTheme(custom);
+    setCustomThemes(listCustomThemes());
+    setConfig(prev => ({ ...prev, customTheme: custom }));
+  };
+
+  const handleDeleteTheme = () => {
+    if (!config.customTheme) return;
+    deleteCustomTheme(config.customTheme.id);
+    setCustomThemes(listCustomThemes());
+    setConfig(prev => ({ ...prev, customTheme: undefined }));
+    setIsThemeEditorOpen(false);
+  };
+
+  const handleImportTheme = async (file: File) => {
+    try {
+      const custom = await importThemeFile(file, getThemeConfig(config.theme));
+      setCustomThemes(listCustomThemes());
+      history.label("Imported theme");
+      setConfig(prev => ({ ...prev, customTheme: custom }));
+    } catch (e: any) {
+      alert(e.message || "Failed to import theme.");
+    }
+  };
+
   const handleRandomizeDesign = () => {
     const themes = Object.values(Theme);
     const styles = Object.values(AnimationStyle);
     const layouts = Object.values(Layout);
     
-    const randomTheme = themes[Math.floor(Math.random() * themes.length)];
+    const themeIndex = Math.floor(Math.random() * (themes.length + customThemes.length));
+    const randomTheme = themes[themeIndex];
     const randomStyle = styles[Math.floor(Math.random() * styles.length)];
     const randomLayout = layouts[Math.floor(Math.random() * layouts.length)];
     
+    history.label("Shuffled design");
     setConfig(prev => ({
         ...prev,
-        theme: randomTheme,
+        // Indexes past the built-ins pick a custom theme
+        theme: randomTheme ?? prev.theme,
+        customTheme: randomTheme ? undefined : customThemes[themeIndex - themes.length],
         style: randomStyle,
         layout: randomLayout
     }));
@@ -216,6 +405,126 @@ function App() {
     }
   };
 
+  // --- Projects ---
+
+  const getSnapshot = (): ProjectSnapshot => ({ data, config, voicePcm, narrativeLanguage, presentation, narration });
+
+  const applySnapshot = (snapshot: ProjectSnapshot, historyLabel: string) => {
+    skipAutosaveRef.current = true;
+    creatingProjectRef.current = null;
+    history.reset(historyLabel);
+    setData(snapshot.data);
+    setJsonString(JSON.stringify(snapshot.data, null, 2));
+    setIsValidJson(true);
+    setJsonIssues([]);
+    // Older project files may predate newer config fields
+    setConfig({ ...DEFAULT_ANIMATION_CONFIG, ...snapshot.config });
+    setVoicePcm(snapshot.voicePcm);
+    setNarrativeLanguage(snapshot.narrativeLanguage);
+    setPresentation(snapshot.presentation);
+    setNarration(snapshot.narration);
+  };
+
+  const handleOpenProject = (project: Project) => {
+    applySnapshot(project, `Opened "${project.name}"`);
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setLastProjectId(project.id);
+    setSaveStatus('saved');
+    setIsLibraryOpen(false);
+  };
+
+  const handleNewProject = () => {
+    applySnapshot({ data: DEFAULT_TABLE_DATA, config: DEFAULT_ANIMATION_CONFIG, voicePcm: null, narrativeLanguage: 'auto' }, "New project");
+    setProjectId(null);
+    setProjectName(UNTITLED_PROJECT);
+    setLastProjectId(null);
+    setSaveStatus('idle');
+    setIsLibraryOpen(false);
+  };
+
+  const handleSaveProjectAs = async (name: string) => {
+    const thumbnail = await renderThumbnail(data, config).catch(() => undefined);
+    const project = await createProject(name, getSnapshot(), thumbnail);
+    creatingProjectRef.current = null;
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setLastProjectId(project.id);
+    setSaveStatus('saved');
+  };
+
+  // Restore the last opened project
+  useEffect(() => {
+    const lastId = getLastProjectId();
+    if (!lastId) {
+      setIsRestoring(false);
+      return;
+    }
+    getProject(lastId)
+      .then(project => project && handleOpenProject(project))
+      .catch(e => console.error("Failed to restore project", e))
+      .finally(() => setIsRestoring(false));
+  }, []);
+
+  // Autosave (debounced). The first change on a fresh session creates an untitled project.
+  useEffect(() => {
+    if (isRestoring) return;
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false;
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      setSaveStatus('saving');
+      try {
+        const thumbnail = await renderThumbnail(data, config).catch(() => undefined);
+        if (cancelled) return;
+        const snapshot = getSnapshot();
+        const id = projectId ?? await creatingProjectRef.current;
+        if (id) {
+          await updateProject(id, { ...snapshot, thumbnail });
+        } else {
+          const creating = createProject(projectName, snapshot, thumbnail).then(project => project.id);
+          creatingProjectRef.current = creating;
+          const newId = await creating;
+          // A project opened or saved meanwhile takes over
+          if (creatingProjectRef.current === creating) {
+            setProjectId(newId);
+            setLastProjectId(newId);
+          }
+        }
+        if (!cancelled) setSaveStatus('saved');
+      } catch (e) {
+        creatingProjectRef.current = null;
+        console.error("Autosave failed", e);
+        if (!cancelled) setSaveStatus('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [data, config, voicePcm, narrativeLanguage, presentation, narration, isRestoring]);
+
+  // Undo/redo shortcuts. Text fields keep their native undo.
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isExporting) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [history.undo, history.redo, isExporting]);
+
   // Sync fullscreen state with browser events (esc key)
   useEffect(() => {
     const handler = () => setIsFullscreen(!!document.fullscreenElement);
@@ -224,7 +533,7 @@ function App() {
   }, []);
 
   const handleExportVideo = async () => {
-    if (isExporting) return;
+    if (isExporting || isBatchRunning) return;
     
     setIsExporting(true);
     setExportProgress(0);
@@ -233,12 +542,17 @@ function App() {
     try {
         const blob = await renderVideo(data, config, voicePcm, logoSrc, (progress) => {
             setExportProgress(Math.round(progress * 100));
-        });
+        }, exportFormat, presentation, narration);
+
+        const extension = getVideoExtension(blob);
+        if (extension !== exportFormat) {
+            alert(`This browser can't encode ${exportFormat.toUpperCase()}, so the video was exported as ${extension.toUpperCase()} instead.`);
+        }
 
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `loksewa-automatic-${config.theme}-${Date.now()}.webm`;
+        a.download = `loksewa-automatic-${config.theme}-${Date.now()}.${extension}`;
         a.click();
         URL.revokeObjectURL(url);
     } catch (err: any) {
@@ -250,8 +564,30 @@ function App() {
     }
   };
 
+  // The soundtrack and subtitles on their own, for re-cutting the video in an editor
+  const handleExportEditFile = async (kind: 'wav' | SubtitleFormat) => {
+      if (isExporting || isBatchRunning || exportingEditFile) return;
+      setExportingEditFile(kind);
+      try {
+          const blob = kind === 'wav'
+              ? await renderAudioTrack(data, config, voicePcm, presentation, narration)
+              : renderSubtitles(data, config, voicePcm, kind, presentation, narration);
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `loksewa-automatic-${config.theme}-${Date.now()}.${kind}`;
+          a.click();
+          URL.revokeObjectURL(url);
+      } catch (err: any) {
+          console.error(err);
+          alert(kind === 'wav' ? "Failed to export audio: " + err.message : "Failed to export subtitles: " + err.message);
+      } finally {
+          setExportingEditFile(null);
+      }
+  };
+
   const handleExportImage = async () => {
-      if (isExporting) return;
+      if (isExporting || isBatchRunning) return;
       setIsExporting(true);
       try {
           const dataUrl = await renderTableImage(data, config, logoSrc);
@@ -287,8 +623,31 @@ function App() {
             <h1 className="text-lg md:text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-purple-400 truncate max-w-[150px] md:max-w-none">
               Loksewa Automatic
             </h1>
+            <button
+              onClick={() => setIsLibraryOpen(true)}
+              disabled={isExporting}
+              className="hidden md:flex items-center gap-2 ml-2 px-3 py-1 rounded-lg text-xs text-slate-400 hover:text-slate-200 hover:bg-slate-800 transition-colors disabled:opacity-50"
+              title="Projects"
+            >
+              <FolderOpen size={14} />
+              <span className="truncate max-w-[180px]">{projectName}</span>
+              <span className={clsx(
+                  "text-[10px]",
+                  saveStatus === 'error' ? "text-red-400" : "text-slate-600"
+              )}>
+                {saveStatus === 'saving' ? "Saving..." : saveStatus === 'saved' ? "Saved" : saveStatus === 'error' ? "Not saved" : ""}
+              </span>
+            </button>
           </div>
           <div className="flex items-center gap-2 md:gap-3">
+            <button
+              onClick={() => setIsLibraryOpen(true)}
+              disabled={isExporting}
+              className="md:hidden flex items-center justify-center w-10 h-10 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-full border border-slate-700"
+              title="Projects"
+            >
+              <FolderOpen size={16} className="text-blue-400" />
+            </button>
              <button
               onClick={() => {
                   const nextState = !showPromptInput;
@@ -306,11 +665,25 @@ function App() {
               <span className="hidden md:inline">AI Generate</span>
             </button>
             <button
-                onClick={handleExportImage}
+                onClick={() => setIsBatchOpen(true)}
                 disabled={isExporting}
+                className={clsx(
+                    "flex items-center justify-center gap-2 w-10 h-10 md:w-auto md:h-auto md:px-4 md:py-2 rounded-full text-sm font-medium transition-all border disabled:opacity-50",
+                    isBatchRunning
+                    ? "bg-purple-600/20 text-purple-300 border-purple-600/40"
+                    : "bg-slate-800 hover:bg-slate-700 text-slate-300 border-slate-700"
+                )}
+                title="Batch render"
+            >
+                {isBatchRunning ? <Loader2 size={16} className="animate-spin" /> : <Layers size={16} />}
+                <span className="hidden md:inline">Batch</span>
+            </button>
+            <button
+                onClick={handleExportImage}
+                disabled={isExporting || isBatchRunning}
                 className={clsx(
                     "flex items-center justify-center gap-2 w-10 h-10 md:w-auto md:h-auto md:px-4 md:py-2 rounded-full text-sm font-medium transition-all border",
-                    isExporting 
+                    (isExporting || isBatchRunning)
                     ? "bg-slate-800 text-slate-500 border-slate-700 cursor-not-allowed"
                     : "bg-purple-600/10 hover:bg-purple-600/20 text-purple-400 border-purple-600/20"
                 )}
@@ -318,12 +691,25 @@ function App() {
                 <ImageIcon size={16} />
                 <span className="hidden md:inline">Social</span>
             </button>
+            <select
+              value={exportFormat}
+              onChange={(e) => {
+                  const format = e.target.value as VideoFormat;
+                  setExportFormat(format);
+                  localStorage.setItem(EXPORT_FORMAT_KEY, format);
+              }}
+              disabled={isExporting || isBatchRunning}
+              className="hidden sm:block bg-slate-800 border border-slate-700 rounded-full px-3 py-2 text-xs text-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-50"
+              title="Video format"
+            >
+              {VIDEO_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+            </select>
             <button
               onClick={handleExportVideo}
-              disabled={isExporting}
+              disabled={isExporting || isBatchRunning}
               className={clsx(
                   "flex items-center justify-center gap-2 w-10 h-10 md:w-auto md:h-auto md:px-4 md:py-2 rounded-full text-sm font-medium transition-all border",
-                  isExporting 
+                  (isExporting || isBatchRunning)
                     ? "bg-slate-800 text-slate-500 border-slate-700 cursor-not-allowed"
                     : "bg-blue-600/10 hover:bg-blue-600/20 text-blue-400 border-blue-600/20"
               )}
@@ -391,6 +777,35 @@ function App() {
                 <Shuffle size={20} />
               </button>
 
+              <button 
+                onClick={history.undo}
+                disabled={!history.canUndo}
+                className="p-2 text-slate-300 hover:text-white hover:bg-white/10 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 size={20} />
+              </button>
+
+              <button 
+                onClick={history.redo}
+                disabled={!history.canRedo}
+                className="p-2 text-slate-300 hover:text-white hover:bg-white/10 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 size={20} />
+              </button>
+
+              <button 
+                onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                className={clsx(
+                    "p-2 hover:text-white hover:bg-white/10 rounded-full transition-colors",
+                    isHistoryOpen ? "text-blue-400" : "text-slate-300"
+                )}
+                title="History"
+              >
+                <History size={20} />
+              </button>
+
               <div className="w-px h-6 bg-white/20 mx-1" />
 
               <button 
@@ -402,6 +817,16 @@ function App() {
               </button>
            </div>
 
+           {isHistoryOpen && !isExporting && (
+             <div className="absolute top-20 z-50">
+                <HistoryPanel
+                    entries={history.entries}
+                    index={history.index}
+                    onJump={history.jumpTo}
+                />
+             </div>
+           )}
+
            <TablePreview 
               data={data}
               config={config}
@@ -409,6 +834,9 @@ function App() {
               onAnimationComplete={() => setIsPlaying(false)}
               isFullscreen={isFullscreen}
               voicePcm={voicePcm}
+              logoSrc={logoSrc}
+              presentation={presentation}
+              narration={narration}
            />
         </div>
 
@@ -438,6 +866,16 @@ function App() {
                     <Palette size={16} /> Design
                     {sidebarTab === 'design' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-purple-500" />}
                 </button>
+                <button
+                    onClick={() => setSidebarTab('scenes')}
+                    className={clsx(
+                        "flex-1 py-3 text-sm font-medium flex items-center justify-center gap-2 transition-colors relative",
+                        sidebarTab === 'scenes' ? "text-green-400 bg-slate-800/50" : "text-slate-500 hover:text-slate-300"
+                    )}
+                >
+                    <Clapperboard size={16} /> Scenes
+                    {sidebarTab === 'scenes' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-green-500" />}
+                </button>
             </div>
 
             {/* Tab Content */}
@@ -445,7 +883,16 @@ function App() {
                 
                 {/* DATA TAB */}
                 {sidebarTab === 'data' && (
-                    <div className="flex-1 flex flex-col p-4 gap-4 h-full overflow-hidden animate-in fade-in slide-in-from-left-4 duration-300">
+                    <div
+                        className="flex-1 flex flex-col p-4 gap-4 h-full overflow-hidden animate-in fade-in slide-in-from-left-4 duration-300"
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={(e) => {
+                            const file = e.dataTransfer.files?.[0];
+                            if (!file || isExporting) return;
+                            e.preventDefault();
+                            openImport(file);
+                        }}
+                    >
                          {/* AI Input Area */}
                         {showPromptInput && (
                         <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 shadow-lg shrink-0">
@@ -471,13 +918,38 @@ function App() {
                         </div>
                         )}
 
+                        {/* Spreadsheet Import */}
+                        <button
+                            onClick={() => openImport()}
+                            disabled={isExporting}
+                            className="shrink-0 w-full py-2 border border-dashed border-slate-700 rounded-lg text-slate-500 hover:text-green-400 hover:border-green-500/50 hover:bg-green-500/5 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            <FileSpreadsheet size={14}/>
+                            <span className="text-xs">Import CSV / Excel (or drop a file here)</span>
+                        </button>
+
+                        {/* Sort, filter and top-N for what gets rendered */}
+                        <ViewPanel
+                            data={data}
+                            config={config}
+                            disabled={isExporting}
+                            onChange={(view, label) => {
+                                if (label) history.label(label);
+                                setConfig(prev => ({ ...prev, view }));
+                            }}
+                        />
+
                         {/* Editor */}
                         <div className="flex-1 h-full min-h-0 flex flex-col">
                             <Editor 
                                 jsonString={jsonString} 
                                 setJsonString={handleJsonChange} 
                                 isValid={isValidJson}
-                                errorMessage={jsonError}
+                                issues={jsonIssues}
+                                onApplyFix={handleApplyFix}
+                                data={data}
+                                columnType={(col) => getColumnType(data, config, col)}
+                                hiddenRows={hiddenRows}
                             />
                             {!isValidJson && (
                                 <button 
@@ -492,6 +964,24 @@ function App() {
                     </div>
                 )}
 
+                {/* SCENES TAB */}
+                {sidebarTab === 'scenes' && (
+                    <div className="flex-1 overflow-y-auto p-4 md:p-6 custom-scrollbar animate-in fade-in slide-in-from-right-4 duration-300">
+                        <PresentationPanel
+                            data={data}
+                            config={config}
+                            voicePcm={voicePcm}
+                            narration={narration}
+                            presentation={presentation}
+                            disabled={isExporting}
+                            onChange={(next, label) => {
+                                if (label) history.label(label);
+                                setPresentation(next);
+                            }}
+                        />
+                    </div>
+                )}
+
                 {/* DESIGN TAB */}
                 {sidebarTab === 'design' && (
                      <div className="flex-1 overflow-y-auto p-4 md:p-6 custom-scrollbar animate-in fade-in slide-in-from-right-4 duration-300">
@@ -513,13 +1003,20 @@ function App() {
                                     <div className="text-xs text-slate-500 font-semibold uppercase">Theme</div>
                                     <div className="relative">
                                         <select
-                                            value={config.theme}
-                                            onChange={(e) => setConfig({...config, theme: e.target.value as Theme})}
+                                            value={config.customTheme ? CUSTOM_THEME_PREFIX + config.customTheme.id : config.theme}
+                                            onChange={(e) => handleThemeSelect(e.target.value)}
                                             className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-2.5 capitalize cursor-pointer transition-colors hover:border-slate-600 appearance-none"
                                         >
                                             {Object.values(Theme).map((t) => (
                                                 <option key={t} value={t}>{t.replace('_', ' ')}</option>
                                             ))}
+                                            {/* A project may carry a theme that isn't in this browser's library */}
+                                            {(config.customTheme && !customThemes.some(t => t.id === config.customTheme!.id)
+                                                ? [...customThemes, config.customTheme]
+                                                : customThemes
+                                            ).map((t) => (
+                                                <option key={t.id} value={CUSTOM_THEME_PREFIX + t.id}>{t.name}</option>
+                                            ))}
                                         </select>
                                         <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none text-slate-400">
                                             <Sparkles size={14} />
@@ -546,6 +1043,170 @@ function App() {
                                 </div>
                             </div>
 
+                            {/* Custom themes */}
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={handleNewTheme}
+                                        className="text-xs flex items-center gap-1 text-slate-300 hover:text-white bg-slate-800 px-2 py-1 rounded-md border border-slate-700"
+                                    >
+                                        <Plus size={12} /> New theme
+                                    </button>
+                                    {config.customTheme && (
+                                        <button
+                                            onClick={() => setIsThemeEditorOpen(open => !open)}
+                                            className={clsx(
+                                                "text-xs flex items-center gap-1 px-2 py-1 rounded-md border",
+                                                isThemeEditorOpen ? "text-purple-300 bg-purple-500/10 border-purple-500/30" : "text-slate-300 hover:text-white bg-slate-800 border-slate-700"
+                                            )}
+                                        >
+                                            <Pencil size={12} /> Edit
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => themeFileInputRef.current?.click()}
+                                        className="text-xs flex items-center gap-1 text-slate-300 hover:text-white bg-slate-800 px-2 py-1 rounded-md border border-slate-700"
+                                    >
+                                        <Upload size={12} /> Import
+                                    </button>
+                                    <input
+                                        ref={themeFileInputRef}
+                                        type="file"
+                                        accept={`${THEME_FILE_EXTENSION},application/json`}
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            if (file) handleImportTheme(file);
+                                            e.target.value = '';
+                                        }}
+                                    />
+                                </div>
+                                {isThemeEditorOpen && config.customTheme && (
+                                    <ThemeEditor
+                                        theme={config.customTheme}
+                                        onChange={handleEditTheme}
+                                        onDelete={handleDeleteTheme}
+                                        onClose={() => setIsThemeEditorOpen(false)}
+                                    />
+                                )}
+                            </div>
+
+                            {/* Frame: shared by the preview, video and image exports */}
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <div className="text-xs text-slate-500 font-semibold uppercase">Aspect Ratio</div>
+                                    <div className="relative">
+                                        <select
+                                            value={config.aspectRatio}
+                                            onChange={(e) => setConfig({...config, aspectRatio: e.target.value as AspectRatio})}
+                                            disabled={isExporting}
+                                            className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5 cursor-pointer transition-colors hover:border-slate-600 appearance-none disabled:opacity-50"
+                                        >
+                                            {Object.values(AspectRatio).map((r) => (
+                                                <option key={r} value={r}>{ASPECT_RATIO_LABELS[r]}</option>
+                                            ))}
+                                        </select>
+                                        <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none text-slate-400">
+                                            <Ratio size={14} />
+                                        </div>
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <div className="text-xs text-slate-500 font-semibold uppercase">Resolution</div>
+                                    <div className="relative">
+                                        <select
+                                            value={config.resolution}
+                                            onChange={(e) => setConfig({...config, resolution: e.target.value as Resolution})}
+                                            disabled={isExporting}
+                                            className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5 cursor-pointer transition-colors hover:border-slate-600 appearance-none disabled:opacity-50"
+                                        >
+                                            {Object.values(Resolution).map((r) => (
+                                                <option key={r} value={r}>{RESOLUTION_LABELS[r]}</option>
+                                            ))}
+                                        </select>
+                                        <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none text-slate-400">
+                                            <Monitor size={14} />
+                                        </div>
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Column types and number display */}
+                            <div className="pt-2 border-t border-slate-800">
+                                <ColumnFormatPanel
+                                    data={data}
+                                    config={config}
+                                    disabled={isExporting}
+                                    onConfigChange={(changes, label) => {
+                                        history.label(label);
+                                        setConfig(prev => ({ ...prev, ...changes }));
+                                    }}
+                                />
+                            </div>
+
+                            {/* Chart: replaces the layout with a chart of one numeric column */}
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <div className="text-xs text-slate-500 font-semibold uppercase">Chart</div>
+                                    <div className="relative">
+                                        <select
+                                            value={config.chart?.kind ?? ''}
+                                            onChange={(e) => {
+                                                const kind = e.target.value as ChartKind | '';
+                                                const column = config.chart && numericColumns.includes(config.chart.column) ? config.chart.column : numericColumns[0];
+                                                setConfig({...config, chart: kind && column ? { kind, column } : undefined});
+                                            }}
+                                            disabled={isExporting || (numericColumns.length === 0 && !config.chart)}
+                                            className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5 cursor-pointer transition-colors hover:border-slate-600 appearance-none disabled:opacity-50"
+                                        >
+                                            <option value="">None (table)</option>
+                                            {(Object.keys(CHART_KIND_LABELS) as ChartKind[]).map((k) => (
+                                                <option key={k} value={k}>{CHART_KIND_LABELS[k]}</option>
+                                            ))}
+                                        </select>
+                                        <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none text-slate-400">
+                                            <BarChart3 size={14} />
+                                        </div>
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <div className="text-xs text-slate-500 font-semibold uppercase">Chart Column</div>
+                                    <select
+                                        value={config.chart?.column ?? ''}
+                                        onChange={(e) => config.chart && setConfig({...config, chart: { ...config.chart, column: e.target.value }})}
+                                        disabled={isExporting || !config.chart}
+                                        className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5 cursor-pointer transition-colors hover:border-slate-600 disabled:opacity-50"
+                                    >
+                                        {config.chart && !numericColumns.includes(config.chart.column) && (
+                                            <option value={config.chart.column}>{config.chart.column}</option>
+                                        )}
+                                        {numericColumns.map((col) => (
+                                            <option key={col} value={col}>{col}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {numericColumns.length === 0 ? (
+                                    <p className="col-span-2 text-[11px] text-slate-500">Charts need a column of numbers.</p>
+                                ) : config.chart && !numericColumns.includes(config.chart.column) && (
+                                    <p className="col-span-2 text-[11px] text-amber-300">"{config.chart.column}" is no longer a number column, so the layout is shown instead.</p>
+                                )}
+                            </div>
+
+                            {/* Uploaded fonts */}
+                            <div className="pt-2 border-t border-slate-800">
+                                <FontPanel
+                                    data={data}
+                                    config={config}
+                                    onConfigChange={(changes, label) => {
+                                        history.label(label);
+                                        setConfig(prev => ({ ...prev, ...changes }));
+                                    }}
+                                />
+                            </div>
+
                             {/* Background Generator */}
                             <div className="space-y-2 pt-2 border-t border-slate-800">
                                 <div className="flex justify-between items-center">
@@ -640,10 +1301,64 @@ function App() {
                                         <span className="text-xs">Generate Voiceover</span>
                                     </button>
                                 )}
+
+                                {/* Or the presenter's own voice, recorded here or uploaded */}
+                                <VoiceRecordingPanel
+                                    current={voicePcm}
+                                    disabled={isExporting || isGenVoice}
+                                    onSave={(pcm, label) => {
+                                        history.label(label);
+                                        setVoicePcm(pcm);
+                                    }}
+                                />
                             </div>
 
+                            {/* Step Narration */}
+                            <div className="pt-2 border-t border-slate-800">
+                                <NarrationPanel
+                                    data={data}
+                                    config={config}
+                                    narration={narration}
+                                    disabled={isExporting}
+                                    onChange={(next, label) => {
+                                        if (label) history.label(label);
+                                        setNarration(next);
+                                    }}
+                                />
+                            </div>
+
+                            {/* Levels, ducking and music */}
+                            <AudioMixPanel
+                                config={config}
+                                disabled={isExporting}
+                                onChange={(audio, label) => {
+                                    if (label) history.label(label);
+                                    setConfig(prev => ({ ...prev, audio }));
+                                }}
+                            />
+
                             <div className="pt-4 border-t border-slate-800 space-y-4">
                                 <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">Export Settings</h3>
+
+                                {/* Separate files for editing the video elsewhere */}
+                                <div className="p-3 bg-slate-800 rounded-lg border border-slate-700 space-y-2">
+                                    <div className="text-sm text-slate-300 flex items-center gap-2">
+                                        <FileAudio size={16} className="text-green-400"/> For Editing
+                                    </div>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        {([['wav', "Audio (WAV)"], ['srt', "Subtitles (SRT)"], ['vtt', "Subtitles (VTT)"]] as const).map(([kind, label]) => (
+                                            <button
+                                                key={kind}
+                                                onClick={() => handleExportEditFile(kind)}
+                                                disabled={isExporting || isBatchRunning || !!exportingEditFile}
+                                                className="py-2 rounded-md border border-slate-700 bg-slate-900 text-[11px] text-slate-300 hover:text-green-400 hover:border-green-500/50 disabled:opacity-50 flex items-center justify-center gap-1"
+                                            >
+                                                {exportingEditFile === kind ? <Loader2 size={12} className="animate-spin"/> : <Download size={12}/>} {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-[10px] text-slate-500">The same length and timing as the exported video.</p>
+                                </div>
                                 
                                 {/* Show App Name Toggle */}
                                 <div className="flex justify-between items-center p-3 bg-slate-800 rounded-lg border border-slate-700">
@@ -694,6 +1409,49 @@ function App() {
                                     </div>
                                 </div>
 
+                                <div className="space-y-2">
+                                    <label className="text-sm text-slate-300 flex justify-between items-center">
+                                        <span className="flex items-center gap-2"><Pause size={14}/> Pause After Each Row</span>
+                                        <span className="text-blue-400 font-mono text-xs font-bold">{config.rowDelay}s</span>
+                                    </label>
+                                    <input 
+                                        type="range" 
+                                        min="0" 
+                                        max="3.0" 
+                                        step="0.25"
+                                        disabled={isExporting}
+                                        value={config.rowDelay}
+                                        onChange={(e) => setConfig({...config, rowDelay: parseFloat(e.target.value)})}
+                                        className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-50 border border-slate-700"
+                                    />
+                                </div>
+
+                                {config.layout === Layout.GRID_REVEAL && (
+                                    <div className="flex justify-between items-center p-3 bg-slate-800 rounded-lg border border-slate-700">
+                                        <label className="text-sm text-slate-300">Reveal Table By</label>
+                                        <select
+                                            value={config.revealBy ?? 'cell'}
+                                            disabled={isExporting}
+                                            onChange={(e) => setConfig({...config, revealBy: e.target.value as RevealMode})}
+                                            className="bg-slate-900 border border-slate-700 text-slate-200 text-xs rounded-md p-1.5 disabled:opacity-50"
+                                        >
+                                            <option value="cell">Cell</option>
+                                            <option value="row">Row</option>
+                                        </select>
+                                    </div>
+                                )}
+
+                                <div className="flex justify-between items-center p-3 bg-slate-800 rounded-lg border border-slate-700">
+                                    <label className="text-sm text-slate-300">Highlight Active Cell</label>
+                                    <input 
+                                        type="checkbox" 
+                                        checked={config.highlightActive}
+                                        disabled={isExporting}
+                                        onChange={(e) => setConfig({...config, highlightActive: e.target.checked})}
+                                        className="w-5 h-5 rounded border-slate-600 text-blue-600 bg-slate-700 focus:ring-blue-500 disabled:opacity-50"
+                                    />
+                                </div>
+
                                 <div className="flex justify-between items-center p-3 bg-slate-800 rounded-lg border border-slate-700">
                                     <label className="text-sm text-slate-300">Show Progress Bar</label>
                                     <input 
@@ -704,6 +1462,14 @@ function App() {
                                         className="w-5 h-5 rounded border-slate-600 text-blue-600 bg-slate-700 focus:ring-blue-500 disabled:opacity-50"
                                     />
                                 </div>
+
+                                <TimelinePanel
+                                    data={data}
+                                    config={config}
+                                    narration={narration}
+                                    disabled={isExporting}
+                                    onChange={(rowTimings) => setConfig(prev => ({ ...prev, rowTimings }))}
+                                />
                             </div>
                         </div>
                      </div>
@@ -713,6 +1479,40 @@ function App() {
         )}
 
       </main>
+
+      {isImportOpen && (
+        <ImportDialog
+            initialFile={importFile}
+            onImport={handleImport}
+            onClose={() => { setIsImportOpen(false); setImportFile(null); }}
+        />
+      )}
+
+      <BatchPanel
+          isOpen={isBatchOpen}
+          config={config}
+          videoFormat={exportFormat}
+          logoSrc={logoSrc}
+          onClose={() => setIsBatchOpen(false)}
+          onRunningChange={setIsBatchRunning}
+      />
+
+      {isLibraryOpen && (
+        <ProjectLibrary
+            currentProjectId={projectId}
+            onOpen={handleOpenProject}
+            onNew={handleNewProject}
+            onSaveAs={handleSaveProjectAs}
+            onDeleted={(id) => {
+                if (id === projectId) {
+                    setProjectId(null);
+                    setSaveStatus('idle');
+                }
+            }}
+            onRenamed={(id, name) => id === projectId && setProjectName(name)}
+            onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
     </div>
   );
 }
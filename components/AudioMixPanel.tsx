@@ -0,0 +1,282 @@
+import React, { useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { ChevronDown, ChevronRight, Music, Play, Shuffle, Upload, X } from 'lucide-react';
+import { AnimationConfig, AudioMix, MusicMood, MusicScale, MusicSource, MusicTrack, SfxEvent, SfxPreset, SfxSample, SfxSound, SoundEffects } from '../types';
+import { PresentationAudio } from '../utils/audioSynth';
+import {
+  DEFAULT_AUDIO_MIX, MUSIC_SOURCE_LABELS, MOOD_LABELS, SCALE_LABELS, MUSIC_FILE_ACCEPT, resolveMix, newMusicSeed, readMusicFile,
+} from '../utils/audioMix';
+import {
+  DEFAULT_SOUND_EFFECTS, SFX_PRESET_LABELS, SFX_EVENT_LABELS, SFX_PACK_LABELS, SFX_PACKS, SFX_FILE_ACCEPT, resolvePack, resolveSound, sampleSound, readSfxFile,
+} from '../utils/soundEffects';
+
+interface AudioMixPanelProps {
+  config: AnimationConfig;
+  disabled?: boolean;
+  // Sliders pass no label so a drag merges into one undo step
+  onChange: (mix: AudioMix | undefined, label?: string) => void;
+}
+
+const inputClass = "bg-slate-900 border border-slate-700 text-slate-200 text-xs rounded-md p-1.5 disabled:opacity-50";
+
+// Leaves nothing behind in the config once every setting is back to its default
+const cleanMix = (mix: AudioMix): AudioMix | undefined =>
+  (Object.keys(mix) as (keyof AudioMix)[]).every(key => mix[key] === DEFAULT_AUDIO_MIX[key]) ? undefined : mix;
+
+const LevelSlider: React.FC<{ label: string; value: number; max?: number; disabled?: boolean; onChange: (value: number) => void }> = ({ label, value, max = 1.5, disabled, onChange }) => (
+  <label className="flex items-center gap-2">
+    <span className="w-14 text-[10px] text-slate-500 uppercase font-semibold">{label}</span>
+    <input
+      type="range" min={0} max={max} step={0.05} value={value} disabled={disabled}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="flex-1 h-1.5 accent-green-500 disabled:opacity-50"
+    />
+    <span className="w-10 text-right text-[11px] font-mono text-slate-400">{Math.round(value * 100)}%</span>
+  </label>
+);
+
+/**
+ * Music, voice and sound effect levels, ducking under narration, the music
+ * itself (generated from a seed, the user's own track, or none) and which
+ * sound effect plays for each event.
+ */
+export const AudioMixPanel: React.FC<AudioMixPanelProps> = ({ config, disabled, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sampleInputRef = useRef<HTMLInputElement>(null);
+  const mix = resolveMix(config);
+  const effects = mix.effects ?? DEFAULT_SOUND_EFFECTS;
+  const pack = resolvePack(effects, config);
+
+  const update = (changes: Partial<AudioMix>, label?: string) => onChange(cleanMix({ ...mix, ...changes }), label);
+  const updateTrack = (changes: Partial<MusicTrack>, label?: string) => mix.track && update({ track: { ...mix.track, ...changes } }, label);
+
+  const updateEffects = (changes: Partial<SoundEffects>, label: string) => {
+    const next: SoundEffects = { ...effects, ...changes };
+    if (next.events && !Object.keys(next.events).length) delete next.events;
+    if (next.samples && !next.samples.length) delete next.samples;
+    const isDefault = next.pack === DEFAULT_SOUND_EFFECTS.pack && !next.events && !next.samples;
+    update({ effects: isDefault ? undefined : next }, label);
+  };
+
+  const setEventSound = (event: SfxEvent, sound: SfxSound | '') => {
+    const events = { ...effects.events };
+    if (sound) events[event] = sound;
+    else delete events[event];
+    updateEffects({ events }, "Changed sound effect");
+  };
+
+  const handleSampleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const sample = await readSfxFile(file);
+      updateEffects({ samples: [...(effects.samples ?? []), sample] }, "Added sound effect");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Events that played the removed sample go back to their pack's sound
+  const removeSample = (removed: SfxSample) => {
+    const sound = sampleSound(removed);
+    const events = Object.fromEntries(Object.entries(effects.events ?? {}).filter(([, s]) => s !== sound));
+    updateEffects({ samples: (effects.samples ?? []).filter(sample => sample.id !== removed.id), events }, "Removed sound effect");
+  };
+
+  const listen = async (sound: SfxSound) => {
+    const audio = new PresentationAudio(false, { mix });
+    await audio.loadSamples();
+    audio.playEffect(sound);
+    window.setTimeout(() => audio.stop(), 2500);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      update({ music: 'track', track: await readMusicFile(file) }, "Imported music");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/60 border border-slate-700 rounded-lg">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center gap-2 px-3 py-2 text-left">
+        {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <Music size={12} className={config.audio ? "text-green-400" : "text-slate-500"} />
+        <span className="text-xs font-semibold uppercase text-slate-400">Audio Mix</span>
+        <span className="ml-auto text-[11px] text-slate-500 truncate max-w-[50%]">
+          {mix.music === 'generated' ? `${MOOD_LABELS[mix.mood]} · ${SCALE_LABELS[mix.scale]}` : mix.music === 'track' ? mix.track?.name ?? MUSIC_SOURCE_LABELS.track : MUSIC_SOURCE_LABELS.off}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-slate-700 p-3 space-y-3">
+          <div className="space-y-2">
+            <LevelSlider label="Music" value={mix.musicGain} disabled={disabled || mix.music === 'off'} onChange={(musicGain) => update({ musicGain })} />
+            <LevelSlider label="Voice" value={mix.voiceGain} disabled={disabled} onChange={(voiceGain) => update({ voiceGain })} />
+            <LevelSlider label="Effects" value={mix.sfxGain} disabled={disabled} onChange={(sfxGain) => update({ sfxGain })} />
+            <LevelSlider label="Ducking" value={mix.ducking} max={1} disabled={disabled || mix.music === 'off'} onChange={(ducking) => update({ ducking })} />
+            <p className="text-[10px] text-slate-500 pl-16">Ducking lowers the music while the voiceover or narration speaks.</p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="w-14 text-[10px] text-slate-500 uppercase font-semibold">Music</span>
+            <div className="flex-1 grid grid-cols-3 gap-1">
+              {(Object.keys(MUSIC_SOURCE_LABELS) as MusicSource[]).map(source => (
+                <button
+                  key={source}
+                  onClick={() => source === 'track' && !mix.track ? fileInputRef.current?.click() : update({ music: source }, "Changed music")}
+                  disabled={disabled}
+                  className={clsx(
+                    "py-1 rounded-md border text-[11px] disabled:opacity-50",
+                    mix.music === source ? "border-green-500/50 bg-green-500/10 text-green-300" : "border-slate-700 text-slate-400 hover:text-slate-200"
+                  )}
+                >
+                  {MUSIC_SOURCE_LABELS[source]}
+                </button>
+              ))}
+            </div>
+            <input ref={fileInputRef} type="file" accept={MUSIC_FILE_ACCEPT} className="hidden" onChange={handleFile} />
+          </div>
+
+          {mix.music === 'generated' && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="w-14 text-[10px] text-slate-500 uppercase font-semibold">Mood</span>
+                <select value={mix.mood} disabled={disabled} onChange={(e) => update({ mood: e.target.value as MusicMood }, "Changed music mood")} className={clsx(inputClass, "flex-1 min-w-0")}>
+                  {(Object.keys(MOOD_LABELS) as MusicMood[]).map(mood => <option key={mood} value={mood}>{MOOD_LABELS[mood]}</option>)}
+                </select>
+                <select value={mix.scale} disabled={disabled} onChange={(e) => update({ scale: e.target.value as MusicScale }, "Changed music scale")} className={clsx(inputClass, "flex-1 min-w-0")}>
+                  {(Object.keys(SCALE_LABELS) as MusicScale[]).map(scale => <option key={scale} value={scale}>{SCALE_LABELS[scale]}</option>)}
+                </select>
+              </div>
+              <div className="flex items-center gap-2 text-[11px] text-slate-400">
+                <span className="w-14 text-[10px] text-slate-500 uppercase font-semibold">Melody</span>
+                <span className="flex-1 font-mono truncate">
+                  {mix.seed !== undefined ? `#${mix.seed.toString(16).padStart(8, '0')}` : "From the table"}
+                </span>
+                {mix.seed !== undefined && (
+                  <button onClick={() => update({ seed: undefined }, "Changed melody")} disabled={disabled} className="text-[10px] text-slate-500 hover:text-slate-300 disabled:opacity-50">
+                    Reset
+                  </button>
+                )}
+                <button
+                  onClick={() => update({ seed: newMusicSeed() }, "Changed melody")}
+                  disabled={disabled}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md border border-slate-700 hover:text-green-400 disabled:opacity-50"
+                >
+                  <Shuffle size={11} /> New melody
+                </button>
+              </div>
+            </div>
+          )}
+
+          {mix.music === 'track' && mix.track && (
+            <div className="space-y-2 p-2 bg-slate-900/60 border border-slate-700 rounded-md">
+              <div className="flex items-center gap-2 text-[11px] text-slate-300">
+                <Music size={12} className="text-green-400 shrink-0" />
+                <span className="flex-1 truncate" title={mix.track.name}>{mix.track.name}</span>
+                <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className="text-slate-400 hover:text-white disabled:opacity-50" title="Replace">
+                  <Upload size={12} />
+                </button>
+                <button onClick={() => update({ music: 'generated', track: undefined }, "Removed music")} disabled={disabled} className="text-slate-400 hover:text-red-400 disabled:opacity-50" title="Remove">
+                  <X size={12} />
+                </button>
+              </div>
+              <div className="flex items-center gap-3 text-[11px] text-slate-400">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox" checked={mix.track.loop} disabled={disabled}
+                    onChange={(e) => updateTrack({ loop: e.target.checked }, e.target.checked ? "Looped music" : "Stopped looping music")}
+                    className="rounded border-slate-600 bg-slate-700 text-green-600"
+                  />
+                  Loop
+                </label>
+                <label className="flex items-center gap-1">
+                  Fade in
+                  <input
+                    type="number" min={0} step={0.5} value={mix.track.fadeIn} disabled={disabled}
+                    onChange={(e) => updateTrack({ fadeIn: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className={clsx(inputClass, "w-14 font-mono")}
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  Fade out
+                  <input
+                    type="number" min={0} step={0.5} value={mix.track.fadeOut} disabled={disabled}
+                    onChange={(e) => updateTrack({ fadeOut: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className={clsx(inputClass, "w-14 font-mono")}
+                  />
+                </label>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2 pt-2 border-t border-slate-700">
+            <div className="flex items-center gap-2">
+              <span className="w-14 text-[10px] text-slate-500 uppercase font-semibold">Effects</span>
+              <select
+                value={effects.pack}
+                disabled={disabled}
+                onChange={(e) => updateEffects({ pack: e.target.value as SoundEffects['pack'] }, "Changed sound effects")}
+                className={clsx(inputClass, "flex-1 min-w-0")}
+              >
+                {(Object.keys(SFX_PACK_LABELS) as SoundEffects['pack'][]).map(id => <option key={id} value={id}>{SFX_PACK_LABELS[id]}</option>)}
+              </select>
+            </div>
+            {(Object.keys(SFX_EVENT_LABELS) as SfxEvent[]).map(event => (
+              <div key={event} className="flex items-center gap-2">
+                <span className="w-24 text-[11px] text-slate-400 truncate">{SFX_EVENT_LABELS[event]}</span>
+                <select
+                  value={effects.events?.[event] ?? ''}
+                  disabled={disabled}
+                  onChange={(e) => setEventSound(event, e.target.value as SfxSound | '')}
+                  className={clsx(inputClass, "flex-1 min-w-0")}
+                >
+                  <option value="">Pack ({SFX_PRESET_LABELS[SFX_PACKS[pack][event]]})</option>
+                  {(Object.keys(SFX_PRESET_LABELS) as SfxPreset[]).map(preset => <option key={preset} value={preset}>{SFX_PRESET_LABELS[preset]}</option>)}
+                  {effects.samples?.map(sample => <option key={sample.id} value={sampleSound(sample)}>{sample.name}</option>)}
+                </select>
+                <button
+                  onClick={() => listen(resolveSound(effects, event, config))}
+                  className="p-1 text-slate-400 hover:text-green-400"
+                  title="Listen"
+                >
+                  <Play size={11} />
+                </button>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-1">
+              {effects.samples?.map(sample => (
+                <span key={sample.id} className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] border border-slate-700 text-slate-300 max-w-[10rem]">
+                  <span className="truncate" title={sample.name}>{sample.name}</span>
+                  <button onClick={() => removeSample(sample)} disabled={disabled} className="text-slate-500 hover:text-red-400 disabled:opacity-50" title="Remove">
+                    <X size={10} />
+                  </button>
+                </span>
+              ))}
+              <button
+                onClick={() => sampleInputRef.current?.click()}
+                disabled={disabled}
+                className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] border border-dashed border-slate-700 text-slate-400 hover:text-green-400 disabled:opacity-50"
+              >
+                <Upload size={10} /> Upload sound
+              </button>
+              <input ref={sampleInputRef} type="file" accept={SFX_FILE_ACCEPT} className="hidden" onChange={handleSampleFile} />
+            </div>
+          </div>
+
+          {error && <p className="text-[11px] text-amber-300">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { X, Layers, Upload, Play, Square, Download, Trash2, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { AnimationConfig, VideoFormat } from '../types';
+import { BatchItem, BatchFile, BatchOutputs, parseBatchInput, parseBatchFiles, runBatch, buildBatchZip } from '../utils/batchRenderer';
+
+interface BatchPanelProps {
+  isOpen: boolean;
+  config: AnimationConfig;
+  videoFormat: VideoFormat;
+  logoSrc: string;
+  onClose: () => void;
+  onRunningChange: (running: boolean) => void;
+}
+
+const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ isOpen, config, videoFormat, logoSrc, onClose, onRunningChange }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [pasted, setPasted] = useState("");
+  const [outputs, setOutputs] = useState<BatchOutputs>({ video: true, image: false });
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<BatchFile[]>([]);
+  const [isZipping, setIsZipping] = useState(false);
+  const cancelRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    const parsed = await parseBatchFiles(Array.from(files));
+    setItems(prev => [...prev, ...parsed]);
+  };
+
+  const downloadZip = async (files: BatchFile[]) => {
+    if (files.length === 0) return;
+    setIsZipping(true);
+    try {
+      downloadBlob(await buildBatchZip(files), `loksewa-batch-${Date.now()}.zip`);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to build zip archive.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleStart = async () => {
+    cancelRef.current = false;
+    setIsRunning(true);
+    onRunningChange(true);
+    setResults([]);
+    // Every run renders all valid items so the zip is always complete
+    const queue = items.map(item => item.data ? { ...item, status: 'pending' as const, progress: 0, error: undefined } : item);
+    setItems(queue);
+    try {
+      const files = await runBatch(queue, config, outputs, videoFormat, logoSrc, {
+        onItemUpdate: updateItem,
+        isCancelled: () => cancelRef.current
+      });
+      setResults(files);
+      if (!cancelRef.current) await downloadZip(files);
+    } finally {
+      setIsRunning(false);
+      onRunningChange(false);
+    }
+  };
+
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const runnable = items.filter(i => i.data).length;
+
+  return (
+    // Kept mounted while closed so a running batch survives hiding the panel
+    <div className={clsx("fixed inset-0 z-[100] bg-slate-950/80 backdrop-blur-sm items-center justify-center p-4", isOpen ? "flex animate-in fade-in" : "hidden")}>
+        <div className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-slate-900 rounded-xl border border-slate-700 shadow-2xl overflow-hidden">
+            <div className="flex items-center justify-between p-4 border-b border-slate-800">
+                <h2 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+                    <Layers size={16} className="text-purple-400" /> Batch Render
+                    {items.length > 0 && <span className="text-slate-500 normal-case font-normal">{doneCount}/{runnable} done</span>}
+                </h2>
+                <button onClick={onClose} className="p-1 text-slate-500 hover:text-white rounded-full hover:bg-white/10" title={isRunning ? "Hide (keeps rendering)" : "Close"}>
+                    <X size={18} />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+                {!isRunning && (
+                    <div className="grid md:grid-cols-2 gap-3">
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={(e) => { e.preventDefault(); addFiles(e.dataTransfer.files); }}
+                            className="py-6 border border-dashed border-slate-700 rounded-lg text-slate-500 hover:text-purple-400 hover:border-purple-500/50 hover:bg-purple-500/5 transition-all flex flex-col items-center justify-center gap-1"
+                        >
+                            <Upload size={18} />
+                            <span className="text-xs">Drop or pick JSON files</span>
+                            <input ref={fileInputRef} type="file" accept=".json,application/json" multiple className="hidden" onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+                        </button>
+                        <div className="flex flex-col gap-2">
+                            <textarea
+                                value={pasted}
+                                onChange={(e) => setPasted(e.target.value)}
+                                placeholder='Paste a JSON array: [{"title": ..., "columns": [...], "data": [...]}, ...]'
+                                className="flex-1 min-h-[80px] bg-slate-800 border border-slate-700 rounded-lg p-2 font-mono text-xs text-slate-200 resize-none focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                                spellCheck={false}
+                            />
+                            <button
+                                onClick={() => { setItems(prev => [...prev, ...parseBatchInput(pasted, "Pasted JSON")]); setPasted(""); }}
+                                disabled={!pasted.trim()}
+                                className="py-1.5 text-xs rounded-md bg-purple-500/10 border border-purple-500/20 text-purple-400 hover:text-purple-300 disabled:opacity-50"
+                            >
+                                Add to queue
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex items-center gap-4 text-sm text-slate-300">
+                    <span className="text-xs text-slate-500 font-semibold uppercase">Outputs</span>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={outputs.video} disabled={isRunning} onChange={(e) => setOutputs({ ...outputs, video: e.target.checked })} className="w-4 h-4 rounded border-slate-600 bg-slate-700" />
+                        Video <span className="text-[10px] text-slate-500 uppercase">{videoFormat}</span>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={outputs.image} disabled={isRunning} onChange={(e) => setOutputs({ ...outputs, image: e.target.checked })} className="w-4 h-4 rounded border-slate-600 bg-slate-700" />
+                        Social Image
+                    </label>
+                    <span className="ml-auto text-[10px] text-slate-500">Uses the current design settings</span>
+                </div>
+
+                <div className="space-y-2">
+                    {items.length === 0 && <div className="text-center py-6 text-sm text-slate-500">Queue is empty.</div>}
+                    {items.map(item => (
+                        <div key={item.id} className="p-2 bg-slate-800/50 border border-slate-700 rounded-lg">
+                            <div className="flex items-center gap-2">
+                                {item.status === 'rendering' && <Loader2 size={14} className="animate-spin text-blue-400 shrink-0" />}
+                                {item.status === 'done' && <CheckCircle2 size={14} className="text-green-400 shrink-0" />}
+                                {item.status === 'error' && <AlertCircle size={14} className="text-red-400 shrink-0" />}
+                                {(item.status === 'pending' || item.status === 'skipped') && <div className="w-3.5 h-3.5 rounded-full border border-slate-600 shrink-0" />}
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm text-slate-200 truncate">{item.data?.title || "Untitled table"}</div>
+                                    <div className="text-[10px] text-slate-500 truncate">
+                                        {item.source}{item.data && ` · ${item.data.data.length} rows`}{item.status === 'skipped' && " · skipped"}
+                                    </div>
+                                </div>
+                                {item.status === 'rendering' && <span className="text-xs font-mono text-blue-400">{Math.round(item.progress * 100)}%</span>}
+                                {!isRunning && (
+                                    <button onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))} className="p-1 text-slate-500 hover:text-red-400 rounded hover:bg-white/10">
+                                        <Trash2 size={12} />
+                                    </button>
+                                )}
+                            </div>
+                            {item.status === 'rendering' && (
+                                <div className="mt-2 h-1 bg-slate-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-gradient-to-r from-blue-600 to-purple-600 transition-all" style={{ width: `${item.progress * 100}%` }} />
+                                </div>
+                            )}
+                            {item.error && <div className="mt-1 text-xs text-red-300">{item.error}</div>}
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex justify-end gap-2 p-4 border-t border-slate-800">
+                {results.length > 0 && !isRunning && (
+                    <button
+                        onClick={() => downloadZip(results)}
+                        disabled={isZipping}
+                        className="mr-auto px-4 py-2 text-sm flex items-center gap-2 text-slate-300 hover:text-white disabled:opacity-50"
+                    >
+                        {isZipping ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Download zip ({results.length} files)
+                    </button>
+                )}
+                {isRunning ? (
+                    <button
+                        onClick={() => { cancelRef.current = true; }}
+                        className="px-4 py-2 text-sm flex items-center gap-2 bg-red-600/20 hover:bg-red-600/30 text-red-300 border border-red-600/30 rounded-lg"
+                    >
+                        <Square size={14} /> Stop after current
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleStart}
+                        disabled={runnable === 0 || (!outputs.video && !outputs.image)}
+                        className="px-4 py-2 text-sm flex items-center gap-2 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+                    >
+                        <Play size={14} /> Render {runnable} {runnable === 1 ? "table" : "tables"}
+                    </button>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React from 'react';
+import { clsx } from 'clsx';
+import { TableData, AnimationConfig, ColumnType, NumeralScript, DigitGrouping, DateCalendar, DateStyle, DateRange } from '../types';
+import {
+  COLUMN_TYPE_LABELS, NUMERAL_SCRIPT_LABELS, DIGIT_GROUPING_LABELS, DATE_CALENDAR_LABELS, DATE_STYLE_LABELS,
+  DEFAULT_NUMBER_FORMAT, DEFAULT_DATE_FORMAT, detectColumnType, formatCell, resolveNumberFormat, getColumnType, isDateType, parseCell,
+} from '../utils/columnFormat';
+
+interface ColumnFormatPanelProps {
+  data: TableData;
+  config: AnimationConfig;
+  disabled?: boolean;
+  onConfigChange: (changes: Partial<AnimationConfig>, label: string) => void;
+}
+
+const selectClass = "w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg p-2 disabled:opacity-50";
+
+/**
+ * Column types, number and date display, and the date range the presentation
+ * keeps. Types are detected until set here; the table itself is never
+ * rewritten, only how the renderers draw it.
+ */
+export const ColumnFormatPanel: React.FC<ColumnFormatPanelProps> = ({ data, config, disabled, onConfigChange }) => {
+  const types = config.columnTypes ?? {};
+  const numberFormat = config.numberFormat ?? DEFAULT_NUMBER_FORMAT;
+  const dateFormat = config.dateFormat ?? DEFAULT_DATE_FORMAT;
+  const dateColumns = data.columns.filter((_, col) => isDateType(getColumnType(data, config, col)));
+  const range = config.dateRange;
+  const rangeType = range ? getColumnType(data, config, data.columns.indexOf(range.column)) : 'text';
+
+  const handleType = (column: string, value: ColumnType | '') => {
+    const next = { ...types };
+    if (value) next[column] = value;
+    else delete next[column];
+    onConfigChange({ columnTypes: next }, "Changed column type");
+  };
+
+  // The first filled cell as it will be drawn, so the effect of a type is visible here
+  const sample = (col: number) => {
+    const cell = data.data.map(row => row[col] ?? '').find(c => c.trim()) ?? '';
+    return formatCell(cell, getColumnType(data, config, col), resolveNumberFormat(data, config, col), dateFormat);
+  };
+
+  const updateRange = (changes: Partial<DateRange>) => {
+    const next = { ...range, column: range?.column ?? dateColumns[0], ...changes };
+    onConfigChange({ dateRange: next.column ? next : undefined }, "Changed date range");
+  };
+
+  // An end that won't parse is ignored by the filter, so say so
+  const rangeEndClass = (value?: string) => clsx(
+    "w-full bg-slate-900 border text-slate-200 text-xs rounded-md p-1.5 font-mono placeholder:text-slate-600 disabled:opacity-50",
+    value && isDateType(rangeType) && parseCell(value, rangeType) === null ? "border-amber-500/60" : "border-slate-700"
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-slate-500 font-semibold uppercase">Columns & Numbers</div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1 block">
+          <span className="text-[10px] text-slate-500 uppercase font-semibold">Digits</span>
+          <select
+            value={numberFormat.script}
+            disabled={disabled}
+            onChange={(e) => onConfigChange({ numberFormat: { ...numberFormat, script: e.target.value as NumeralScript } }, "Changed number format")}
+            className={selectClass}
+          >
+            {(Object.keys(NUMERAL_SCRIPT_LABELS) as NumeralScript[]).map(s => (
+              <option key={s} value={s}>{NUMERAL_SCRIPT_LABELS[s]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 block">
+          <span className="text-[10px] text-slate-500 uppercase font-semibold">Grouping</span>
+          <select
+            value={numberFormat.grouping}
+            disabled={disabled}
+            onChange={(e) => onConfigChange({ numberFormat: { ...numberFormat, grouping: e.target.value as DigitGrouping } }, "Changed number format")}
+            className={selectClass}
+          >
+            {(Object.keys(DIGIT_GROUPING_LABELS) as DigitGrouping[]).map(g => (
+              <option key={g} value={g}>{DIGIT_GROUPING_LABELS[g]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {dateColumns.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="space-y-1 block">
+            <span className="text-[10px] text-slate-500 uppercase font-semibold">Calendar</span>
+            <select
+              value={dateFormat.calendar}
+              disabled={disabled}
+              onChange={(e) => onConfigChange({ dateFormat: { ...dateFormat, calendar: e.target.value as DateCalendar } }, "Changed date format")}
+              className={selectClass}
+            >
+              {(Object.keys(DATE_CALENDAR_LABELS) as DateCalendar[]).map(c => (
+                <option key={c} value={c}>{DATE_CALENDAR_LABELS[c]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 block">
+            <span className="text-[10px] text-slate-500 uppercase font-semibold">Date style</span>
+            <select
+              value={dateFormat.style}
+              disabled={disabled}
+              onChange={(e) => onConfigChange({ dateFormat: { ...dateFormat, style: e.target.value as DateStyle } }, "Changed date format")}
+              className={selectClass}
+            >
+              {(Object.keys(DATE_STYLE_LABELS) as DateStyle[]).map(st => (
+                <option key={st} value={st}>{DATE_STYLE_LABELS[st]}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="col-span-2 space-y-1">
+            <span className="text-[10px] text-slate-500 uppercase font-semibold">Only rows dated</span>
+            <div className="flex items-center gap-2">
+              <select
+                value={range?.column ?? dateColumns[0]}
+                disabled={disabled}
+                onChange={(e) => updateRange({ column: e.target.value })}
+                className="w-1/3 bg-slate-900 border border-slate-700 text-slate-200 text-xs rounded-md p-1.5 disabled:opacity-50"
+              >
+                {dateColumns.map(col => <option key={col} value={col}>{col}</option>)}
+              </select>
+              <input
+                value={range?.from ?? ''}
+                disabled={disabled}
+                placeholder="from"
+                onChange={(e) => updateRange({ from: e.target.value || undefined })}
+                className={rangeEndClass(range?.from)}
+              />
+              <input
+                value={range?.to ?? ''}
+                disabled={disabled}
+                placeholder="to"
+                onChange={(e) => updateRange({ to: e.target.value || undefined })}
+                className={rangeEndClass(range?.to)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ul className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar pr-1">
+        {data.columns.map((column, col) => (
+          <li key={col} className="flex items-center gap-2 bg-slate-800/60 border border-slate-700 rounded-md px-2 py-1">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-slate-200 truncate" title={column}>{column}</div>
+              <div className="text-[10px] text-slate-500 font-mono truncate">{sample(col)}</div>
+            </div>
+            <select
+              value={types[column] ?? ''}
+              disabled={disabled}
+              onChange={(e) => handleType(column, e.target.value as ColumnType | '')}
+              className="w-32 bg-slate-900 border border-slate-700 text-slate-200 text-xs rounded-md p-1.5 disabled:opacity-50"
+            >
+              <option value="">Auto ({COLUMN_TYPE_LABELS[detectColumnType(data, col)]})</option>
+              {(Object.keys(COLUMN_TYPE_LABELS) as ColumnType[]).map(t => (
+                <option key={t} value={t}>{COLUMN_TYPE_LABELS[t]}</option>
+              ))}
+            </select>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
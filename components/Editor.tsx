@@ -1,42 +1,174 @@
-
-import React from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { clsx } from 'clsx';
-import { AlertCircle, CheckCircle2 } from 'lucide-react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Table2, Braces, Wrench } from 'lucide-react';
+import { TableData, ColumnType } from '../types';
+import { GridEditor } from './GridEditor';
+import { ValidationIssue, FixKind, FIX_LABELS } from '../utils/tableValidator';
 
 interface EditorProps {
   jsonString: string;
   setJsonString: (val: string) => void;
   isValid: boolean;
-  errorMessage: string | null;
+  issues: ValidationIssue[];
+  onApplyFix: (fix: FixKind) => void;
+  data: TableData;
+  columnType?: (colIdx: number) => ColumnType;
+  hiddenRows?: Set<number>;
 }
 
-export const Editor: React.FC<EditorProps> = ({ jsonString, setJsonString, isValid, errorMessage }) => {
+type EditorView = 'grid' | 'json';
+
+// Shared by the textarea and the highlight layer behind it so lines stay aligned
+const CODE_CLASS = "p-4 font-mono text-base md:text-sm leading-6 whitespace-pre";
+
+export const Editor: React.FC<EditorProps> = ({ jsonString, setJsonString, isValid, issues, onApplyFix, data, columnType, hiddenRows }) => {
+  const [view, setView] = useState<EditorView>('grid');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  // line -> worst severity on that line
+  const flaggedLines = useMemo(() => {
+    const map = new Map<number, ValidationIssue['severity']>();
+    issues.forEach(i => {
+      if (map.get(i.line) !== 'error') map.set(i.line, i.severity);
+    });
+    return map;
+  }, [issues]);
+
+  const availableFixes = useMemo(
+    () => [...new Set(issues.map(i => i.fix).filter((f): f is FixKind => !!f))],
+    [issues]
+  );
+
+  // Grid edits are serialized back into JSON so both views go through the same validation
+  const handleGridChange = (newData: TableData) => {
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  const syncScroll = () => {
+    if (!textareaRef.current || !highlightRef.current) return;
+    highlightRef.current.scrollTop = textareaRef.current.scrollTop;
+    highlightRef.current.scrollLeft = textareaRef.current.scrollLeft;
+  };
+
+  const jumpToIssue = (issue: ValidationIssue) => {
+    setView('json');
+    // Wait for the textarea to mount if we just switched views
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      const lines = jsonString.split('\n');
+      const offset = lines.slice(0, issue.line - 1).reduce((sum, l) => sum + l.length + 1, 0) + issue.column - 1;
+      textarea.focus();
+      textarea.setSelectionRange(offset, offset);
+      const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 24;
+      textarea.scrollTop = Math.max(0, (issue.line - 3) * lineHeight);
+      syncScroll();
+    });
+  };
+
   return (
     <div className="flex flex-col h-full bg-slate-800 rounded-lg overflow-hidden border border-slate-700">
-        <div className="flex items-center justify-between p-3 bg-slate-900 border-b border-slate-700">
-            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Data Source (JSON)</span>
+        <div className="flex items-center justify-between p-2 pl-3 bg-slate-900 border-b border-slate-700">
+            <div className="flex items-center gap-1">
+                {([['grid', 'Grid', Table2], ['json', 'JSON', Braces]] as const).map(([key, label, Icon]) => (
+                    <button
+                        key={key}
+                        onClick={() => setView(key)}
+                        className={clsx(
+                            "flex items-center gap-1 px-2 py-1 rounded-md text-xs font-bold uppercase tracking-wider transition-colors",
+                            view === key ? "bg-slate-800 text-blue-400" : "text-slate-500 hover:text-slate-300"
+                        )}
+                    >
+                        <Icon size={12} /> {label}
+                    </button>
+                ))}
+            </div>
             <div className="flex items-center gap-2">
                 {isValid ? (
                     <span className="flex items-center gap-1 text-xs text-green-400"><CheckCircle2 size={14}/> Valid</span>
                 ) : (
-                    <span className="flex items-center gap-1 text-xs text-red-400"><AlertCircle size={14}/> Invalid</span>
+                    <span className="flex items-center gap-1 text-xs text-red-400"><AlertCircle size={14}/> {errorCount} {errorCount === 1 ? 'Error' : 'Errors'}</span>
+                )}
+                {warningCount > 0 && (
+                    <span className="flex items-center gap-1 text-xs text-amber-400"><AlertTriangle size={14}/> {warningCount}</span>
                 )}
             </div>
         </div>
-        <textarea
-            value={jsonString}
-            onChange={(e) => setJsonString(e.target.value)}
-            className={clsx(
-                "flex-1 w-full bg-slate-800 text-slate-200 p-4 font-mono resize-none focus:outline-none focus:ring-2 focus:ring-inset",
-                // Mobile: text-base (16px) prevents zoom. Desktop: text-sm for better density.
-                "text-base md:text-sm", 
-                isValid ? "focus:ring-blue-500/50" : "focus:ring-red-500/50"
-            )}
-            spellCheck={false}
-        />
-        {errorMessage && (
-            <div className="p-2 bg-red-900/20 text-red-300 text-xs border-t border-red-900/50">
-                {errorMessage}
+        {view === 'grid' ? (
+            <>
+                {!isValid && (
+                    <div className="p-2 bg-amber-900/20 text-amber-300 text-xs border-b border-amber-900/50">
+                        The JSON has errors. Showing the last valid table; fix it in the JSON tab to keep editing here.
+                    </div>
+                )}
+                <GridEditor data={data} onChange={handleGridChange} disabled={!isValid} columnType={columnType} hiddenRows={hiddenRows} />
+            </>
+        ) : (
+            <div className="relative flex-1 min-h-0">
+                {/* Line highlights rendered behind the transparent textarea */}
+                <div ref={highlightRef} aria-hidden className={clsx("absolute inset-0 overflow-hidden text-transparent pointer-events-none", CODE_CLASS)}>
+                    {jsonString.split('\n').map((line, i) => (
+                        <div
+                            key={i}
+                            className={clsx(
+                                "-mx-4 px-4",
+                                flaggedLines.get(i + 1) === 'error' && "bg-red-500/15",
+                                flaggedLines.get(i + 1) === 'warning' && "bg-amber-500/10"
+                            )}
+                        >
+                            {line || ' '}
+                        </div>
+                    ))}
+                </div>
+                <textarea
+                    ref={textareaRef}
+                    value={jsonString}
+                    onChange={(e) => setJsonString(e.target.value)}
+                    onScroll={syncScroll}
+                    wrap="off"
+                    className={clsx(
+                        "absolute inset-0 w-full h-full bg-transparent text-slate-200 resize-none overflow-auto focus:outline-none focus:ring-2 focus:ring-inset",
+                        CODE_CLASS,
+                        isValid ? "focus:ring-blue-500/50" : "focus:ring-red-500/50"
+                    )}
+                    spellCheck={false}
+                />
+            </div>
+        )}
+        {issues.length > 0 && (
+            <div className="max-h-40 overflow-y-auto custom-scrollbar bg-slate-900/60 border-t border-slate-700 text-xs">
+                {availableFixes.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 p-2 border-b border-slate-800">
+                        <Wrench size={12} className="text-slate-500" />
+                        {availableFixes.map(fix => (
+                            <button
+                                key={fix}
+                                onClick={() => onApplyFix(fix)}
+                                className="px-2 py-0.5 rounded-md bg-blue-500/10 border border-blue-500/20 text-blue-400 hover:text-blue-300"
+                            >
+                                {FIX_LABELS[fix]}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {issues.map((issue, i) => (
+                    <button
+                        key={i}
+                        onClick={() => jumpToIssue(issue)}
+                        className={clsx(
+                            "w-full flex items-start gap-2 px-2 py-1 text-left hover:bg-white/5",
+                            issue.severity === 'error' ? "text-red-300" : "text-amber-300"
+                        )}
+                    >
+                        <span className="font-mono text-slate-500 shrink-0">{issue.line}:{issue.column}</span>
+                        <span className="flex-1">{issue.message}</span>
+                        <span className="font-mono text-slate-600 shrink-0">{issue.path}</span>
+                    </button>
+                ))}
             </div>
         )}
     </div>
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, Trash2, AlertTriangle } from 'lucide-react';
+import { TableData, AnimationConfig, FontRole, ProjectFont } from '../types';
+import { FONT_ROLE_LABELS } from '../utils/sceneRenderer';
+import { getRenderTable } from '../utils/tableView';
+import { FONT_FILE_ACCEPT, FontWarning, readFontFile, registerFont, checkFontCoverage, fontDisplayName } from '../utils/fontLoader';
+
+interface FontPanelProps {
+  data: TableData;
+  config: AnimationConfig;
+  onConfigChange: (changes: Partial<AnimationConfig>, label: string) => void;
+}
+
+const MAX_LISTED_GLYPHS = 12;
+
+/**
+ * Uploaded fonts and which text role uses each one. Fonts live in the config so
+ * they travel with the project and reach every renderer.
+ */
+export const FontPanel: React.FC<FontPanelProps> = ({ data, config, onConfigChange }) => {
+  const fonts = config.fonts ?? [];
+  const roles = config.fontRoles ?? {};
+  const [warnings, setWarnings] = useState<FontWarning[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Measuring needs the faces registered, e.g. right after a project is opened
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(fonts.map(f => registerFont(f).catch(() => null))).then(() => {
+      // Check the text as drawn: formatting can switch a column's digits to another script
+      if (!cancelled) setWarnings(checkFontCoverage(getRenderTable(data, config), config));
+    });
+    return () => { cancelled = true; };
+  }, [data, config.fonts, config.fontRoles, config.columnTypes, config.numberFormat, config.dateFormat, config.dateRange]);
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setIsLoading(true);
+    const added: ProjectFont[] = [];
+    try {
+      for (const file of Array.from(files)) {
+        try {
+          added.push(await readFontFile(file));
+        } catch (e: any) {
+          alert(e.message || `Failed to load ${file.name}`);
+        }
+      }
+      if (added.length) onConfigChange({ fonts: [...fonts, ...added] }, added.length === 1 ? "Added font" : "Added fonts");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    const nextRoles = { ...roles };
+    for (const role of Object.keys(nextRoles) as FontRole[]) {
+      if (nextRoles[role] === id) delete nextRoles[role];
+    }
+    onConfigChange({ fonts: fonts.filter(f => f.id !== id), fontRoles: nextRoles }, "Removed font");
+  };
+
+  const handleAssign = (role: FontRole, id: string) => {
+    const nextRoles = { ...roles };
+    if (id) nextRoles[role] = id;
+    else delete nextRoles[role];
+    onConfigChange({ fontRoles: nextRoles }, "Changed fonts");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-slate-500 font-semibold uppercase">Fonts</div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className="text-xs flex items-center gap-1 text-slate-300 hover:text-white bg-slate-800 px-2 py-1 rounded-md border border-slate-700 disabled:opacity-50"
+        >
+          <Upload size={12} /> {isLoading ? 'Loading...' : 'Upload font'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={FONT_FILE_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            handleUpload(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {fonts.length > 0 && (
+        <ul className="space-y-1">
+          {fonts.map(font => (
+            <li key={font.id} className="flex items-center justify-between gap-2 bg-slate-800/60 border border-slate-700 rounded-md px-2 py-1">
+              <span className="text-sm text-slate-200 truncate" style={{ fontFamily: `"${font.family}", sans-serif` }}>
+                {fontDisplayName(font)}
+              </span>
+              <button onClick={() => handleRemove(font.id)} className="text-slate-500 hover:text-red-400" title="Remove font">
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(FONT_ROLE_LABELS) as FontRole[]).map(role => (
+          <label key={role} className="space-y-1 block">
+            <span className="text-[10px] text-slate-500 uppercase font-semibold">{FONT_ROLE_LABELS[role]}</span>
+            <select
+              value={roles[role] ?? ''}
+              onChange={(e) => handleAssign(role, e.target.value)}
+              disabled={fonts.length === 0}
+              className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg p-2 disabled:opacity-50"
+            >
+              <option value="">Theme font</option>
+              {fonts.map(font => (
+                <option key={font.id} value={font.id}>{fontDisplayName(font)}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {warnings.map(w => (
+        <div key={w.role} className="flex gap-2 text-[11px] text-amber-300 bg-amber-500/10 border border-amber-500/20 rounded-md p-2">
+          <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+          <span>
+            {FONT_ROLE_LABELS[w.role]}: {fontDisplayName(w.font)}{' '}
+            {w.missing.length > 0
+              ? <>has no glyphs for <span className="font-mono">{w.missing.slice(0, MAX_LISTED_GLYPHS).join(' ')}{w.missing.length > MAX_LISTED_GLYPHS ? ' …' : ''}</span>. Those characters will use the theme font.</>
+              : <>doesn't join conjuncts like "{w.unshapedConjunct}", so Devanagari may render as separate letters.</>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React from 'react';
+import { clsx } from 'clsx';
+import { Plus, Trash2, Copy, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, ArrowUpDown } from 'lucide-react';
+import { TableData, ColumnType } from '../types';
+import {
+  setCell, setHeader, addRow, deleteRow, duplicateRow, moveRow,
+  addColumn, deleteColumn, duplicateColumn, moveColumn, sortRows, parseClipboardGrid, pasteBlock
+} from '../utils/tableOps';
+import { compareCells } from '../utils/columnFormat';
+
+interface GridEditorProps {
+  data: TableData;
+  onChange: (data: TableData) => void;
+  disabled?: boolean;
+  columnType?: (colIdx: number) => ColumnType; // sorts by value instead of text
+  hiddenRows?: Set<number>; // rows the presentation leaves out, shown dimmed
+}
+
+const iconButton = "p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors";
+
+export const GridEditor: React.FC<GridEditorProps> = ({ data, onChange, disabled, columnType, hiddenRows }) => {
+  const numCols = data.columns.length;
+
+  // Ascending first; a column that is already ascending flips to descending
+  const handleSort = (colIdx: number) => {
+    const type = columnType?.(colIdx) ?? 'text';
+    const compare = (a: string[], b: string[]) => compareCells(a[colIdx] ?? '', b[colIdx] ?? '', type);
+    const ascending = data.data.every((row, i) => i === 0 || compare(data.data[i - 1], row) <= 0);
+    onChange(sortRows(data, ascending ? (a, b) => compare(b, a) : compare));
+  };
+
+  // Multi-cell clipboard content (from a spreadsheet) fills the grid from the focused cell.
+  // Single values fall through to the native input paste.
+  const handlePaste = (e: React.ClipboardEvent, rowIdx: number, colIdx: number) => {
+    const text = e.clipboardData.getData('text/plain');
+    if (!text.includes('\t') && !text.trim().includes('\n')) return;
+    e.preventDefault();
+    onChange(pasteBlock(data, rowIdx, colIdx, parseClipboardGrid(text)));
+  };
+
+  return (
+    <div className={clsx("flex-1 overflow-auto custom-scrollbar", disabled && "opacity-50 pointer-events-none")}>
+        <table className="text-sm border-collapse min-w-full">
+            <thead className="sticky top-0 z-10 bg-slate-900">
+                <tr>
+                    <th className="w-16 border-b border-slate-700" />
+                    {data.columns.map((col, colIdx) => (
+                        <th key={colIdx} className="border-b border-l border-slate-700 p-1 align-top min-w-[140px]">
+                            <div className="flex items-center justify-center gap-0.5 mb-1">
+                                <button className={iconButton} title="Move left" disabled={colIdx === 0} onClick={() => onChange(moveColumn(data, colIdx, colIdx - 1))}>
+                                    <ChevronLeft size={12} />
+                                </button>
+                                <button className={iconButton} title="Move right" disabled={colIdx === numCols - 1} onClick={() => onChange(moveColumn(data, colIdx, colIdx + 1))}>
+                                    <ChevronRight size={12} />
+                                </button>
+                                <button className={iconButton} title="Sort rows by this column" onClick={() => handleSort(colIdx)}>
+                                    <ArrowUpDown size={12} />
+                                </button>
+                                <button className={iconButton} title="Insert column after" onClick={() => onChange(addColumn(data, colIdx + 1))}>
+                                    <Plus size={12} />
+                                </button>
+                                <button className={iconButton} title="Duplicate column" onClick={() => onChange(duplicateColumn(data, colIdx))}>
+                                    <Copy size={12} />
+                                </button>
+                                <button className={iconButton} title="Delete column" disabled={numCols <= 1} onClick={() => onChange(deleteColumn(data, colIdx))}>
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                            <input
+                                value={col}
+                                onChange={(e) => onChange(setHeader(data, colIdx, e.target.value))}
+                                onPaste={(e) => {
+                                    // A pasted header row fills column names instead of cells
+                                    const text = e.clipboardData.getData('text/plain');
+                                    if (!text.includes('\t')) return;
+                                    e.preventDefault();
+                                    const [headers] = parseClipboardGrid(text);
+                                    let next = data;
+                                    headers.forEach((h, i) => {
+                                        if (colIdx + i < numCols) next = setHeader(next, colIdx + i, h.trim());
+                                    });
+                                    onChange(next);
+                                }}
+                                className={clsx(
+                                    "w-full bg-slate-800 rounded px-2 py-1 font-bold text-xs uppercase focus:outline-none focus:ring-2 focus:ring-blue-500/50",
+                                    colIdx === 0 ? "text-blue-300" : "text-slate-300"
+                                )}
+                                spellCheck={false}
+                            />
+                        </th>
+                    ))}
+                </tr>
+            </thead>
+            <tbody>
+                {data.data.map((row, rowIdx) => (
+                    <tr key={rowIdx} className={clsx("group hover:bg-white/5", hiddenRows?.has(rowIdx) && "opacity-40")} title={hiddenRows?.has(rowIdx) ? "Left out of the presentation by the view settings" : undefined}>
+                        <td className="border-b border-slate-700/50 px-1 whitespace-nowrap">
+                            <div className="flex items-center gap-0.5">
+                                <span className="w-5 text-[10px] text-slate-600 font-mono text-right">{rowIdx + 1}</span>
+                                <div className="flex flex-col">
+                                    <button className={iconButton} title="Move up" disabled={rowIdx === 0} onClick={() => onChange(moveRow(data, rowIdx, rowIdx - 1))}>
+                                        <ChevronUp size={10} />
+                                    </button>
+                                    <button className={iconButton} title="Move down" disabled={rowIdx === data.data.length - 1} onClick={() => onChange(moveRow(data, rowIdx, rowIdx + 1))}>
+                                        <ChevronDown size={10} />
+                                    </button>
+                                </div>
+                                <div className="flex flex-col opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button className={iconButton} title="Duplicate row" onClick={() => onChange(duplicateRow(data, rowIdx))}>
+                                        <Copy size={10} />
+                                    </button>
+                                    <button className={iconButton} title="Delete row" onClick={() => onChange(deleteRow(data, rowIdx))}>
+                                        <Trash2 size={10} />
+                                    </button>
+                                </div>
+                            </div>
+                        </td>
+                        {data.columns.map((_, colIdx) => (
+                            <td key={colIdx} className="border-b border-l border-slate-700/50 p-0">
+                                <input
+                                    value={row[colIdx] ?? ""}
+                                    onChange={(e) => onChange(setCell(data, rowIdx, colIdx, e.target.value))}
+                                    onPaste={(e) => handlePaste(e, rowIdx, colIdx)}
+                                    className={clsx(
+                                        "w-full bg-transparent px-2 py-1.5 focus:outline-none focus:bg-slate-900 focus:ring-2 focus:ring-inset focus:ring-blue-500/50",
+                                        colIdx === 0 ? "text-white font-semibold" : "text-slate-200"
+                                    )}
+                                    spellCheck={false}
+                                />
+                            </td>
+                        ))}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+        <div className="flex gap-2 p-2">
+            <button
+                onClick={() => onChange(addRow(data))}
+                className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 px-2 py-1 rounded-md bg-blue-500/10 border border-blue-500/20"
+            >
+                <Plus size={12} /> Row
+            </button>
+            <button
+                onClick={() => onChange(addColumn(data))}
+                className="flex items-center gap-1 text-xs text-purple-400 hover:text-purple-300 px-2 py-1 rounded-md bg-purple-500/10 border border-purple-500/20"
+            >
+                <Plus size={12} /> Column
+            </button>
+        </div>
+    </div>
+  );
+};
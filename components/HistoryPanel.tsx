@@ -0,0 +1,38 @@
+import React from 'react';
+import { clsx } from 'clsx';
+import { History } from 'lucide-react';
+
+interface HistoryPanelProps {
+  entries: { label: string; timestamp: number }[];
+  index: number;
+  onJump: (index: number) => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, onJump }) => {
+  return (
+    <div className="w-64 max-h-80 flex flex-col bg-slate-900/95 backdrop-blur border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-white/10 text-xs font-bold text-slate-400 uppercase tracking-wider">
+            <History size={12} /> History
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar py-1">
+            {/* Newest first, like most editors */}
+            {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+                <button
+                    key={`${i}-${entry.timestamp}`}
+                    onClick={() => onJump(i)}
+                    className={clsx(
+                        "w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-xs transition-colors",
+                        i === index ? "bg-blue-500/20 text-blue-300" : "hover:bg-white/5",
+                        i > index ? "text-slate-600 italic" : i !== index && "text-slate-300"
+                    )}
+                >
+                    <span className="truncate">{entry.label}</span>
+                    <span className="font-mono text-[10px] text-slate-500 shrink-0">{formatTime(entry.timestamp)}</span>
+                </button>
+            ))}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { X, Upload, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { TableData } from '../types';
+import {
+  ImportedSheet, IMPORT_ACCEPT, IMPORT_ENCODINGS,
+  detectSpreadsheetKind, readSpreadsheetFile, buildTableFromSheet
+} from '../utils/tableImport';
+
+interface ImportDialogProps {
+  initialFile?: File | null;
+  onImport: (data: TableData) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const selectClass = "w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-md p-2 focus:ring-blue-500 focus:border-blue-500";
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ initialFile, onImport, onClose }) => {
+  const [file, setFile] = useState<File | null>(initialFile || null);
+  const [encoding, setEncoding] = useState('utf-8');
+  const [sheets, setSheets] = useState<ImportedSheet[]>([]);
+  const [sheetIdx, setSheetIdx] = useState(0);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [subjectColumn, setSubjectColumn] = useState(0);
+  const [title, setTitle] = useState("");
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const kind = file ? detectSpreadsheetKind(file.name) : null;
+  const isText = kind === 'csv' || kind === 'tsv';
+
+  // (Re)read whenever the file or, for text formats, the encoding changes
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setIsReading(true);
+    setError(null);
+    readSpreadsheetFile(file, encoding)
+      .then(result => {
+        if (cancelled) return;
+        setSheets(result);
+        setSheetIdx(idx => Math.min(idx, result.length - 1));
+        setTitle(prev => prev || file.name.replace(/\.[^.]+$/, ''));
+      })
+      .catch(e => !cancelled && setError(e instanceof Error ? e.message : String(e)))
+      .finally(() => !cancelled && setIsReading(false));
+    return () => { cancelled = true; };
+  }, [file, encoding]);
+
+  const rows = sheets[sheetIdx]?.rows || [];
+  const header = rows[headerRow] || [];
+
+  useEffect(() => {
+    setHeaderRow(0);
+    setSubjectColumn(0);
+  }, [sheetIdx, file]);
+
+  const preview = useMemo(
+    () => buildTableFromSheet(rows, { headerRow, subjectColumn, title }),
+    [rows, headerRow, subjectColumn, title]
+  );
+
+  const pickFile = (f: File | undefined) => {
+    if (!f) return;
+    if (!detectSpreadsheetKind(f.name)) {
+      setError(`Unsupported file type: ${f.name}. Use CSV, TSV, XLSX or ODS.`);
+      return;
+    }
+    setTitle("");
+    setSheets([]);
+    setFile(f);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    pickFile(e.dataTransfer.files?.[0]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
+        <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-slate-900 rounded-xl border border-slate-700 shadow-2xl overflow-hidden">
+            <div className="flex items-center justify-between p-4 border-b border-slate-800">
+                <h2 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+                    <FileSpreadsheet size={16} className="text-green-400" /> Import Spreadsheet
+                </h2>
+                <button onClick={onClose} className="p-1 text-slate-500 hover:text-white rounded-full hover:bg-white/10">
+                    <X size={18} />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+                <div
+                    onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleDrop}
+                    onClick={() => inputRef.current?.click()}
+                    className={clsx(
+                        "w-full py-6 border border-dashed rounded-lg flex flex-col items-center gap-1 cursor-pointer transition-all",
+                        isDragging ? "border-green-500 bg-green-500/10 text-green-400" : "border-slate-700 text-slate-500 hover:text-green-400 hover:border-green-500/50"
+                    )}
+                >
+                    {isReading ? <Loader2 size={20} className="animate-spin" /> : <Upload size={20} />}
+                    <span className="text-xs">{file ? file.name : "Drop a CSV, TSV, XLSX or ODS file, or click to browse"}</span>
+                    <input
+                        ref={inputRef}
+                        type="file"
+                        accept={IMPORT_ACCEPT}
+                        className="hidden"
+                        onChange={(e) => { pickFile(e.target.files?.[0]); e.target.value = ''; }}
+                    />
+                </div>
+
+                {error && (
+                    <div className="p-2 bg-red-900/20 text-red-300 text-xs border border-red-900/50 rounded-md">{error}</div>
+                )}
+
+                {rows.length > 0 && (
+                    <>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <label className="space-y-1">
+                                <span className="text-[10px] text-slate-500 font-semibold uppercase">Sheet</span>
+                                <select value={sheetIdx} disabled={sheets.length < 2} onChange={(e) => setSheetIdx(Number(e.target.value))} className={selectClass}>
+                                    {sheets.map((s, i) => <option key={i} value={i}>{s.name}</option>)}
+                                </select>
+                            </label>
+                            <label className="space-y-1">
+                                <span className="text-[10px] text-slate-500 font-semibold uppercase">Encoding</span>
+                                <select value={encoding} disabled={!isText} onChange={(e) => setEncoding(e.target.value)} className={selectClass}>
+                                    {IMPORT_ENCODINGS.map(enc => <option key={enc.value} value={enc.value}>{enc.label}</option>)}
+                                </select>
+                            </label>
+                            <label className="space-y-1">
+                                <span className="text-[10px] text-slate-500 font-semibold uppercase">Header Row</span>
+                                <select value={headerRow} onChange={(e) => { setHeaderRow(Number(e.target.value)); setSubjectColumn(0); }} className={selectClass}>
+                                    {rows.slice(0, 20).map((r, i) => (
+                                        <option key={i} value={i}>Row {i + 1}: {r.filter(Boolean).slice(0, 3).join(', ')}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="space-y-1">
+                                <span className="text-[10px] text-slate-500 font-semibold uppercase">Subject Column</span>
+                                <select value={subjectColumn} onChange={(e) => setSubjectColumn(Number(e.target.value))} className={selectClass}>
+                                    {header.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                                </select>
+                            </label>
+                        </div>
+
+                        <label className="block space-y-1">
+                            <span className="text-[10px] text-slate-500 font-semibold uppercase">Title</span>
+                            <input
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                                className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                            />
+                        </label>
+
+                        <div className="overflow-x-auto custom-scrollbar border border-slate-800 rounded-lg">
+                            <table className="text-xs min-w-full">
+                                <thead className="bg-slate-800">
+                                    <tr>
+                                        {preview.columns.map((c, i) => (
+                                            <th key={i} className={clsx("px-2 py-1.5 text-left font-bold uppercase whitespace-nowrap", i === 0 ? "text-blue-300" : "text-slate-400")}>{c}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preview.data.slice(0, PREVIEW_ROWS).map((r, ri) => (
+                                        <tr key={ri} className="border-t border-slate-800">
+                                            {r.map((cell, ci) => (
+                                                <td key={ci} className={clsx("px-2 py-1 whitespace-nowrap", ci === 0 ? "text-white font-semibold" : "text-slate-300")}>{cell}</td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {preview.data.length > PREVIEW_ROWS && (
+                                <div className="px-2 py-1 text-[10px] text-slate-500 border-t border-slate-800">
+                                    + {preview.data.length - PREVIEW_ROWS} more rows
+                                </div>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <div className="flex justify-end gap-2 p-4 border-t border-slate-800">
+                <button onClick={onClose} className="px-4 py-2 text-sm text-slate-400 hover:text-white rounded-lg">Cancel</button>
+                <button
+                    onClick={() => onImport(preview)}
+                    disabled={isReading || preview.columns.length === 0 || preview.data.length === 0}
+                    className="px-4 py-2 text-sm font-medium bg-green-600 hover:bg-green-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+                >
+                    Import {preview.data.length > 0 && `${preview.data.length} rows`}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
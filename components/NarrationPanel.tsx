@@ -0,0 +1,204 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { Loader2, Mic, Play, RefreshCw, Upload, X } from 'lucide-react';
+import { TableData, AnimationConfig, TableNarration, RowNarration } from '../types';
+import { generateVoiceover } from '../services/geminiService';
+import { PresentationAudio, pcmDuration } from '../utils/audioSynth';
+import { NarrationMode, NarrationSlot, getNarrationSlots, setNarrationLine, slotText } from '../utils/narration';
+import { getRenderTable } from '../utils/tableView';
+import { VoiceRecordingPanel } from './VoiceRecordingPanel';
+
+interface NarrationPanelProps {
+  data: TableData;
+  config: AnimationConfig;
+  narration?: TableNarration;
+  disabled?: boolean;
+  // Typing passes no label so keystrokes merge into one undo step
+  onChange: (narration: TableNarration | undefined, label?: string) => void;
+}
+
+const slotKey = (slot: NarrationSlot) => `${slot.subject}\u0000${slot.column ?? ''}`;
+
+/**
+ * A narration line per row or per step. Each line gets its own audio and the
+ * timeline stretches every step to fit what is said over it.
+ */
+export const NarrationPanel: React.FC<NarrationPanelProps> = ({ data, config, narration, disabled, onChange }) => {
+  // Start in whichever mode already has lines
+  const [mode, setMode] = useState<NarrationMode>(() =>
+    Object.values<RowNarration>(narration ?? {}).some(row => row.row && !row.steps) ? 'row' : 'step');
+  const [generating, setGenerating] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The line being recorded or uploaded in the presenter's own voice
+  const [recordingKey, setRecordingKey] = useState<string | null>(null);
+  const cancelRef = useRef(false);
+  const audioRef = useRef<PresentationAudio | null>(null);
+
+  // Lines follow the table as drawn, so they read the values the viewer sees
+  const table = useMemo(() => getRenderTable(data, config), [data, config]);
+  const slots = useMemo(() => getNarrationSlots(table, config, narration, mode), [table, config, narration, mode]);
+  const voiced = slots.filter(slot => slot.line?.pcm).length;
+
+  // Latest narration for the generation loop, which outlives a render
+  const narrationRef = useRef(narration);
+  narrationRef.current = narration;
+
+  const editText = (slot: NarrationSlot, text: string) => {
+    // New words need new audio
+    onChange(setNarrationLine(narration, slot, text.trim() ? { text } : undefined));
+  };
+
+  const generate = async (targets: NarrationSlot[]) => {
+    cancelRef.current = false;
+    setError(null);
+    setGenerating({ done: 0, total: targets.length });
+    try {
+      for (let i = 0; i < targets.length; i++) {
+        if (cancelRef.current) break;
+        const text = slotText(targets[i]);
+        if (!text) continue;
+        const pcm = await generateVoiceover(text);
+        onChange(setNarrationLine(narrationRef.current, targets[i], { text, pcm }), targets.length > 1 ? "Generated narration" : "Generated narration line");
+        setGenerating({ done: i + 1, total: targets.length });
+      }
+    } catch (e) {
+      console.error(e);
+      const message = e instanceof Error ? e.message : String(e);
+      setError(message.includes('429') ? "Voice generation quota exceeded; lines generated so far were kept." : "Couldn't generate narration; lines generated so far were kept.");
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const preview = (pcm: string) => {
+    audioRef.current?.stop();
+    const audio = new PresentationAudio();
+    audioRef.current = audio;
+    audio.playSpeech(pcm, audio.ctx.currentTime);
+    window.setTimeout(() => {
+      if (audioRef.current === audio) audioRef.current = null;
+      audio.stop();
+    }, pcmDuration(pcm) * 1000 + 200);
+  };
+
+  const missing = slots.filter(slot => !slot.line?.pcm && slotText(slot));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs text-slate-500 font-semibold uppercase flex items-center gap-2">
+          <Mic size={12} /> Step Narration
+        </div>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as NarrationMode)}
+          disabled={disabled || !!generating}
+          className="bg-slate-900 border border-slate-700 text-slate-300 text-xs rounded-md p-1"
+        >
+          <option value="step">A line per step</option>
+          <option value="row">A line per row</option>
+        </select>
+      </div>
+
+      <ul className="space-y-1 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+        {slots.map(slot => {
+          const pcm = slot.line?.pcm;
+          return (
+            <li key={slotKey(slot)} className="bg-slate-800/60 border border-slate-700 rounded-md px-2 py-1 space-y-1">
+              <div className="flex items-center gap-2 text-[10px] text-slate-500">
+                <span className="flex-1 truncate" title={slot.label}>{slot.label}</span>
+                {pcm && (
+                  <>
+                    <button onClick={() => preview(pcm)} className="text-green-400 hover:text-green-300" title="Listen">
+                      <Play size={10} />
+                    </button>
+                    <span className="font-mono text-green-400">{pcmDuration(pcm).toFixed(1)}s</span>
+                  </>
+                )}
+                <button
+                  onClick={() => setRecordingKey(recordingKey === slotKey(slot) ? null : slotKey(slot))}
+                  disabled={disabled || !!generating}
+                  className={clsx("hover:text-white disabled:opacity-30", recordingKey === slotKey(slot) ? "text-green-400" : "text-slate-400")}
+                  title="Record or upload this line"
+                >
+                  <Upload size={10} />
+                </button>
+                <button
+                  onClick={() => generate([slot])}
+                  disabled={disabled || !!generating || !slotText(slot)}
+                  className="text-slate-400 hover:text-white disabled:opacity-30"
+                  title={pcm ? "Generate again" : "Generate audio"}
+                >
+                  <RefreshCw size={10} />
+                </button>
+                {slot.line && (
+                  <button
+                    onClick={() => onChange(setNarrationLine(narration, slot, undefined), "Removed narration line")}
+                    disabled={disabled || !!generating}
+                    className="text-slate-400 hover:text-red-400 disabled:opacity-30"
+                    title="Remove line"
+                  >
+                    <X size={10} />
+                  </button>
+                )}
+              </div>
+              <input
+                value={slot.line?.text ?? ''}
+                placeholder={slot.suggested}
+                disabled={disabled || !!generating}
+                onChange={(e) => editText(slot, e.target.value)}
+                className={clsx(
+                  "w-full bg-slate-900 border text-slate-200 text-xs rounded p-1.5 placeholder:text-slate-600 disabled:opacity-50",
+                  pcm ? "border-green-500/30" : "border-slate-700"
+                )}
+              />
+              {recordingKey === slotKey(slot) && (
+                <VoiceRecordingPanel
+                  compact
+                  disabled={disabled}
+                  onSave={(recorded) => {
+                    onChange(setNarrationLine(narration, slot, { text: slotText(slot), pcm: recorded }), "Recorded narration line");
+                    setRecordingKey(null);
+                  }}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center gap-2">
+        {generating ? (
+          <button
+            onClick={() => { cancelRef.current = true; }}
+            className="flex-1 py-2 rounded-lg border border-slate-700 text-xs text-slate-300 flex items-center justify-center gap-2"
+          >
+            <Loader2 size={12} className="animate-spin" /> {generating.done}/{generating.total} · Stop
+          </button>
+        ) : (
+          <button
+            onClick={() => generate(missing)}
+            disabled={disabled || !missing.length}
+            className="flex-1 py-2 rounded-lg border border-dashed border-slate-700 text-xs text-slate-400 hover:text-green-400 hover:border-green-500/50 disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Mic size={12} /> {missing.length ? `Generate ${missing.length} missing` : "All lines voiced"}
+          </button>
+        )}
+        {narration && (
+          <button
+            onClick={() => onChange(undefined, "Removed narration")}
+            disabled={disabled || !!generating}
+            className="text-[10px] text-red-400 hover:underline disabled:opacity-50"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <p className="text-[10px] text-slate-500">
+        {voiced}/{slots.length} lines voiced. Steps stretch to fit their lines, and narrated tables don't play the voiceover above.
+      </p>
+      {error && <p className="text-[11px] text-amber-300">{error}</p>}
+    </div>
+  );
+};
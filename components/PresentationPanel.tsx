@@ -0,0 +1,349 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { ArrowUp, ArrowDown, Trash2, Plus, Table2, Type, Clapperboard, Flag, FileJson, Mic, X } from 'lucide-react';
+import { TableData, AnimationConfig, Presentation, PresentationScene, SceneKind, SceneOverrides, TransitionKind, Theme, Layout, AnimationStyle, TableNarration } from '../types';
+import { SCENE_KIND_LABELS, TRANSITION_LABELS, DEFAULT_CARD_DURATION, DEFAULT_TRANSITION, createScene, createPresentation, planPresentation } from '../utils/presentation';
+import { parseBatchFiles } from '../utils/batchRenderer';
+
+interface PresentationPanelProps {
+  data: TableData;
+  config: AnimationConfig;
+  voicePcm: string | null;
+  narration?: TableNarration;
+  presentation?: Presentation;
+  disabled?: boolean;
+  // Typing in a field passes no label so keystrokes merge into one undo step
+  onChange: (presentation: Presentation | undefined, label?: string) => void;
+}
+
+const KIND_ICONS: Record<SceneKind, React.ElementType> = {
+  table: Table2,
+  intro: Clapperboard,
+  title: Type,
+  outro: Flag,
+};
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 text-slate-200 text-xs rounded-md p-1.5 placeholder:text-slate-600 disabled:opacity-50";
+const labelClass = "text-[10px] text-slate-500 uppercase font-semibold";
+
+const formatTime = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * The presentation's playlist: tables, intro, title and outro cards in order,
+ * each with its own design overrides, transition and narration.
+ */
+export const PresentationPanel: React.FC<PresentationPanelProps> = ({ data, config, voicePcm, narration, presentation, disabled, onChange }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const plan = useMemo(() => planPresentation(presentation, data, config, voicePcm, narration), [presentation, data, config, voicePcm, narration]);
+
+  if (!presentation) {
+    return (
+      <div className="space-y-3">
+        <p className="text-xs text-slate-400">
+          Play several tables as one video, with intro, title and outro cards and transitions between them.
+          Without a presentation the video is this table alone.
+        </p>
+        <button
+          onClick={() => onChange(createPresentation(), "Created presentation")}
+          disabled={disabled}
+          className="w-full py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Plus size={14} /> Create presentation
+        </button>
+      </div>
+    );
+  }
+
+  const scenes = presentation.scenes;
+  const setScenes = (next: PresentationScene[], label?: string) => onChange({ ...presentation, scenes: next }, label);
+  const updateScene = (id: string, changes: Partial<PresentationScene>, label?: string) =>
+    setScenes(scenes.map(s => s.id === id ? { ...s, ...changes } : s), label);
+
+  const updateOverride = <K extends keyof SceneOverrides>(scene: PresentationScene, key: K, value: SceneOverrides[K] | undefined) => {
+    const overrides = { ...scene.overrides };
+    if (value === undefined) delete overrides[key];
+    else overrides[key] = value;
+    updateScene(scene.id, { overrides: Object.keys(overrides).length ? overrides : undefined }, "Changed scene design");
+  };
+
+  const move = (index: number, by: number) => {
+    const next = [...scenes];
+    const [scene] = next.splice(index, 1);
+    next.splice(index + by, 0, scene);
+    setScenes(next, "Moved scene");
+  };
+
+  const addScene = (scene: PresentationScene, label: string) => {
+    // Outros stay last
+    const outro = scenes.findIndex(s => s.kind === 'outro');
+    const at = scene.kind !== 'outro' && outro >= 0 ? outro : scenes.length;
+    setScenes([...scenes.slice(0, at), scene, ...scenes.slice(at)], label);
+    setSelectedId(scene.id);
+  };
+
+  const handleImportTables = async (files: File[]) => {
+    setImportError(null);
+    const items = await parseBatchFiles(files);
+    const tables = items.filter(item => item.data).map(item => createScene('table', item.data!));
+    const failed = items.filter(item => !item.data);
+    if (failed.length) setImportError(`${failed[0].source}: ${failed[0].error}`);
+    if (!tables.length) return;
+    const outro = scenes.findIndex(s => s.kind === 'outro');
+    const at = outro >= 0 ? outro : scenes.length;
+    setScenes([...scenes.slice(0, at), ...tables, ...scenes.slice(at)], tables.length > 1 ? `Added ${tables.length} tables` : "Added table");
+  };
+
+  const sceneName = (scene: PresentationScene, index: number) => {
+    if (scene.kind === 'table') return scene.data ? (scene.data.title || `Table ${index + 1}`) : `${data.title || "This table"} (project)`;
+    return plan.scenes[index]?.card?.heading || SCENE_KIND_LABELS[scene.kind];
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-slate-500 font-semibold uppercase">Scenes</div>
+        <span className="text-[11px] font-mono text-slate-500">{scenes.length} scenes · {formatTime(plan.totalRunTime)}</span>
+      </div>
+
+      <ul className="space-y-1">
+        {scenes.map((scene, index) => {
+          const Icon = KIND_ICONS[scene.kind];
+          const planned = plan.scenes[index];
+          const isSelected = selectedId === scene.id;
+          const transition = scene.transition ?? DEFAULT_TRANSITION;
+          return (
+            <li key={scene.id} className={clsx("rounded-md border", isSelected ? "border-purple-500/50 bg-slate-800" : "border-slate-700 bg-slate-800/60")}>
+              <div className="flex items-center gap-2 px-2 py-1.5">
+                <button onClick={() => setSelectedId(isSelected ? null : scene.id)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+                  <Icon size={14} className="shrink-0 text-purple-400" />
+                  <span className="text-sm text-slate-200 truncate">{sceneName(scene, index)}</span>
+                  {scene.voicePcm && <Mic size={11} className="shrink-0 text-green-400" />}
+                </button>
+                <span className="text-[10px] font-mono text-slate-500">{planned ? formatTime(planned.duration) : ''}</span>
+                <button onClick={() => move(index, -1)} disabled={disabled || index === 0} className="text-slate-400 hover:text-white disabled:opacity-30" title="Move up">
+                  <ArrowUp size={12} />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={disabled || index === scenes.length - 1} className="text-slate-400 hover:text-white disabled:opacity-30" title="Move down">
+                  <ArrowDown size={12} />
+                </button>
+                <button
+                  onClick={() => setScenes(scenes.filter(s => s.id !== scene.id), "Removed scene")}
+                  disabled={disabled}
+                  className="text-slate-400 hover:text-red-400 disabled:opacity-30"
+                  title="Remove scene"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+
+              {isSelected && (
+                <div className="border-t border-slate-700 p-2 space-y-2">
+                  {scene.kind !== 'table' && (
+                    <>
+                      <label className="block space-y-1">
+                        <span className={labelClass}>Heading</span>
+                        <input
+                          value={scene.heading ?? ''}
+                          disabled={disabled}
+                          placeholder={data.title || "Heading"}
+                          onChange={(e) => updateScene(scene.id, { heading: e.target.value || undefined })}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="block space-y-1">
+                        <span className={labelClass}>Subheading</span>
+                        <input
+                          value={scene.subheading ?? ''}
+                          disabled={disabled}
+                          onChange={(e) => updateScene(scene.id, { subheading: e.target.value || undefined })}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <span className={labelClass}>Seconds</span>
+                        <input
+                          type="number"
+                          min="1"
+                          step="0.5"
+                          value={scene.duration ?? ''}
+                          placeholder={String(DEFAULT_CARD_DURATION)}
+                          disabled={disabled}
+                          onChange={(e) => {
+                            const n = parseFloat(e.target.value);
+                            updateScene(scene.id, { duration: isFinite(n) && n > 0 ? n : undefined });
+                          }}
+                          className={clsx(inputClass, "w-20 font-mono")}
+                        />
+                        {scene.kind === 'outro' && <span className="text-[11px] text-slate-500">Lists the tables' sources</span>}
+                      </label>
+                    </>
+                  )}
+
+                  {/* Design overrides; blank follows the project */}
+                  <div className="grid grid-cols-3 gap-2">
+                    <label className="block space-y-1">
+                      <span className={labelClass}>Theme</span>
+                      <select
+                        value={scene.overrides?.theme ?? ''}
+                        disabled={disabled}
+                        onChange={(e) => updateOverride(scene, 'theme', (e.target.value || undefined) as Theme | undefined)}
+                        className={clsx(inputClass, "capitalize")}
+                      >
+                        <option value="">Project</option>
+                        {Object.values(Theme).map(t => <option key={t} value={t}>{t}</option>)}
+                      </select>
+                    </label>
+                    <label className="block space-y-1">
+                      <span className={labelClass}>Style</span>
+                      <select
+                        value={scene.overrides?.style ?? ''}
+                        disabled={disabled}
+                        onChange={(e) => updateOverride(scene, 'style', (e.target.value || undefined) as AnimationStyle | undefined)}
+                        className={clsx(inputClass, "capitalize")}
+                      >
+                        <option value="">Project</option>
+                        {Object.values(AnimationStyle).map(st => <option key={st} value={st}>{st.replace('_', ' ')}</option>)}
+                      </select>
+                    </label>
+                    {scene.kind === 'table' && (
+                      <label className="block space-y-1">
+                        <span className={labelClass}>Layout</span>
+                        <select
+                          value={scene.overrides?.layout ?? ''}
+                          disabled={disabled}
+                          onChange={(e) => updateOverride(scene, 'layout', (e.target.value || undefined) as Layout | undefined)}
+                          className={clsx(inputClass, "capitalize")}
+                        >
+                          <option value="">Project</option>
+                          {Object.values(Layout).map(l => <option key={l} value={l}>{l.replace('_', ' ')}</option>)}
+                        </select>
+                      </label>
+                    )}
+                  </div>
+
+                  {index > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className={labelClass}>Transition in</span>
+                      <select
+                        value={transition.kind}
+                        disabled={disabled}
+                        onChange={(e) => updateScene(scene.id, { transition: { ...transition, kind: e.target.value as TransitionKind } }, "Changed transition")}
+                        className={clsx(inputClass, "flex-1")}
+                      >
+                        {(Object.keys(TRANSITION_LABELS) as TransitionKind[]).map(k => <option key={k} value={k}>{TRANSITION_LABELS[k]}</option>)}
+                      </select>
+                      <input
+                        type="number"
+                        min="0.1"
+                        step="0.1"
+                        value={transition.duration}
+                        disabled={disabled || transition.kind === 'cut'}
+                        onChange={(e) => {
+                          const n = parseFloat(e.target.value);
+                          if (isFinite(n) && n >= 0) updateScene(scene.id, { transition: { ...transition, duration: n } });
+                        }}
+                        className={clsx(inputClass, "w-16 font-mono")}
+                        title="Seconds"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-2 text-[11px]">
+                    <Mic size={12} className={scene.voicePcm ? "text-green-400" : "text-slate-500"} />
+                    <span className="flex-1 text-slate-400">
+                      {planned?.timeline?.narration.length ? "Narrated step by step"
+                        : scene.voicePcm ? "Has its own narration"
+                        : scene.kind === 'table' && !scene.data ? (voicePcm ? "Uses the project voiceover" : "No narration")
+                        : "No narration"}
+                    </span>
+                    {voicePcm && scene.voicePcm !== voicePcm && (
+                      <button
+                        onClick={() => updateScene(scene.id, { voicePcm }, "Set scene narration")}
+                        disabled={disabled}
+                        className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                      >
+                        Use current voiceover
+                      </button>
+                    )}
+                    {scene.voicePcm && (
+                      <button
+                        onClick={() => updateScene(scene.id, { voicePcm: undefined }, "Removed scene narration")}
+                        disabled={disabled}
+                        className="text-slate-400 hover:text-red-400 disabled:opacity-50"
+                        title="Remove narration"
+                      >
+                        <X size={12} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => addScene({ ...createScene('table', data, config), narration }, "Added table")}
+          disabled={disabled}
+          className="text-xs flex items-center justify-center gap-1 text-slate-300 hover:text-white bg-slate-800 px-2 py-1.5 rounded-md border border-slate-700 disabled:opacity-50"
+          title="Adds a copy of the table as it is now; later edits to the project table won't change it"
+        >
+          <Table2 size={12} /> Copy of this table
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="text-xs flex items-center justify-center gap-1 text-slate-300 hover:text-white bg-slate-800 px-2 py-1.5 rounded-md border border-slate-700 disabled:opacity-50"
+        >
+          <FileJson size={12} /> Tables from JSON
+        </button>
+        {(['intro', 'title', 'outro'] as SceneKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => addScene(createScene(kind), `Added ${SCENE_KIND_LABELS[kind].toLowerCase()}`)}
+            disabled={disabled}
+            className="text-xs flex items-center justify-center gap-1 text-slate-300 hover:text-white bg-slate-800 px-2 py-1.5 rounded-md border border-slate-700 disabled:opacity-50"
+          >
+            <Plus size={12} /> {SCENE_KIND_LABELS[kind]}
+          </button>
+        ))}
+        <button
+          onClick={() => addScene(createScene('table'), "Added table")}
+          disabled={disabled || scenes.some(s => s.kind === 'table' && !s.data)}
+          className="text-xs flex items-center justify-center gap-1 text-slate-300 hover:text-white bg-slate-800 px-2 py-1.5 rounded-md border border-slate-700 disabled:opacity-50"
+          title="The project's table, kept in step with the editor"
+        >
+          <Plus size={12} /> Project table
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+            if (files.length) handleImportTables(files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {importError && <div className="text-[11px] text-amber-300">{importError}</div>}
+
+      <button
+        onClick={() => onChange(undefined, "Removed presentation")}
+        disabled={disabled}
+        className="text-[11px] text-slate-500 hover:text-red-400 disabled:opacity-50"
+      >
+        Remove presentation
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { X, FolderOpen, Plus, Copy, Trash2, Download, Upload, Pencil, Loader2, ImageIcon } from 'lucide-react';
+import { Project, ProjectSummary } from '../types';
+import {
+  listProjects, getProject, duplicateProject, renameProject, deleteProject,
+  exportProjectFile, importProjectFile, PROJECT_FILE_EXTENSION
+} from '../services/projectStore';
+
+interface ProjectLibraryProps {
+  currentProjectId: string | null;
+  onOpen: (project: Project) => void;
+  onNew: () => void;
+  onSaveAs: (name: string) => Promise<void>;
+  onDeleted: (id: string) => void;
+  onRenamed: (id: string, name: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const slugify = (name: string) => name.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'project';
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  currentProjectId,
+  onOpen,
+  onNew,
+  onSaveAs,
+  onDeleted,
+  onRenamed,
+  onClose
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [saveAsName, setSaveAsName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listProjects().then(setProjects).catch(e => {
+    console.error(e);
+    setProjects([]);
+  });
+
+  useEffect(() => { refresh(); }, []);
+
+  // Wraps store calls so failures surface the same way everywhere in the library
+  const run = async (action: () => Promise<unknown>, failMessage: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await refresh();
+    } catch (e) {
+      console.error(e);
+      alert(`${failMessage}${e instanceof Error ? `: ${e.message}` : ''}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpen = (id: string) => run(async () => {
+    const project = await getProject(id);
+    if (!project) throw new Error("Project no longer exists");
+    onOpen(project);
+  }, "Failed to open project");
+
+  const handleExport = (id: string) => run(async () => {
+    const project = await getProject(id);
+    if (!project) throw new Error("Project no longer exists");
+    const url = URL.createObjectURL(exportProjectFile(project));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${slugify(project.name)}${PROJECT_FILE_EXTENSION}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, "Failed to export project");
+
+  const commitRename = (id: string) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name) return;
+    run(async () => {
+      await renameProject(id, name);
+      onRenamed(id, name);
+    }, "Failed to rename project");
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
+        <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-slate-900 rounded-xl border border-slate-700 shadow-2xl overflow-hidden">
+            <div className="flex items-center justify-between p-4 border-b border-slate-800">
+                <h2 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+                    <FolderOpen size={16} className="text-blue-400" /> Projects
+                </h2>
+                <button onClick={onClose} className="p-1 text-slate-500 hover:text-white rounded-full hover:bg-white/10">
+                    <X size={18} />
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 p-4 border-b border-slate-800">
+                <input
+                    value={saveAsName}
+                    onChange={(e) => setSaveAsName(e.target.value)}
+                    placeholder="Save current as..."
+                    className="flex-1 min-w-[160px] bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    onKeyDown={(e) => e.key === 'Enter' && saveAsName.trim() && run(() => onSaveAs(saveAsName.trim()).then(() => setSaveAsName("")), "Failed to save project")}
+                />
+                <button
+                    onClick={() => run(() => onSaveAs(saveAsName.trim()).then(() => setSaveAsName("")), "Failed to save project")}
+                    disabled={busy || !saveAsName.trim()}
+                    className="px-3 py-2 text-sm bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+                >
+                    Save
+                </button>
+                <button
+                    onClick={onNew}
+                    className="px-3 py-2 text-sm flex items-center gap-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+                >
+                    <Plus size={14} /> New
+                </button>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-3 py-2 text-sm flex items-center gap-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+                >
+                    <Upload size={14} /> Import
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) run(() => importProjectFile(file), "Failed to import project");
+                    }}
+                />
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
+                {projects === null ? (
+                    <div className="flex justify-center py-10 text-slate-500"><Loader2 className="animate-spin" /></div>
+                ) : projects.length === 0 ? (
+                    <div className="text-center py-10 text-sm text-slate-500">No saved projects yet.</div>
+                ) : (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                        {projects.map(p => (
+                            <div
+                                key={p.id}
+                                className={clsx(
+                                    "group flex flex-col rounded-lg border overflow-hidden bg-slate-800/50",
+                                    p.id === currentProjectId ? "border-blue-500" : "border-slate-700"
+                                )}
+                            >
+                                <button onClick={() => handleOpen(p.id)} disabled={busy} className="aspect-[4/5] bg-slate-950 flex items-center justify-center overflow-hidden">
+                                    {p.thumbnail
+                                        ? <img src={p.thumbnail} alt={p.name} className="w-full h-full object-cover group-hover:scale-105 transition-transform" />
+                                        : <ImageIcon size={24} className="text-slate-700" />}
+                                </button>
+                                <div className="p-2 space-y-1">
+                                    {renamingId === p.id ? (
+                                        <input
+                                            autoFocus
+                                            value={renameValue}
+                                            onChange={(e) => setRenameValue(e.target.value)}
+                                            onBlur={() => commitRename(p.id)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') commitRename(p.id);
+                                                if (e.key === 'Escape') setRenamingId(null);
+                                            }}
+                                            className="w-full bg-slate-900 border border-slate-600 rounded px-1 text-sm focus:outline-none"
+                                        />
+                                    ) : (
+                                        <div className="text-sm font-medium text-slate-200 truncate" title={p.name}>{p.name}</div>
+                                    )}
+                                    <div className="text-[10px] text-slate-500">{formatDate(p.updatedAt)}</div>
+                                    <div className="flex items-center gap-1 pt-1">
+                                        <button title="Rename" onClick={() => { setRenamingId(p.id); setRenameValue(p.name); }} className="p-1 text-slate-500 hover:text-white rounded hover:bg-white/10">
+                                            <Pencil size={12} />
+                                        </button>
+                                        <button title="Duplicate" disabled={busy} onClick={() => run(() => duplicateProject(p.id), "Failed to duplicate project")} className="p-1 text-slate-500 hover:text-white rounded hover:bg-white/10">
+                                            <Copy size={12} />
+                                        </button>
+                                        <button title={`Export ${PROJECT_FILE_EXTENSION}`} disabled={busy} onClick={() => handleExport(p.id)} className="p-1 text-slate-500 hover:text-white rounded hover:bg-white/10">
+                                            <Download size={12} />
+                                        </button>
+                                        <button
+                                            title="Delete"
+                                            disabled={busy}
+                                            onClick={() => {
+                                                if (!confirm(`Delete "${p.name}"? This cannot be undone.`)) return;
+                                                run(async () => {
+                                                    await deleteProject(p.id);
+                                                    onDeleted(p.id);
+                                                }, "Failed to delete project");
+                                            }}
+                                            className="p-1 text-slate-500 hover:text-red-400 rounded hover:bg-white/10 ml-auto"
+                                        >
+                                            <Trash2 size={12} />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React from 'react';
+import { X, Download, Trash2 } from 'lucide-react';
+import { BackgroundKind, CustomTheme, ThemePalette } from '../types';
+import { BACKGROUND_KIND_LABELS } from '../utils/sceneRenderer';
+import { exportThemeFile, THEME_FILE_EXTENSION } from '../services/themeStore';
+
+interface ThemeEditorProps {
+  theme: CustomTheme;
+  onChange: (theme: CustomTheme) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+type ColorField = 'bg' | 'bgAccent' | 'subjectColor' | 'headerColor' | 'valueColor' | 'lineColor1' | 'lineColor2' | 'barColor1' | 'barColor2';
+
+const COLOR_FIELDS: { key: ColorField; label: string }[] = [
+  { key: 'bg', label: 'Background' },
+  { key: 'bgAccent', label: 'Background accent' },
+  { key: 'subjectColor', label: 'Subject' },
+  { key: 'headerColor', label: 'Header' },
+  { key: 'valueColor', label: 'Value' },
+  { key: 'lineColor1', label: 'Line start' },
+  { key: 'lineColor2', label: 'Line end' },
+  { key: 'barColor1', label: 'Bar start' },
+  { key: 'barColor2', label: 'Bar end' },
+];
+
+// Families loaded by index.html
+const FONT_OPTIONS = [
+  { label: 'Inter', value: 'Inter, sans-serif' },
+  { label: 'Noto Sans Devanagari', value: 'Noto Sans Devanagari, sans-serif' },
+  { label: 'JetBrains Mono', value: 'JetBrains Mono, monospace' },
+  { label: 'Playfair Display', value: 'Playfair Display, serif' },
+];
+
+const slugify = (name: string) => name.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'theme';
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg p-2 focus:ring-purple-500 focus:border-purple-500";
+
+/**
+ * Inline editor for a custom theme. Every change is applied straight away, so
+ * the main preview doubles as the live preview.
+ */
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onChange, onDelete, onClose }) => {
+  const update = (changes: Partial<ThemePalette> & { name?: string }) => onChange({ ...theme, ...changes });
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(exportThemeFile(theme));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${slugify(theme.name)}${THEME_FILE_EXTENSION}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const fontSelect = (key: 'fontMain' | 'fontHeader', label: string) => {
+    const options = FONT_OPTIONS.some(f => f.value === theme[key])
+      ? FONT_OPTIONS
+      : [...FONT_OPTIONS, { label: theme[key], value: theme[key] }];
+    return (
+      <label className="space-y-1 block">
+        <span className="text-[10px] text-slate-500 uppercase font-semibold">{label}</span>
+        <select value={theme[key]} onChange={(e) => update({ [key]: e.target.value })} className={inputClass}>
+          {options.map(f => (
+            <option key={f.value} value={f.value} style={{ fontFamily: f.value }}>{f.label}</option>
+          ))}
+        </select>
+      </label>
+    );
+  };
+
+  return (
+    <div className="space-y-4 p-3 bg-slate-900/60 border border-purple-500/20 rounded-lg">
+      <div className="flex items-center gap-2">
+        <input
+          value={theme.name}
+          onChange={(e) => update({ name: e.target.value })}
+          className={inputClass}
+          placeholder="Theme name"
+        />
+        <button onClick={handleExport} className="p-2 text-slate-400 hover:text-white" title="Export theme as JSON">
+          <Download size={14} />
+        </button>
+        <button
+          onClick={() => { if (window.confirm(`Delete theme "${theme.name}"?`)) onDelete(); }}
+          className="p-2 text-slate-400 hover:text-red-400"
+          title="Delete theme"
+        >
+          <Trash2 size={14} />
+        </button>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white" title="Close editor">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {COLOR_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex flex-col items-center gap-1 text-center">
+            <input
+              type="color"
+              value={theme[key]}
+              onChange={(e) => update({ [key]: e.target.value })}
+              className="w-full h-8 rounded cursor-pointer bg-transparent border border-slate-700"
+            />
+            <span className="text-[10px] text-slate-500 leading-tight">{label}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {fontSelect('fontMain', 'Body font')}
+        {fontSelect('fontHeader', 'Header font')}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 items-end">
+        <label className="space-y-1 block">
+          <span className="text-[10px] text-slate-500 uppercase font-semibold">Backdrop</span>
+          <select
+            value={theme.backgroundKind}
+            onChange={(e) => update({ backgroundKind: e.target.value as BackgroundKind })}
+            className={inputClass}
+          >
+            {(Object.keys(BACKGROUND_KIND_LABELS) as BackgroundKind[]).map(kind => (
+              <option key={kind} value={kind}>{BACKGROUND_KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer pb-2">
+          <input
+            type="checkbox"
+            checked={theme.glow}
+            onChange={(e) => update({ glow: e.target.checked })}
+            className="w-4 h-4 rounded bg-slate-700 border-slate-600 text-purple-600"
+          />
+          Glow on image titles
+        </label>
+      </div>
+
+      <label className="space-y-1 block">
+        <div className="flex justify-between text-[10px] text-slate-500 uppercase font-semibold">
+          <span>Image overlay</span>
+          <span className="font-mono">{Math.round(theme.overlayOpacity * 100)}%</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={theme.overlayOpacity}
+          onChange={(e) => update({ overlayOpacity: parseFloat(e.target.value) })}
+          className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-purple-500"
+        />
+      </label>
+    </div>
+  );
+};
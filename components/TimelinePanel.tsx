@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { ChevronDown, ChevronRight, EyeOff, Pause } from 'lucide-react';
+import { TableData, AnimationConfig, RowTiming, StepTiming, TableNarration } from '../types';
+import { getSceneTimeline } from '../utils/sceneRenderer';
+import { getRenderTable } from '../utils/tableView';
+
+interface TimelinePanelProps {
+  data: TableData;
+  config: AnimationConfig;
+  narration?: TableNarration; // stretches steps, so the times shown match playback
+  disabled?: boolean;
+  onChange: (rowTimings: Record<string, RowTiming>) => void;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const parseSeconds = (value: string): number | undefined => {
+  const n = parseFloat(value);
+  return value.trim() === '' || !isFinite(n) ? undefined : Math.max(0, n);
+};
+
+// Drop empty overrides so the config only holds what differs from the defaults
+const cleanStep = (step: StepTiming): StepTiming | undefined => {
+  const cleaned: StepTiming = {};
+  if (step.duration !== undefined) cleaned.duration = step.duration;
+  if (step.skip) cleaned.skip = true;
+  if (step.hold) cleaned.hold = true;
+  return Object.keys(cleaned).length ? cleaned : undefined;
+};
+
+const cleanRow = (row: RowTiming): RowTiming | undefined => {
+  const steps = Object.fromEntries(Object.entries(row.steps ?? {}).filter(([, step]) => cleanStep(step)));
+  const cleaned: RowTiming = {};
+  if (row.pauseAfter !== undefined) cleaned.pauseAfter = row.pauseAfter;
+  if (Object.keys(steps).length) cleaned.steps = steps;
+  return Object.keys(cleaned).length ? cleaned : undefined;
+};
+
+const numberInputClass = "w-16 bg-slate-900 border border-slate-700 text-slate-200 text-xs rounded px-1.5 py-1 font-mono placeholder:text-slate-600 disabled:opacity-50";
+
+/**
+ * Per-row timing: step durations, skip/hold flags and the pause after each row.
+ * Blank fields fall back to the global duration and row pause.
+ */
+export const TimelinePanel: React.FC<TimelinePanelProps> = ({ data, config, narration, disabled, onChange }) => {
+  const [expanded, setExpanded] = useState<Set<number>>(() => new Set([0]));
+  // Rows are keyed by their subject as drawn, so work on the same table the renderers draw
+  const table = useMemo(() => getRenderTable(data, config), [data, config]);
+  const timeline = useMemo(() => getSceneTimeline(table, config, narration), [table, config, narration]);
+  const rowTimings = config.rowTimings ?? {};
+  const attributes = table.columns.slice(1);
+
+  const updateRow = (subject: string, change: (row: RowTiming) => RowTiming) => {
+    const next = { ...rowTimings };
+    const row = cleanRow(change(next[subject] ?? {}));
+    if (row) next[subject] = row;
+    else delete next[subject];
+    onChange(next);
+  };
+
+  const updateStep = (subject: string, column: string, changes: Partial<StepTiming>) =>
+    updateRow(subject, row => {
+      const steps = { ...row.steps };
+      const step = cleanStep({ ...steps[column], ...changes });
+      if (step) steps[column] = step;
+      else delete steps[column];
+      return { ...row, steps };
+    });
+
+  const toggleRow = (rowIdx: number) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(rowIdx)) next.delete(rowIdx);
+      else next.add(rowIdx);
+      return next;
+    });
+
+  // Where each step landed, for the start times shown next to it
+  const stepStarts = new Map<string, number>(timeline.steps.map(step => [`${step.rowIdx}:${step.attrIdx}`, step.start]));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center text-xs text-slate-500">
+        <span className="font-semibold uppercase">Timeline</span>
+        <span className="font-mono">{timeline.totalSteps} steps · {formatSeconds(timeline.totalDuration)}</span>
+      </div>
+
+      <div className="space-y-1 max-h-80 overflow-y-auto custom-scrollbar pr-1">
+        {table.data.map((row, rowIdx) => {
+          const subject = row[0] ?? '';
+          const rowTiming = rowTimings[subject];
+          const isOpen = expanded.has(rowIdx);
+          return (
+            <div key={rowIdx} className="bg-slate-800/60 border border-slate-700 rounded-md">
+              <div className="flex items-center gap-2 px-2 py-1.5">
+                <button onClick={() => toggleRow(rowIdx)} className="flex items-center gap-1 flex-1 min-w-0 text-left text-sm text-slate-200">
+                  {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  <span className="truncate">{subject || `Row ${rowIdx + 1}`}</span>
+                </button>
+                <label className="flex items-center gap-1 text-[10px] text-slate-500" title="Pause after this row">
+                  <Pause size={10} />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    disabled={disabled || rowIdx === table.data.length - 1}
+                    value={rowTiming?.pauseAfter ?? ''}
+                    placeholder={String(config.rowDelay)}
+                    onChange={(e) => updateRow(subject, r => ({ ...r, pauseAfter: parseSeconds(e.target.value) }))}
+                    className={numberInputClass}
+                  />
+                </label>
+              </div>
+
+              {isOpen && (
+                <ul className="border-t border-slate-700/60 px-2 py-1 space-y-1">
+                  {attributes.map((column, attrIdx) => {
+                    const step = rowTiming?.steps?.[column];
+                    const start = stepStarts.get(`${rowIdx}:${attrIdx}`);
+                    return (
+                      <li key={attrIdx} className={clsx("flex items-center gap-2 text-xs", step?.skip ? "text-slate-600 line-through" : "text-slate-300")}>
+                        <span className="w-10 font-mono text-[10px] text-slate-500">{start !== undefined ? formatSeconds(start) : '—'}</span>
+                        <span className="flex-1 truncate" title={row[attrIdx + 1]}>{column}</span>
+                        <input
+                          type="number"
+                          min="0.5"
+                          step="0.5"
+                          disabled={disabled || step?.skip}
+                          value={step?.duration ?? ''}
+                          placeholder={String(config.durationPerItem)}
+                          onChange={(e) => updateStep(subject, column, { duration: parseSeconds(e.target.value) })}
+                          className={numberInputClass}
+                          title="Seconds on screen"
+                        />
+                        <button
+                          onClick={() => updateStep(subject, column, { skip: !step?.skip })}
+                          disabled={disabled}
+                          className={clsx("p-1 rounded", step?.skip ? "text-red-400 bg-red-500/10" : "text-slate-500 hover:text-slate-300")}
+                          title="Skip this step"
+                        >
+                          <EyeOff size={12} />
+                        </button>
+                        <button
+                          onClick={() => updateStep(subject, column, { hold: !step?.hold })}
+                          disabled={disabled || step?.skip}
+                          className={clsx("px-1.5 py-0.5 rounded text-[10px] font-semibold", step?.hold ? "text-blue-300 bg-blue-500/20" : "text-slate-500 hover:text-slate-300")}
+                          title="Stay fully visible until the next step instead of fading out"
+                        >
+                          HOLD
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { ChevronDown, ChevronRight, ArrowUp, ArrowDown, Filter, AlertTriangle } from 'lucide-react';
+import { TableData, AnimationConfig, TableView } from '../types';
+import { getVisibleRows, getVisibleColumns } from '../utils/tableView';
+import { checkFilter } from '../utils/rowFilter';
+
+interface ViewPanelProps {
+  data: TableData;
+  config: AnimationConfig;
+  disabled?: boolean;
+  // Typing in the filter passes no label so keystrokes merge into one undo step
+  onChange: (view: TableView | undefined, label?: string) => void;
+}
+
+const inputClass = "bg-slate-900 border border-slate-700 text-slate-200 text-xs rounded-md p-1.5 disabled:opacity-50";
+
+// Drop empty settings so a cleared view leaves nothing behind in the config
+const cleanView = (view: TableView): TableView | undefined => {
+  const cleaned: TableView = {};
+  if (view.sortBy) cleaned.sortBy = view.sortBy;
+  if (view.filter?.trim()) cleaned.filter = view.filter;
+  if (view.limit && view.limit.count > 0) cleaned.limit = view.limit;
+  if (view.hiddenColumns?.length) cleaned.hiddenColumns = view.hiddenColumns;
+  return Object.keys(cleaned).length ? cleaned : undefined;
+};
+
+/**
+ * Sort, filter, top/bottom N and hidden columns. Only what is rendered
+ * changes; the rows in the editor stay as they are.
+ */
+export const ViewPanel: React.FC<ViewPanelProps> = ({ data, config, disabled, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const view = config.view ?? {};
+  const rowCount = useMemo(() => getVisibleRows(data, config).length, [data, config]);
+  const colCount = getVisibleColumns(data, config).length;
+  const filterError = useMemo(() => checkFilter(data, config, view.filter ?? ''), [data, config.columnTypes, view.filter]);
+  const hidden = new Set<string>(view.hiddenColumns ?? []);
+
+  const update = (changes: Partial<TableView>, label?: string) => onChange(cleanView({ ...view, ...changes }), label);
+
+  const toggleColumn = (column: string) => {
+    const next = hidden.has(column) ? [...hidden].filter(c => c !== column) : [...hidden, column];
+    update({ hiddenColumns: next }, hidden.has(column) ? "Showed column" : "Hid column");
+  };
+
+  return (
+    <div className="shrink-0 bg-slate-800/60 border border-slate-700 rounded-lg">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center gap-2 px-3 py-2 text-left">
+        {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <Filter size={12} className={config.view ? "text-blue-400" : "text-slate-500"} />
+        <span className="text-xs font-semibold uppercase text-slate-400">View</span>
+        <span className="ml-auto text-[11px] font-mono text-slate-500">
+          {rowCount}/{data.data.length} rows · {colCount}/{data.columns.length} cols
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-slate-700 p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="w-14 text-[10px] text-slate-500 uppercase font-semibold">Sort</span>
+            <select
+              value={view.sortBy?.column ?? ''}
+              disabled={disabled}
+              onChange={(e) => update({ sortBy: e.target.value ? { column: e.target.value, direction: view.sortBy?.direction ?? 'asc' } : undefined }, "Changed sort")}
+              className={clsx(inputClass, "flex-1 min-w-0")}
+            >
+              <option value="">As in the table</option>
+              {data.columns.map(col => <option key={col} value={col}>{col}</option>)}
+            </select>
+            <button
+              onClick={() => view.sortBy && update({ sortBy: { ...view.sortBy, direction: view.sortBy.direction === 'asc' ? 'desc' : 'asc' } }, "Changed sort")}
+              disabled={disabled || !view.sortBy}
+              className="p-1.5 rounded-md border border-slate-700 text-slate-300 hover:text-white disabled:opacity-40"
+              title={view.sortBy?.direction === 'desc' ? "Descending" : "Ascending"}
+            >
+              {view.sortBy?.direction === 'desc' ? <ArrowDown size={12} /> : <ArrowUp size={12} />}
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="w-14 text-[10px] text-slate-500 uppercase font-semibold">Filter</span>
+              <input
+                value={view.filter ?? ''}
+                disabled={disabled}
+                onChange={(e) => update({ filter: e.target.value })}
+                placeholder="[column] > 10 and name ~ text"
+                className={clsx(inputClass, "flex-1 min-w-0 font-mono placeholder:text-slate-600", filterError && "border-amber-500/60")}
+                spellCheck={false}
+              />
+            </div>
+            {filterError && (
+              <div className="flex gap-1.5 pl-16 text-[11px] text-amber-300">
+                <AlertTriangle size={12} className="shrink-0 mt-0.5" /> {filterError}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="w-14 text-[10px] text-slate-500 uppercase font-semibold">Keep</span>
+            <select
+              value={view.limit?.from ?? ''}
+              disabled={disabled}
+              onChange={(e) => update({ limit: e.target.value ? { count: view.limit?.count || 10, from: e.target.value as 'top' | 'bottom' } : undefined }, "Changed row limit")}
+              className={inputClass}
+            >
+              <option value="">All rows</option>
+              <option value="top">First</option>
+              <option value="bottom">Last</option>
+            </select>
+            <input
+              type="number"
+              min="1"
+              disabled={disabled || !view.limit}
+              value={view.limit?.count ?? ''}
+              onChange={(e) => view.limit && update({ limit: { ...view.limit, count: Math.max(0, parseInt(e.target.value) || 0) } }, "Changed row limit")}
+              className={clsx(inputClass, "w-16 font-mono")}
+            />
+            <span className="text-[11px] text-slate-500">rows after sorting</span>
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-[10px] text-slate-500 uppercase font-semibold">Columns in the animation</span>
+            <div className="flex flex-wrap gap-1">
+              {data.columns.map((col, i) => (
+                <button
+                  key={i}
+                  onClick={() => toggleColumn(col)}
+                  disabled={disabled || i === 0}
+                  className={clsx(
+                    "px-2 py-0.5 rounded-full text-[11px] border max-w-[10rem] truncate",
+                    hidden.has(col) ? "text-slate-500 border-slate-700 line-through" : "text-slate-200 border-blue-500/40 bg-blue-500/10",
+                    i === 0 && "opacity-60"
+                  )}
+                  title={i === 0 ? "The subject column always stays" : col}
+                >
+                  {col}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, Mic, Pencil, Play, Scissors, Square, Upload, X } from 'lucide-react';
+import { PresentationAudio, pcmDuration } from '../utils/audioSynth';
+import {
+  VoiceTake, VoiceRecorder, VOICE_FILE_ACCEPT, takeDuration, readVoiceFile, takeFromPcm, startRecording, findSpeech, encodeTake, getPeaks, NORMALISE_PEAK,
+} from '../utils/voiceRecording';
+
+interface VoiceRecordingPanelProps {
+  // The clip already in use, offered for trimming again
+  current?: string | null;
+  disabled?: boolean;
+  compact?: boolean;
+  onSave: (pcm: string, label: string) => void;
+}
+
+const WAVEFORM_BARS = 120;
+
+type TakeOrigin = 'recorded' | 'uploaded' | 'edited';
+
+const SAVE_LABELS: Record<TakeOrigin, string> = {
+  recorded: "Recorded voiceover",
+  uploaded: "Uploaded voiceover",
+  edited: "Edited voiceover",
+};
+
+/** Peaks of the whole take, with the parts trimmed away dimmed. */
+const Waveform: React.FC<{ take: VoiceTake }> = ({ take }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const peaks = useMemo(() => getPeaks(take.samples, WAVEFORM_BARS), [take.samples]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { width, height } = canvas;
+    const duration = takeDuration(take);
+    const isKept = (i: number) => {
+      const time = (i + 0.5) / WAVEFORM_BARS * duration;
+      return time >= take.trimStart && time <= take.trimEnd;
+    };
+    // Show the kept part at the level it will be saved at
+    const keptPeak = Math.max(0, ...peaks.filter((_, i) => isKept(i)));
+    const gain = take.normalise && keptPeak > 0 ? NORMALISE_PEAK / keptPeak : 1;
+    const barWidth = width / WAVEFORM_BARS;
+    ctx.clearRect(0, 0, width, height);
+    peaks.forEach((peak, i) => {
+      const kept = isKept(i);
+      const barHeight = Math.max(1, Math.min(1, peak * (kept ? gain : 1)) * height);
+      ctx.fillStyle = kept ? '#4ade80' : '#334155';
+      ctx.fillRect(i * barWidth + 0.5, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [peaks, take]);
+
+  return <canvas ref={canvasRef} width={480} height={64} className="w-full h-12 bg-slate-900 rounded border border-slate-700" />;
+};
+
+/**
+ * Record from the microphone or upload a file, then trim and normalise it.
+ * Saved takes are stored in the same format as a generated voiceover.
+ */
+export const VoiceRecordingPanel: React.FC<VoiceRecordingPanelProps> = ({ current, disabled, compact, onSave }) => {
+  const [take, setTake] = useState<VoiceTake | null>(null);
+  const [origin, setOrigin] = useState<TakeOrigin>('recorded');
+  const [recorder, setRecorder] = useState<VoiceRecorder | null>(null);
+  const [recordingSince, setRecordingSince] = useState(0);
+  const [now, setNow] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioRef = useRef<PresentationAudio | null>(null);
+
+  // Tick the recording clock
+  useEffect(() => {
+    if (!recorder) return;
+    const id = window.setInterval(() => setNow(Date.now()), 200);
+    return () => window.clearInterval(id);
+  }, [recorder]);
+
+  // Don't leave the microphone or a preview running once the panel goes away
+  const recorderRef = useRef(recorder);
+  recorderRef.current = recorder;
+  useEffect(() => () => {
+    recorderRef.current?.cancel();
+    audioRef.current?.stop();
+  }, []);
+
+  const run = async (work: () => Promise<void>) => {
+    setError(null);
+    setBusy(true);
+    try {
+      await work();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRecord = () => run(async () => {
+    if (recorder) {
+      setRecorder(null);
+      const recorded = await recorder.stop();
+      setTake(recorded);
+      setOrigin('recorded');
+      return;
+    }
+    stopPreview();
+    setRecorder(await startRecording());
+    setRecordingSince(Date.now());
+    setNow(Date.now());
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      setTake(await readVoiceFile(file));
+      setOrigin('uploaded');
+    });
+  };
+
+  const stopPreview = () => {
+    audioRef.current?.stop();
+    audioRef.current = null;
+  };
+
+  const preview = () => {
+    if (!take) return;
+    stopPreview();
+    try {
+      const pcm = encodeTake(take);
+      const audio = new PresentationAudio();
+      audioRef.current = audio;
+      audio.playSpeech(pcm, audio.ctx.currentTime);
+      window.setTimeout(() => {
+        if (audioRef.current === audio) stopPreview();
+      }, pcmDuration(pcm) * 1000 + 200);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const save = () => {
+    if (!take) return;
+    try {
+      onSave(encodeTake(take), SAVE_LABELS[origin]);
+      stopPreview();
+      setTake(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const duration = take ? takeDuration(take) : 0;
+  const setTrim = (change: Partial<VoiceTake>) => setTake(prev => prev && { ...prev, ...change });
+  const buttonClass = "flex-1 py-2 rounded-lg border border-dashed border-slate-700 text-xs text-slate-400 hover:text-green-400 hover:border-green-500/50 disabled:opacity-50 flex items-center justify-center gap-2";
+
+  return (
+    <div className="space-y-2">
+      {!take && (
+        <div className="flex gap-2">
+          <button
+            onClick={handleRecord}
+            disabled={disabled || (busy && !recorder)}
+            className={recorder ? "flex-1 py-2 rounded-lg border border-red-500/50 bg-red-500/10 text-xs text-red-300 flex items-center justify-center gap-2" : buttonClass}
+          >
+            {recorder
+              ? <><Square size={12} /> Stop · {((now - recordingSince) / 1000).toFixed(0)}s</>
+              : busy ? <Loader2 size={12} className="animate-spin" /> : <><Mic size={12} /> {compact ? "Record" : "Record your voice"}</>}
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={disabled || busy || !!recorder} className={buttonClass}>
+            <Upload size={12} /> {compact ? "Upload" : "Upload audio"}
+          </button>
+          {current && !compact && (
+            <button
+              onClick={() => run(async () => { setTake(takeFromPcm(current)); setOrigin('edited'); })}
+              disabled={disabled || busy || !!recorder}
+              className={buttonClass}
+              title="Trim or normalise the current voiceover"
+            >
+              <Pencil size={12} /> Edit
+            </button>
+          )}
+          <input ref={fileInputRef} type="file" accept={VOICE_FILE_ACCEPT} className="hidden" onChange={handleFile} />
+        </div>
+      )}
+
+      {take && (
+        <div className="space-y-2 p-2 bg-slate-800/60 border border-slate-700 rounded-lg">
+          <Waveform take={take} />
+          <div className="grid grid-cols-2 gap-2 text-[10px] text-slate-400">
+            <label className="space-y-1">
+              <span className="flex justify-between">Start <span className="font-mono">{take.trimStart.toFixed(2)}s</span></span>
+              <input
+                type="range" min={0} max={duration} step={0.01} value={take.trimStart}
+                onChange={(e) => setTrim({ trimStart: Math.min(parseFloat(e.target.value), take.trimEnd - 0.1) })}
+                className="w-full accent-green-500"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="flex justify-between">End <span className="font-mono">{take.trimEnd.toFixed(2)}s</span></span>
+              <input
+                type="range" min={0} max={duration} step={0.01} value={take.trimEnd}
+                onChange={(e) => setTrim({ trimEnd: Math.max(parseFloat(e.target.value), take.trimStart + 0.1) })}
+                className="w-full accent-green-500"
+              />
+            </label>
+          </div>
+          <div className="flex items-center gap-3 text-[11px] text-slate-300">
+            <button onClick={() => setTrim({ trimStart: findSpeech(take.samples).start, trimEnd: findSpeech(take.samples).end })} className="flex items-center gap-1 hover:text-green-400">
+              <Scissors size={11} /> Trim silence
+            </button>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={take.normalise} onChange={(e) => setTrim({ normalise: e.target.checked })} className="rounded border-slate-600 bg-slate-700 text-green-600" />
+              Normalise
+            </label>
+            <span className="ml-auto font-mono text-slate-500">{(take.trimEnd - take.trimStart).toFixed(1)}s</span>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={preview} className="px-3 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600 text-xs text-slate-200 flex items-center gap-1">
+              <Play size={12} /> Listen
+            </button>
+            <button onClick={save} disabled={disabled} className="flex-1 py-1.5 rounded-md bg-green-600 hover:bg-green-500 text-xs text-white font-medium disabled:opacity-50">
+              Use this take
+            </button>
+            <button onClick={() => { stopPreview(); setTake(null); }} className="px-2 text-slate-400 hover:text-red-400" title="Discard">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-[11px] text-amber-300">{error}</p>}
+    </div>
+  );
+};
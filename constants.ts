@@ -1,5 +1,5 @@
 
-import { TableData, AnimationStyle, Theme, AnimationConfig, Layout } from './types';
+import { TableData, AnimationStyle, Theme, AnimationConfig, Layout, AspectRatio, Resolution } from './types';
 
 export const DEFAULT_TABLE_DATA: TableData = {
   title: "महादेश र तिनका विशेषताहरू (Continents & Features)",
@@ -19,6 +19,8 @@ export const DEFAULT_ANIMATION_CONFIG: AnimationConfig = {
   style: AnimationStyle.FADE_UP,
   theme: Theme.COSMIC,
   layout: Layout.STACKED,
+  aspectRatio: AspectRatio.SQUARE,
+  resolution: Resolution.FULL_HD,
   rowDelay: 1.0, 
   highlightActive: true,
   showProgressBar: true,
@@ -1,5 +1,5 @@
 import { GoogleGenAI, Type, Schema, Modality } from "@google/genai";
-import { TableData } from "../types";
+import { TableData, NarrativeLanguage } from "../types";
 
 // Schema for the expected response - kept for fixTableJson
 const tableSchema: Schema = {
@@ -125,7 +125,7 @@ export const fixTableJson = async (brokenJson: string): Promise<TableData> => {
   }
 }
 
-export const generateSummaryFromData = async (data: TableData, language: 'auto' | 'en' | 'ne' = 'auto'): Promise<string> => {
+export const generateSummaryFromData = async (data: TableData, language: NarrativeLanguage = 'auto'): Promise<string> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   
   // Create a simplified text representation of the table for the prompt
@@ -0,0 +1,137 @@
+import { Project, ProjectSnapshot, ProjectSummary } from "../types";
+
+// IndexedDB-backed project library. Projects hold base64 images and PCM,
+// which quickly outgrow localStorage's ~5MB quota.
+
+const DB_NAME = "loksewa-automatic";
+const DB_VERSION = 1;
+const STORE = "projects";
+const LAST_PROJECT_KEY = "loksewa:lastProjectId";
+
+export const PROJECT_FILE_EXTENSION = ".loksewa";
+const PROJECT_FILE_FORMAT = "loksewa-project";
+const PROJECT_FILE_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: "id" }).createIndex("updatedAt", "updatedAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const createId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await runRequest<Project[]>("readonly", store => store.getAll());
+  return projects
+    .map(({ id, name, createdAt, updatedAt, thumbnail }) => ({ id, name, createdAt, updatedAt, thumbnail }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string): Promise<Project | undefined> =>
+  runRequest<Project | undefined>("readonly", store => store.get(id));
+
+export const saveProject = async (project: Project): Promise<Project> => {
+  await runRequest("readwrite", store => store.put(project));
+  return project;
+};
+
+export const createProject = (name: string, snapshot: ProjectSnapshot, thumbnail?: string): Promise<Project> => {
+  const now = Date.now();
+  return saveProject({ ...snapshot, id: createId(), name, createdAt: now, updatedAt: now, thumbnail });
+};
+
+export const updateProject = async (id: string, changes: Partial<Omit<Project, "id" | "createdAt">>): Promise<Project> => {
+  const existing = await getProject(id);
+  if (!existing) throw new Error(`Project ${id} not found`);
+  return saveProject({ ...existing, ...changes, updatedAt: Date.now() });
+};
+
+export const renameProject = (id: string, name: string) => updateProject(id, { name });
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const existing = await getProject(id);
+  if (!existing) throw new Error(`Project ${id} not found`);
+  const { id: _id, name, createdAt, updatedAt, thumbnail, ...snapshot } = existing;
+  return createProject(`${name} (copy)`, snapshot, thumbnail);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest("readwrite", store => store.delete(id));
+  if (getLastProjectId() === id) setLastProjectId(null);
+};
+
+// The last opened project is restored on reload
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string | null) => {
+  if (id) localStorage.setItem(LAST_PROJECT_KEY, id);
+  else localStorage.removeItem(LAST_PROJECT_KEY);
+};
+
+// --- .loksewa project files ---
+// A single JSON document: the background image (data URL) and voice PCM (base64)
+// are already strings, so no extra container format is needed.
+
+export const exportProjectFile = (project: Project): Blob => {
+  const { id, ...rest } = project;
+  const payload = { format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, project: rest };
+  return new Blob([JSON.stringify(payload)], { type: "application/json" });
+};
+
+export const importProjectFile = async (file: File): Promise<Project> => {
+  let payload: any;
+  try {
+    payload = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("This is not a valid .loksewa project file.");
+  }
+  if (payload?.format !== PROJECT_FILE_FORMAT || !payload.project) {
+    throw new Error("This is not a valid .loksewa project file.");
+  }
+  if (payload.version > PROJECT_FILE_VERSION) {
+    throw new Error("This project was saved by a newer version of Loksewa Automatic.");
+  }
+
+  const p = payload.project;
+  if (!p.data || !Array.isArray(p.data.columns) || !Array.isArray(p.data.data) || !p.config) {
+    throw new Error("The project file is missing its table or design settings.");
+  }
+  return createProject(p.name || file.name.replace(/\.[^.]+$/, ""), {
+    data: p.data,
+    config: p.config,
+    voicePcm: p.voicePcm ?? null,
+    narrativeLanguage: p.narrativeLanguage ?? "auto",
+    presentation: p.presentation,
+    narration: p.narration,
+  }, p.thumbnail);
+};
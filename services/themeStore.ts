@@ -0,0 +1,98 @@
+import { BackgroundKind, CustomTheme, ThemePalette } from "../types";
+
+// Custom themes are a few hundred bytes each, so unlike projects they live in
+// localStorage. Theme files are plain JSON so they can be shared and edited by hand.
+
+const CUSTOM_THEMES_KEY = "loksewa:customThemes";
+
+export const THEME_FILE_EXTENSION = ".json";
+const THEME_FILE_FORMAT = "loksewa-theme";
+const THEME_FILE_VERSION = 1;
+
+const BACKGROUND_KINDS: BackgroundKind[] = ["gradient", "grid", "solid"];
+const COLOR_FIELDS = [
+  "bg", "bgAccent", "subjectColor", "headerColor", "valueColor",
+  "lineColor1", "lineColor2", "barColor1", "barColor2",
+] as const;
+
+const createId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Fills gaps from `base` and drops anything the renderers can't use
+const sanitizePalette = (input: any, base: ThemePalette): ThemePalette => {
+  const palette: ThemePalette = { ...base };
+  for (const field of COLOR_FIELDS) {
+    if (typeof input?.[field] === "string" && input[field].trim()) palette[field] = input[field].trim();
+  }
+  if (typeof input?.fontMain === "string" && input.fontMain.trim()) palette.fontMain = input.fontMain.trim();
+  if (typeof input?.fontHeader === "string" && input.fontHeader.trim()) palette.fontHeader = input.fontHeader.trim();
+  if (BACKGROUND_KINDS.includes(input?.backgroundKind)) palette.backgroundKind = input.backgroundKind;
+  if (typeof input?.overlayOpacity === "number" && isFinite(input.overlayOpacity)) {
+    palette.overlayOpacity = Math.min(1, Math.max(0, input.overlayOpacity));
+  }
+  if (typeof input?.glow === "boolean") palette.glow = input.glow;
+  return palette;
+};
+
+export const listCustomThemes = (): CustomTheme[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_THEMES_KEY) || "[]");
+    return Array.isArray(stored) ? stored.filter(t => t && typeof t.id === "string") : [];
+  } catch (e) {
+    console.warn("Stored custom themes are unreadable", e);
+    return [];
+  }
+};
+
+const writeCustomThemes = (themes: CustomTheme[]) => {
+  localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(themes));
+};
+
+export const createCustomTheme = (name: string, palette: ThemePalette): CustomTheme => {
+  const theme: CustomTheme = { ...palette, id: createId(), name };
+  writeCustomThemes([...listCustomThemes(), theme]);
+  return theme;
+};
+
+export const saveCustomTheme = (theme: CustomTheme): CustomTheme => {
+  const themes = listCustomThemes();
+  const index = themes.findIndex(t => t.id === theme.id);
+  if (index >= 0) themes[index] = theme;
+  else themes.push(theme);
+  writeCustomThemes(themes);
+  return theme;
+};
+
+export const deleteCustomTheme = (id: string) => {
+  writeCustomThemes(listCustomThemes().filter(t => t.id !== id));
+};
+
+// --- Theme files ---
+
+export const exportThemeFile = (theme: CustomTheme): Blob => {
+  const { id, ...rest } = theme;
+  const payload = { format: THEME_FILE_FORMAT, version: THEME_FILE_VERSION, theme: rest };
+  return new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
+};
+
+// `base` supplies any fields the file leaves out
+export const importThemeFile = async (file: File, base: ThemePalette): Promise<CustomTheme> => {
+  let payload: any;
+  try {
+    payload = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("This is not a valid theme file.");
+  }
+  if (payload?.format !== THEME_FILE_FORMAT || !payload.theme) {
+    throw new Error("This is not a valid theme file.");
+  }
+  if (payload.version > THEME_FILE_VERSION) {
+    throw new Error("This theme was saved by a newer version of Loksewa Automatic.");
+  }
+  const name = typeof payload.theme.name === "string" && payload.theme.name.trim()
+    ? payload.theme.name.trim()
+    : file.name.replace(/\.[^.]+$/, "");
+  return createCustomTheme(name, sanitizePalette(payload.theme, base));
+};
@@ -20,24 +20,264 @@ export enum Theme {
   GLASS = 'glass'
 }
 
+// How the frame is filled when there's no background image
+export type BackgroundKind = 'gradient' | 'grid' | 'solid';
+
+// Everything the renderers need to know about a theme
+export interface ThemePalette {
+  bg: string;
+  bgAccent: string; // gradient start / grid lines
+  backgroundKind: BackgroundKind;
+  overlayOpacity: number; // 0-1, darkens background images
+  subjectColor: string;
+  headerColor: string;
+  valueColor: string;
+  lineColor1: string;
+  lineColor2: string;
+  barColor1: string;
+  barColor2: string;
+  fontMain: string;
+  fontHeader: string;
+  glow: boolean;
+}
+
+export interface CustomTheme extends ThemePalette {
+  id: string;
+  name: string;
+}
+
+// Text roles that can each use their own font
+export type FontRole = 'title' | 'subject' | 'header' | 'value';
+
+// An uploaded font file. Kept in the project so exports look the same on any machine.
+export interface ProjectFont {
+  id: string;
+  family: string; // name registered with document.fonts
+  fileName: string;
+  data: string; // data URL
+}
+
 export enum Layout {
   STACKED = 'stacked',
   SPLIT = 'split',
   DIAGONAL = 'diagonal',
   MAGAZINE = 'magazine',
-  LOWER_THIRD = 'lower_third'
+  LOWER_THIRD = 'lower_third',
+  GRID_REVEAL = 'grid_reveal'
+}
+
+// How the grid reveal layout builds up the table
+export type RevealMode = 'cell' | 'row';
+
+// How a column's cells are read and written
+export type ColumnType = 'text' | 'number' | 'percent' | 'currency' | 'date_bs' | 'date_ad';
+
+export type NumeralScript = 'auto' | 'devanagari' | 'latin'; // auto: whichever the column mostly uses
+export type DigitGrouping = 'auto' | 'none' | 'international' | 'nepali'; // auto: as each cell was written
+
+export interface NumberFormat {
+  script: NumeralScript;
+  grouping: DigitGrouping;
+}
+
+export type DateCalendar = 'auto' | 'bs' | 'ad'; // auto: the column's own calendar
+export type DateStyle = 'auto' | 'numeric' | 'ne' | 'en'; // auto: numeric or named, as each cell was written
+
+export interface DateFormat {
+  calendar: DateCalendar;
+  style: DateStyle;
+}
+
+// Keeps only rows whose date in `column` falls within the range (either end optional)
+export interface DateRange {
+  column: string;
+  from?: string;
+  to?: string;
+}
+
+// Non-destructive view of the table applied before anything is rendered
+export interface TableView {
+  sortBy?: { column: string; direction: 'asc' | 'desc' };
+  filter?: string; // e.g. [को भू-भाग (%)] > 10 and महादेश != युरोप
+  limit?: { count: number; from: 'top' | 'bottom' }; // after sorting
+  hiddenColumns?: string[]; // left out of the animation; the first column always stays
+}
+
+export type ChartKind = 'bar' | 'pie' | 'race';
+
+export interface ChartConfig {
+  kind: ChartKind;
+  column: string; // header of the numeric column that drives the chart
+}
+
+export type MusicSource = 'generated' | 'track' | 'off';
+export type MusicMood = 'calm' | 'uplifting' | 'serious' | 'playful' | 'ambient';
+export type MusicScale = 'majorPentatonic' | 'minorPentatonic' | 'major' | 'minor' | 'dorian';
+
+// The user's own music, stored in the project so it renders anywhere
+export interface MusicTrack {
+  name: string;
+  data: string;    // data url
+  loop: boolean;
+  fadeIn: number;  // seconds
+  fadeOut: number; // seconds
+}
+
+export type SfxPreset = 'none' | 'sweep' | 'click' | 'swoosh' | 'pop' | 'chime' | 'typewriter';
+// Moments that can make a sound: a new row, the next attribute of a row, a scene change, and the start and end
+export type SfxEvent = 'row' | 'attribute' | 'scene' | 'intro' | 'outro';
+export type SfxPackId = 'classic' | 'minimal' | 'playful' | 'newsroom' | 'cinematic';
+
+// A short sound the user uploaded, stored in the project
+export interface SfxSample {
+  id: string;
+  name: string;
+  data: string; // data url
+}
+
+// A synthesized preset, or an uploaded sample by id
+export type SfxSound = SfxPreset | `sample:${string}`;
+
+export interface SoundEffects {
+  pack: SfxPackId | 'style' | 'theme'; // 'style' and 'theme' pick a pack to suit each scene
+  events?: Partial<Record<SfxEvent, SfxSound>>; // unset events play the pack's sound
+  samples?: SfxSample[];
+}
+
+// Levels are multiples of the default level, so 1 sounds as it always has
+export interface AudioMix {
+  music: MusicSource;
+  musicGain: number;
+  voiceGain: number;
+  sfxGain: number;
+  ducking: number; // 0..1, how far music dips while someone speaks
+  mood: MusicMood;
+  scale: MusicScale;
+  seed?: number;   // unset follows the table, so each table keeps its own melody
+  track?: MusicTrack;
+  effects?: SoundEffects; // unset follows the animation style
+}
+
+export enum AspectRatio {
+  SQUARE = '1:1',
+  PORTRAIT = '4:5',
+  VERTICAL = '9:16',
+  LANDSCAPE = '16:9'
+}
+
+// Named after the short side of the frame
+export enum Resolution {
+  HD = '720p',
+  FULL_HD = '1080p',
+  UHD = '4k'
+}
+
+// Overrides for one attribute step of a row
+export interface StepTiming {
+  duration?: number; // seconds, defaults to durationPerItem
+  skip?: boolean;
+  hold?: boolean; // stays fully visible until the next step instead of fading out
+}
+
+export interface RowTiming {
+  pauseAfter?: number; // seconds, defaults to rowDelay
+  steps?: Record<string, StepTiming>; // keyed by column name
+}
+
+// A narration line and its audio
+export interface NarrationLine {
+  text: string;
+  pcm?: string; // base64 24kHz Int16 PCM; unset until generated or recorded
+}
+
+// Narration for one row; steps stretch to fit their audio
+export interface RowNarration {
+  row?: NarrationLine;                    // spoken as the row comes in, before its first step's line
+  steps?: Record<string, NarrationLine>;  // keyed by column name
 }
 
+// Keyed by the row's first cell, like rowTimings
+export type TableNarration = Record<string, RowNarration>;
+
 export interface AnimationConfig {
   style: AnimationStyle;
   theme: Theme;
+  customTheme?: CustomTheme; // takes precedence over `theme`; copied in so projects render anywhere
   layout: Layout;
-  rowDelay: number; // seconds
+  revealBy?: RevealMode; // grid reveal only; defaults to 'cell'
+  chart?: ChartConfig; // drawn in place of the layout while its column is numeric
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  rowDelay: number; // seconds of pause after each row
   highlightActive: boolean;
+  rowTimings?: Record<string, RowTiming>; // keyed by the row's first cell, so edits that move rows keep their timing
   showProgressBar: boolean;
   durationPerItem: number;
   backgroundImage?: string; // base64
   backgroundImagePrompt?: string; 
   showAppName: boolean;
   showAiWatermark: boolean;
+  fonts?: ProjectFont[];
+  fontRoles?: Partial<Record<FontRole, string>>; // ProjectFont ids; unset roles use the theme fonts
+  columnTypes?: Record<string, ColumnType>; // keyed by column header; unset columns are detected
+  numberFormat?: NumberFormat;
+  dateFormat?: DateFormat;
+  dateRange?: DateRange;
+  view?: TableView;
+  audio?: AudioMix; // unset plays the default mix
 }
+
+export type SceneKind = 'table' | 'intro' | 'title' | 'outro';
+export type TransitionKind = 'cut' | 'fade' | 'slide' | 'zoom';
+
+export interface SceneTransition {
+  kind: TransitionKind;
+  duration: number; // seconds, overlapping the end of the previous scene
+}
+
+// Design settings a scene may set for itself; the frame, branding and soundtrack always come from the project
+export type SceneOverrides = Partial<Omit<AnimationConfig, 'aspectRatio' | 'resolution' | 'showAppName' | 'showAiWatermark' | 'fonts' | 'audio'>>;
+
+// One entry in a presentation's playlist
+export interface PresentationScene {
+  id: string;
+  kind: SceneKind;
+  data?: TableData;         // table scenes; unset means the project's own table
+  heading?: string;         // cards; unset falls back to the first table's title
+  subheading?: string;
+  duration?: number;        // seconds, cards only
+  overrides?: SceneOverrides;
+  transition?: SceneTransition; // into this scene
+  voicePcm?: string;        // narration for this scene (base64 24kHz Int16 PCM)
+  narration?: TableNarration; // per-step narration for the scene's own table
+}
+
+// Several scenes played back to back as one video. Without scenes the project plays its table alone.
+export interface Presentation {
+  scenes: PresentationScene[];
+}
+
+export type NarrativeLanguage = 'auto' | 'en' | 'ne';
+
+// Container for video exports
+export type VideoFormat = 'webm' | 'mp4';
+
+// Everything needed to reproduce a presentation
+export interface ProjectSnapshot {
+  data: TableData;
+  config: AnimationConfig;
+  voicePcm: string | null; // base64 24kHz Int16 PCM
+  narrativeLanguage: NarrativeLanguage;
+  presentation?: Presentation;
+  narration?: TableNarration; // per-step narration for the project's table
+}
+
+export interface Project extends ProjectSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail?: string; // small jpeg data url
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'thumbnail'>;
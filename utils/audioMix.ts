@@ -0,0 +1,104 @@
+// The soundtrack's settings: levels, ducking, the generated music's mood and
+// scale, and imported music tracks. PresentationAudio plays whatever mix it is
+// given; this module only describes and resolves mixes.
+import { AnimationConfig, AudioMix, MusicMood, MusicScale, MusicSource, MusicTrack, TableData } from '../types';
+import { readAsDataUrl } from './fileData';
+
+export const DEFAULT_AUDIO_MIX: AudioMix = {
+    music: 'generated',
+    musicGain: 1,
+    voiceGain: 1,
+    sfxGain: 1,
+    ducking: 0.5,
+    mood: 'calm',
+    scale: 'majorPentatonic',
+};
+
+export const MUSIC_SOURCE_LABELS: Record<MusicSource, string> = {
+    generated: 'Generated',
+    track: 'My track',
+    off: 'No music',
+};
+
+export const MOOD_LABELS: Record<MusicMood, string> = {
+    calm: 'Calm',
+    uplifting: 'Uplifting',
+    serious: 'Serious',
+    playful: 'Playful',
+    ambient: 'Ambient',
+};
+
+export const SCALE_LABELS: Record<MusicScale, string> = {
+    majorPentatonic: 'Major pentatonic',
+    minorPentatonic: 'Minor pentatonic',
+    major: 'Major',
+    minor: 'Minor',
+    dorian: 'Dorian',
+};
+
+// How a mood plays its notes
+export interface MoodSettings {
+    wave: OscillatorType;
+    gap: [number, number]; // seconds between notes, min and max
+    decay: number;         // seconds a note rings for
+    chordChance: number;   // chance a note gets a harmony two scale steps up
+    octave: number;        // shift from the middle octave
+    level: number;         // peak gain of a note
+}
+
+export const MOODS: Record<MusicMood, MoodSettings> = {
+    calm: { wave: 'triangle', gap: [2, 4.5], decay: 4, chordChance: 0.3, octave: 0, level: 0.03 },
+    uplifting: { wave: 'triangle', gap: [0.5, 1.25], decay: 2, chordChance: 0.4, octave: 0, level: 0.025 },
+    serious: { wave: 'sine', gap: [1.5, 3], decay: 5, chordChance: 0.5, octave: -1, level: 0.04 },
+    playful: { wave: 'triangle', gap: [0.25, 0.75], decay: 0.8, chordChance: 0.15, octave: 1, level: 0.02 },
+    ambient: { wave: 'sine', gap: [3, 6], decay: 7, chordChance: 0.7, octave: 0, level: 0.035 },
+};
+
+// Semitones above the root
+const SCALE_STEPS: Record<MusicScale, number[]> = {
+    majorPentatonic: [0, 2, 4, 7, 9],
+    minorPentatonic: [0, 3, 5, 7, 10],
+    major: [0, 2, 4, 5, 7, 9, 11],
+    minor: [0, 2, 3, 5, 7, 8, 10],
+    dorian: [0, 2, 3, 5, 7, 9, 10],
+};
+
+const MIDDLE_C = 261.63;
+
+/** Two octaves of the scale from C, plus the C on top. */
+export function getScaleFrequencies(scale: MusicScale, octave: number): number[] {
+    const root = MIDDLE_C * Math.pow(2, octave);
+    const semitones = [0, 12].flatMap(base => SCALE_STEPS[scale].map(step => base + step)).concat(24);
+    return semitones.map(semitone => root * Math.pow(2, semitone / 12));
+}
+
+export const resolveMix = (config: AnimationConfig): AudioMix => ({ ...DEFAULT_AUDIO_MIX, ...config.audio });
+
+const hashString = (text: string) => {
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+};
+
+// The same melody on every play and export; without a seed of its own it follows the table
+export const getMusicSeed = (mix: AudioMix, data: TableData) => mix.seed ?? hashString(JSON.stringify(data));
+
+export const newMusicSeed = () => Math.floor(Math.random() * 0xffffffff);
+
+export const MUSIC_FILE_ACCEPT = '.mp3,.wav,.ogg,.oga,.m4a,audio/*';
+const MUSIC_FILE_PATTERN = /\.(mp3|wav|ogg|oga|m4a)$/i;
+// Tracks are stored in the project, so keep them to a size the project store handles well
+const MAX_MUSIC_BYTES = 20 * 1024 * 1024;
+
+export async function readMusicFile(file: File): Promise<MusicTrack> {
+    if (!MUSIC_FILE_PATTERN.test(file.name) && !file.type.startsWith('audio/')) {
+        throw new Error("Music must be an MP3, WAV or OGG file.");
+    }
+    if (file.size > MAX_MUSIC_BYTES) {
+        throw new Error(`Music files can be at most ${MAX_MUSIC_BYTES / 1024 / 1024}MB.`);
+    }
+    return { name: file.name, data: await readAsDataUrl(file), loop: true, fadeIn: 1, fadeOut: 2 };
+}
@@ -1,9 +1,118 @@
 
+import { AudioMix, MusicTrack, SfxSample, SfxSound } from '../types';
+import { DEFAULT_AUDIO_MIX, MOODS, MoodSettings, getScaleFrequencies } from './audioMix';
+import { findSample } from './soundEffects';
+
+// Small seeded PRNG so offline renders are reproducible
+export function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface PresentationAudioOptions {
+  // Render into an existing context (e.g. an OfflineAudioContext) instead of a live one
+  context?: BaseAudioContext;
+  // Seed for the generative music; omitted means a different melody every time
+  seed?: number;
+  // Levels, ducking and which music plays; omitted is the default mix
+  mix?: AudioMix;
+}
+
+// A narration clip and where it starts, in seconds from the start of the presentation
+export interface VoiceClip {
+  pcm: string; // base64 24kHz Int16 PCM
+  start: number;
+}
+
+interface OfflineRenderOptions {
+  duration: number;          // seconds
+  voiceClips: VoiceClip[];
+  soundCues: SoundCue[];
+  seed: number;
+  mix?: AudioMix;
+  sampleRate?: number;
+}
+
+// Music and voice both come in half a second after playback starts
+const LEAD_IN = 0.5;
+// Where a voiceover for a whole table starts; step narration is timed to its steps instead
+export const VOICE_LEAD_IN = LEAD_IN;
+
+// A sound effect and when it plays, in seconds from the start of the presentation
+export interface SoundCue {
+  time: number;
+  sound: SfxSound;
+}
+
+// Base levels the mix's gains multiply
+const MUSIC_LEVEL = 0.5;
+const SFX_LEVEL = 0.5;
+// Imported tracks are mastered far louder than the generated notes
+const TRACK_LEVEL = 0.35;
+// How quickly music dips before a voice clip and comes back after it
+const DUCK_ATTACK = 0.3;
+const DUCK_RELEASE = 0.6;
+// Fixed, so noise-based effects sound identical in preview and export
+const NOISE_SEED = 0x5f3759df;
+
+// Gemini TTS format: 24kHz, mono, 16-bit
+export const PCM_SAMPLE_RATE = 24000;
+
+// Seconds of audio in a base64 PCM clip, without decoding it
+export const pcmDuration = (base64Pcm: string) => {
+  const padding = base64Pcm.endsWith('==') ? 2 : base64Pcm.endsWith('=') ? 1 : 0;
+  return (base64Pcm.length * 3 / 4 - padding) / 2 / PCM_SAMPLE_RATE;
+};
+
+// Samples in -1..1 from a base64 Int16 PCM clip
+export function decodePcm(base64Pcm: string): Float32Array {
+  const binaryString = atob(base64Pcm);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  const dataInt16 = new Int16Array(bytes.buffer, 0, bytes.length >> 1);
+  const samples = new Float32Array(dataInt16.length);
+  for (let i = 0; i < dataInt16.length; i++) {
+    samples[i] = dataInt16[i] / 32768.0;
+  }
+  return samples;
+}
+
+// The reverse of decodePcm: samples in -1..1 to base64 Int16 PCM
+export function encodePcm(samples: Float32Array): string {
+  const dataInt16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    dataInt16[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  const bytes = new Uint8Array(dataInt16.buffer);
+  // In chunks, since fromCharCode can't take a whole clip's worth of arguments
+  let binaryString = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binaryString += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binaryString);
+}
+
+// Older Safari only has the prefixed constructor
+export const createAudioContext = (): AudioContext =>
+  new (window.AudioContext || (window as any).webkitAudioContext)();
+
 export class PresentationAudio {
-  public ctx: AudioContext;
+  public ctx: BaseAudioContext;
   private destination: AudioNode;
-  private masterGain: GainNode;
+  private musicGain: GainNode;
+  private duckGain: GainNode;
+  private sfxGain: GainNode;
   private voiceGain: GainNode;
+  private mix: AudioMix;
   private nodes: AudioNode[] = []; 
   public streamDestination: MediaStreamAudioDestinationNode | null = null;
   
@@ -12,48 +121,100 @@ export class PresentationAudio {
   private nextNoteTime: number = 0;
   private timerID: number | null = null;
 
-  private voiceSource: AudioBufferSourceNode | null = null;
+  private voiceSources: AudioBufferSourceNode[] = [];
+  private random: () => number;
 
-  // C Major Pentatonic Scale
-  private scale = [
-    261.63, 293.66, 329.63, 392.00, 440.00, 
-    523.25, 587.33, 659.25, 783.99, 880.00,
-    1046.50
-  ];
+  private samples = new Map<string, AudioBuffer>();
+  private sampleLoads = new Map<string, Promise<AudioBuffer | null>>();
+  private noise: AudioBuffer | null = null;
+  private mood: MoodSettings;
+  private scale: number[];
 
-  constructor(forExport: boolean = false) {
-    const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
-    this.ctx = new AudioContextClass();
+  constructor(forExport: boolean = false, options: PresentationAudioOptions = {}) {
+    if (options.context) {
+      this.ctx = options.context;
+    } else {
+      this.ctx = createAudioContext();
+    }
+    this.random = options.seed !== undefined ? mulberry32(options.seed) : Math.random;
+    this.mix = options.mix ?? DEFAULT_AUDIO_MIX;
+    this.mood = MOODS[this.mix.mood] ?? MOODS.calm;
+    this.scale = getScaleFrequencies(this.mix.scale, this.mood.octave);
+
+    // Music runs through a second gain that ducking moves, so the music level itself stays put
+    this.musicGain = this.ctx.createGain();
+    this.musicGain.gain.value = MUSIC_LEVEL * this.mix.musicGain;
+    this.duckGain = this.ctx.createGain();
+    this.musicGain.connect(this.duckGain);
 
-    this.masterGain = this.ctx.createGain();
-    this.masterGain.gain.value = 0.5; // Music volume
+    this.sfxGain = this.ctx.createGain();
+    this.sfxGain.gain.value = SFX_LEVEL * this.mix.sfxGain;
 
     this.voiceGain = this.ctx.createGain();
-    this.voiceGain.gain.value = 1.0; // Voice is louder
+    this.voiceGain.gain.value = this.mix.voiceGain; // Voice is louder
 
     // Connect voice to destination directly (or mix if needed)
     // We want voice to be part of the export stream too.
 
-    if (forExport) {
+    if (forExport && this.ctx instanceof AudioContext) {
       this.streamDestination = this.ctx.createMediaStreamDestination();
       this.destination = this.streamDestination;
     } else {
       this.destination = this.ctx.destination;
     }
 
-    this.masterGain.connect(this.destination);
+    this.duckGain.connect(this.destination);
+    this.sfxGain.connect(this.destination);
     this.voiceGain.connect(this.destination);
   }
 
-  async start() {
-    if (this.ctx.state === 'suspended') {
+  /**
+   * Renders the full soundtrack (music, voiceover and sound effects) into
+   * an AudioBuffer without playing it. Same seed, same output.
+   */
+  static async renderOffline(options: OfflineRenderOptions): Promise<AudioBuffer> {
+    const sampleRate = options.sampleRate || 48000;
+    const context = new OfflineAudioContext(2, Math.max(1, Math.ceil(options.duration * sampleRate)), sampleRate);
+    const audio = new PresentationAudio(false, { context, seed: options.seed, mix: options.mix });
+
+    if (audio.mix.music === 'generated') audio.scheduleMusic(LEAD_IN, options.duration);
+    if (audio.mix.music === 'track' && audio.mix.track) await audio.scheduleTrack(audio.mix.track, LEAD_IN, options.duration);
+    for (const clip of options.voiceClips) {
+      await audio.playSpeech(clip.pcm, clip.start);
+    }
+    audio.scheduleDucking(options.voiceClips, 0);
+    await audio.loadSamples();
+    options.soundCues.forEach(cue => audio.playEffect(cue.sound, cue.time));
+
+    return context.startRendering();
+  }
+
+  // Narration clips timed from now
+  async playVoiceClips(clips: VoiceClip[]) {
+    const now = this.ctx.currentTime;
+    for (const clip of clips) {
+      await this.playSpeech(clip.pcm, now + clip.start);
+    }
+    this.scheduleDucking(clips, now);
+  }
+
+  // `duration` (seconds) is where an imported track fades out; generated music plays until stopped
+  async start(duration?: number) {
+    if (this.ctx instanceof AudioContext && this.ctx.state === 'suspended') {
       await this.ctx.resume();
     }
     
     if (!this.isPlaying) {
         this.isPlaying = true;
-        this.nextNoteTime = this.ctx.currentTime + 0.5;
-        this.scheduleAmbientPiano();
+        // Early, so sampled effects are ready by the time they play
+        this.loadSamples();
+        const now = this.ctx.currentTime;
+        if (this.mix.music === 'generated') {
+            this.nextNoteTime = now + LEAD_IN;
+            this.scheduleAmbientPiano();
+        } else if (this.mix.music === 'track' && this.mix.track && duration) {
+            await this.scheduleTrack(this.mix.track, now + LEAD_IN, now + duration);
+        }
     }
   }
 
@@ -72,60 +233,103 @@ export class PresentationAudio {
     this.nodes = [];
     
     // Stop voice if playing
-    if (this.voiceSource) {
-        try { this.voiceSource.stop(); } catch(e){}
-        try { this.voiceSource.disconnect(); } catch(e){}
-        this.voiceSource = null;
-    }
+    this.voiceSources.forEach(source => {
+        try { source.stop(); } catch(e){}
+        try { source.disconnect(); } catch(e){}
+    });
+    this.voiceSources = [];
 
-    try { this.masterGain.disconnect(); } catch(e) {}
+    try { this.duckGain.disconnect(); } catch(e) {}
+    try { this.sfxGain.disconnect(); } catch(e) {}
     try { this.voiceGain.disconnect(); } catch(e) {}
 
-    if (this.ctx.state !== 'closed') {
+    if (this.ctx instanceof AudioContext && this.ctx.state !== 'closed') {
         this.ctx.close();
     }
   }
 
   // --- TTS Handling ---
 
-  async playSpeech(base64Pcm: string) {
+  // Clips may overlap; each plays from its own start time
+  async playSpeech(base64Pcm: string, startTime?: number) {
     if (!base64Pcm) return;
 
     try {
-        // Stop previous voice
-        if (this.voiceSource) {
-            try { this.voiceSource.stop(); } catch(e) {}
-            this.voiceSource = null;
-        }
-
-        // Decode Raw PCM (Gemini format: 24kHz, 1 channel, Int16)
-        const binaryString = atob(base64Pcm);
-        const len = binaryString.length;
-        const bytes = new Uint8Array(len);
-        for (let i = 0; i < len; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-        }
-        
-        const dataInt16 = new Int16Array(bytes.buffer);
-        const sampleRate = 24000;
-        const buffer = this.ctx.createBuffer(1, dataInt16.length, sampleRate);
-        const channelData = buffer.getChannelData(0);
-        
-        for (let i = 0; i < dataInt16.length; i++) {
-            channelData[i] = dataInt16[i] / 32768.0;
-        }
+        // Raw PCM (Gemini format: 24kHz, 1 channel, Int16); recordings are converted to the same
+        const samples = decodePcm(base64Pcm);
+        const buffer = this.ctx.createBuffer(1, Math.max(1, samples.length), PCM_SAMPLE_RATE);
+        buffer.getChannelData(0).set(samples);
 
         const source = this.ctx.createBufferSource();
         source.buffer = buffer;
         source.connect(this.voiceGain);
-        source.start(this.ctx.currentTime + 0.5); // Slight delay to start after music logic
-        this.voiceSource = source;
+        source.start(startTime ?? this.ctx.currentTime + LEAD_IN); // Slight delay to start after music logic
+        this.voiceSources.push(source);
 
     } catch (e) {
         console.error("Error decoding/playing speech:", e);
     }
   }
 
+  // Music dips under every voice clip; clips close together share one dip
+  private scheduleDucking(clips: VoiceClip[], offset: number) {
+    if (!this.mix.ducking || this.mix.music === 'off') return;
+    const spans = clips
+      .map(clip => ({ start: offset + clip.start, end: offset + clip.start + pcmDuration(clip.pcm) }))
+      .sort((a, b) => a.start - b.start);
+    const merged: { start: number; end: number }[] = [];
+    spans.forEach(span => {
+      const last = merged[merged.length - 1];
+      if (last && span.start - last.end < DUCK_ATTACK + DUCK_RELEASE) last.end = Math.max(last.end, span.end);
+      else merged.push({ ...span });
+    });
+
+    const low = Math.max(0, 1 - this.mix.ducking);
+    const gain = this.duckGain.gain;
+    merged.forEach(span => {
+      gain.setValueAtTime(1, Math.max(offset, span.start - DUCK_ATTACK));
+      gain.linearRampToValueAtTime(low, Math.max(offset, span.start));
+      gain.setValueAtTime(low, span.end);
+      gain.linearRampToValueAtTime(1, span.end + DUCK_RELEASE);
+    });
+  }
+
+  // --- Imported Music ---
+
+  // Plays the track from `from` to `until` (seconds on this context's clock), with its fades
+  private async scheduleTrack(track: MusicTrack, from: number, until: number) {
+    let buffer: AudioBuffer;
+    try {
+      const bytes = await (await fetch(track.data)).arrayBuffer();
+      buffer = await this.ctx.decodeAudioData(bytes);
+    } catch (e) {
+      console.error("Error decoding music track:", e);
+      return;
+    }
+
+    const end = track.loop ? until : Math.min(until, from + buffer.duration);
+    if (end <= from) return;
+    const fadeIn = Math.min(Math.max(0, track.fadeIn), (end - from) / 2);
+    const fadeOut = Math.min(Math.max(0, track.fadeOut), (end - from) / 2);
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = track.loop;
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(fadeIn ? 0 : TRACK_LEVEL, from);
+    if (fadeIn) gain.gain.linearRampToValueAtTime(TRACK_LEVEL, from + fadeIn);
+    gain.gain.setValueAtTime(TRACK_LEVEL, end - fadeOut);
+    if (fadeOut) gain.gain.linearRampToValueAtTime(0, end);
+
+    source.connect(gain);
+    gain.connect(this.musicGain);
+    source.start(from);
+    source.stop(end);
+
+    this.nodes.push(source);
+    this.nodes.push(gain);
+  }
+
   // --- Generative Piano Logic ---
 
   private scheduleAmbientPiano() {
@@ -135,22 +339,32 @@ export class PresentationAudio {
       const scheduler = () => {
           if (!this.isPlaying) return;
 
-          while (this.nextNoteTime < this.ctx.currentTime + scheduleAheadTime) {
-              this.playRandomPianoNote(this.nextNoteTime);
-              this.nextNoteTime += 2.0 + Math.random() * 2.5;
-          }
-          
+          this.scheduleNotesUntil(this.ctx.currentTime + scheduleAheadTime);
           this.timerID = window.setTimeout(scheduler, lookahead * 1000);
       };
       
       scheduler();
   }
 
+  // Schedules the whole piece up front, for offline rendering
+  public scheduleMusic(from: number, until: number) {
+      this.nextNoteTime = from;
+      this.scheduleNotesUntil(until);
+  }
+
+  private scheduleNotesUntil(until: number) {
+      while (this.nextNoteTime < until) {
+          this.playRandomPianoNote(this.nextNoteTime);
+          const [minGap, maxGap] = this.mood.gap;
+          this.nextNoteTime += minGap + this.random() * (maxGap - minGap);
+      }
+  }
+
   private playRandomPianoNote(time: number) {
-      const freq = this.scale[Math.floor(Math.random() * this.scale.length)];
+      const freq = this.scale[Math.floor(this.random() * this.scale.length)];
       this.playPianoTone(freq, time);
 
-      if (Math.random() < 0.3) {
+      if (this.random() < this.mood.chordChance) {
           const idx = this.scale.indexOf(freq);
           if (idx + 2 < this.scale.length) {
               this.playPianoTone(this.scale[idx + 2], time);
@@ -163,7 +377,8 @@ export class PresentationAudio {
       const gain = this.ctx.createGain();
       const filter = this.ctx.createBiquadFilter();
 
-      osc.type = 'triangle';
+      const { wave, decay, level } = this.mood;
+      osc.type = wave;
       osc.frequency.setValueAtTime(freq, time);
 
       filter.type = 'lowpass';
@@ -171,42 +386,165 @@ export class PresentationAudio {
       filter.frequency.exponentialRampToValueAtTime(freq, time + 0.5); 
 
       gain.gain.setValueAtTime(0, time);
-      gain.gain.linearRampToValueAtTime(0.03, time + 0.02); 
-      gain.gain.exponentialRampToValueAtTime(0.001, time + 4.0);
+      gain.gain.linearRampToValueAtTime(level, time + 0.02); 
+      gain.gain.exponentialRampToValueAtTime(0.001, time + decay);
 
       osc.connect(filter);
       filter.connect(gain);
-      gain.connect(this.masterGain);
+      gain.connect(this.musicGain);
 
       osc.start(time);
-      osc.stop(time + 4.5);
+      osc.stop(time + decay + 0.5);
 
       this.nodes.push(osc);
       this.nodes.push(gain);
       this.nodes.push(filter);
   }
 
-  public triggerTransition() {
-    const t = this.ctx.currentTime;
+  // --- Sound Effects ---
+
+  // Decodes the mix's uploaded samples. Offline renders must wait for this before scheduling effects.
+  async loadSamples() {
+    await Promise.all((this.mix.effects?.samples ?? []).map(sample => this.loadSample(sample)));
+  }
+
+  private loadSample(sample: SfxSample): Promise<AudioBuffer | null> {
+    let load = this.sampleLoads.get(sample.id);
+    if (!load) {
+      load = fetch(sample.data)
+        .then(response => response.arrayBuffer())
+        .then(bytes => this.ctx.decodeAudioData(bytes))
+        .then(buffer => {
+          this.samples.set(sample.id, buffer);
+          return buffer;
+        }, e => {
+          console.error("Error decoding sound effect:", e);
+          return null;
+        });
+      this.sampleLoads.set(sample.id, load);
+    }
+    return load;
+  }
+
+  private playSample(buffer: AudioBuffer, t: number) {
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.sfxGain);
+    source.start(t);
+    this.nodes.push(source);
+  }
+
+  // Effects timed from now, the same as renderOffline places them
+  playSoundCues(cues: SoundCue[]) {
+    const now = this.ctx.currentTime;
+    cues.forEach(cue => this.playEffect(cue.sound, now + cue.time));
+  }
+
+  public playEffect(sound: SfxSound, time?: number) {
+    const t = time ?? this.ctx.currentTime;
+    const sample = findSample(this.mix.effects, sound);
+    if (sample) {
+      const buffer = this.samples.get(sample.id);
+      if (buffer) {
+        this.playSample(buffer, t);
+      } else {
+        // Still decoding: play it if it's ready in time
+        this.loadSample(sample).then(loaded => {
+          if (loaded && this.ctx.state !== 'closed' && t >= this.ctx.currentTime) this.playSample(loaded, t);
+        });
+      }
+      return;
+    }
+
+    switch (sound) {
+      case 'sweep':
+        this.playTone('sine', [[0, 800], [0.1, 1200], [0.3, 300]], 0.1, 0.05, 0.3, t);
+        break;
+      case 'click':
+        this.playTone('square', [[0, 2200], [0.02, 1800]], 0.03, 0.002, 0.03, t);
+        this.playNoise('highpass', [[0, 4000]], 0.05, 0.015, t);
+        break;
+      case 'swoosh':
+        this.playNoise('bandpass', [[0, 400], [0.2, 3000], [0.4, 600]], 0.25, 0.4, t);
+        break;
+      case 'pop':
+        this.playTone('sine', [[0, 380], [0.06, 900]], 0.18, 0.005, 0.1, t);
+        break;
+      case 'chime':
+        // A struck bell: the fundamental plus an inharmonic partial that dies away sooner
+        [[1318.5, 0.06, 1.6], [1318.5 * 2.76, 0.02, 0.6], [1975.5, 0.03, 1.2]].forEach(([freq, peak, decay]) => {
+          this.playTone('sine', [[0, freq]], peak, 0.005, decay, t);
+        });
+        break;
+      case 'typewriter':
+        this.playNoise('highpass', [[0, 3000]], 0.12, 0.02, t);
+        this.playTone('triangle', [[0, 140], [0.03, 90]], 0.08, 0.002, 0.05, t);
+        break;
+    }
+  }
+
+  // One oscillator gliding through `glide` ([seconds, Hz] pairs) with a quick attack and exponential decay
+  private playTone(type: OscillatorType, glide: number[][], peak: number, attack: number, decay: number, t: number) {
     const osc = this.ctx.createOscillator();
     const gain = this.ctx.createGain();
-    
-    osc.type = 'sine';
-    osc.frequency.setValueAtTime(800, t);
-    osc.frequency.exponentialRampToValueAtTime(1200, t + 0.1); 
-    osc.frequency.exponentialRampToValueAtTime(300, t + 0.3);  
-    
+
+    osc.type = type;
+    glide.forEach(([at, freq], i) => {
+      if (i === 0) osc.frequency.setValueAtTime(freq, t + at);
+      else osc.frequency.exponentialRampToValueAtTime(freq, t + at);
+    });
+
     gain.gain.setValueAtTime(0, t);
-    gain.gain.linearRampToValueAtTime(0.1, t + 0.05);
-    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.3);
+    gain.gain.linearRampToValueAtTime(peak, t + attack);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + attack + decay);
 
     osc.connect(gain);
-    gain.connect(this.masterGain);
-    
+    gain.connect(this.sfxGain);
+
     osc.start(t);
-    osc.stop(t + 0.4);
+    osc.stop(t + attack + decay + 0.1);
 
     this.nodes.push(osc);
     this.nodes.push(gain);
   }
+
+  // Filtered noise, its filter moving through `sweep` ([seconds, Hz] pairs), swelling in and out over `duration`
+  private playNoise(type: BiquadFilterType, sweep: number[][], peak: number, duration: number, t: number) {
+    const source = this.ctx.createBufferSource();
+    const filter = this.ctx.createBiquadFilter();
+    const gain = this.ctx.createGain();
+
+    source.buffer = this.getNoise();
+    filter.type = type;
+    sweep.forEach(([at, freq], i) => {
+      if (i === 0) filter.frequency.setValueAtTime(freq, t + at);
+      else filter.frequency.exponentialRampToValueAtTime(freq, t + at);
+    });
+
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(peak, t + duration * 0.4);
+    gain.gain.linearRampToValueAtTime(0, t + duration);
+
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.sfxGain);
+
+    source.start(t);
+    source.stop(t + duration + 0.05);
+
+    this.nodes.push(source);
+    this.nodes.push(filter);
+    this.nodes.push(gain);
+  }
+
+  // Half a second of white noise, the same every time so effects never change between renders
+  private getNoise() {
+    if (!this.noise) {
+      const random = mulberry32(NOISE_SEED);
+      this.noise = this.ctx.createBuffer(1, Math.ceil(this.ctx.sampleRate / 2), this.ctx.sampleRate);
+      const data = this.noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = random() * 2 - 1;
+    }
+    return this.noise;
+  }
 }
\ No newline at end of file
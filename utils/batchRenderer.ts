@@ -0,0 +1,127 @@
+import { zipSync } from 'fflate';
+import { TableData, AnimationConfig, VideoFormat } from '../types';
+import { renderVideo, getVideoExtension } from './videoRenderer';
+import { renderTableImage } from './imageRenderer';
+import { validateTableJson } from './tableValidator';
+import { stripTableSettings } from './presentation';
+
+export type BatchItemStatus = 'pending' | 'rendering' | 'done' | 'error' | 'skipped';
+
+export interface BatchItem {
+    id: string;
+    source: string;          // file name (and index for arrays) the table came from
+    data: TableData | null;  // null when the input failed validation
+    status: BatchItemStatus;
+    progress: number;        // 0..1 for the current item
+    error?: string;
+}
+
+export interface BatchOutputs {
+    video: boolean;
+    image: boolean;
+}
+
+export interface BatchFile {
+    name: string;
+    blob: Blob;
+}
+
+let nextId = 0;
+
+const makeItem = (source: string, value: unknown): BatchItem => {
+    const id = `batch-${nextId++}`;
+    const result = validateTableJson(JSON.stringify(value));
+    const firstError = result.issues.find(i => i.severity === 'error');
+    if (!result.data) {
+        return { id, source, data: null, status: 'error', progress: 0, error: firstError?.message || "Invalid table" };
+    }
+    return { id, source, data: result.data, status: 'pending', progress: 0 };
+};
+
+/**
+ * Turns JSON text into queue items. Accepts a single TableData object, an
+ * array of them, or an object with a `tables` array.
+ */
+export function parseBatchInput(text: string, source: string): BatchItem[] {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        return [{ id: `batch-${nextId++}`, source, data: null, status: 'error', progress: 0, error: `Invalid JSON: ${(e as Error).message}` }];
+    }
+    const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.tables) ? parsed.tables : [parsed];
+    return list.map((value: unknown, i: number) => makeItem(list.length > 1 ? `${source} #${i + 1}` : source, value));
+}
+
+export async function parseBatchFiles(files: File[]): Promise<BatchItem[]> {
+    const groups = await Promise.all(files.map(async f => parseBatchInput(await f.text(), f.name)));
+    return groups.flat();
+}
+
+const slugify = (text: string) =>
+    text.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').slice(0, 60) || 'table';
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+interface BatchCallbacks {
+    onItemUpdate: (id: string, changes: Partial<BatchItem>) => void;
+    isCancelled: () => boolean;
+}
+
+/**
+ * Renders the queue one item at a time (each video render keeps its own
+ * encoders busy, so running items side by side would only slow them all
+ * down). Failures are recorded on the item and the batch moves on.
+ */
+export async function runBatch(
+    items: BatchItem[],
+    config: AnimationConfig,
+    outputs: BatchOutputs,
+    videoFormat: VideoFormat,
+    logoSrc: string | undefined,
+    callbacks: BatchCallbacks
+): Promise<BatchFile[]> {
+    const files: BatchFile[] = [];
+    const pad = String(items.length).length;
+
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        if (!item.data) continue;
+        if (callbacks.isCancelled()) {
+            callbacks.onItemUpdate(item.id, { status: 'skipped' });
+            continue;
+        }
+
+        // Row timings, views, column types and the like belong to the project's own table
+        const itemConfig = stripTableSettings(config);
+        const baseName = `${String(i + 1).padStart(pad, '0')}-${slugify(item.data.title || item.source)}`;
+        callbacks.onItemUpdate(item.id, { status: 'rendering', progress: 0, error: undefined });
+
+        try {
+            if (outputs.image) {
+                const png = await renderTableImage(item.data, itemConfig, logoSrc);
+                files.push({ name: `${baseName}.png`, blob: await dataUrlToBlob(png) });
+            }
+            if (outputs.video) {
+                const video = await renderVideo(item.data, itemConfig, null, logoSrc, (progress) => {
+                    callbacks.onItemUpdate(item.id, { progress });
+                }, videoFormat);
+                files.push({ name: `${baseName}.${getVideoExtension(video)}`, blob: video });
+            }
+            callbacks.onItemUpdate(item.id, { status: 'done', progress: 1 });
+        } catch (e) {
+            console.error(`Batch item ${item.source} failed`, e);
+            callbacks.onItemUpdate(item.id, { status: 'error', error: e instanceof Error ? e.message : String(e) });
+        }
+    }
+    return files;
+}
+
+export async function buildBatchZip(files: BatchFile[]): Promise<Blob> {
+    const entries: Record<string, [Uint8Array, { level: 0 }]> = {};
+    for (const file of files) {
+        // Video and PNG are already compressed; store them as-is
+        entries[file.name] = [new Uint8Array(await file.blob.arrayBuffer()), { level: 0 }];
+    }
+    return new Blob([zipSync(entries)], { type: 'application/zip' });
+}
@@ -0,0 +1,186 @@
+// Bikram Sambat (Nepali calendar) conversion. BS month lengths follow no formula,
+// so they come from the published calendar, embedded here so conversion works offline.
+
+export interface CalendarDate {
+    year: number;
+    month: number; // 1-12
+    day: number;
+}
+
+const BS_FIRST_YEAR = 2000;
+// BS 2000-01-01 (1 Baisakh 2000)
+const BS_EPOCH_AD = Date.UTC(1943, 3, 14);
+const DAY_MS = 86400000;
+
+// Days in each month, Baisakh to Chaitra, for BS_FIRST_YEAR onwards
+const BS_MONTH_DAYS: number[][] = [
+    [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2000
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2001
+    [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2002
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2003
+    [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2004
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2005
+    [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2006
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2007
+    [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 29, 31], // 2008
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2009
+    [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2010
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2011
+    [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30], // 2012
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2013
+    [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2014
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2015
+    [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30], // 2016
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2017
+    [31, 32, 31, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2018
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2019
+    [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30], // 2020
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2021
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30], // 2022
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2023
+    [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30], // 2024
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2025
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2026
+    [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2027
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2028
+    [31, 31, 32, 31, 32, 30, 30, 29, 30, 29, 30, 30], // 2029
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2030
+    [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2031
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2032
+    [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2033
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2034
+    [30, 32, 31, 32, 31, 31, 29, 30, 30, 29, 29, 31], // 2035
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2036
+    [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2037
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2038
+    [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30], // 2039
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2040
+    [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2041
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2042
+    [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30], // 2043
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2044
+    [31, 32, 31, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2045
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2046
+    [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30], // 2047
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2048
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30], // 2049
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2050
+    [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30], // 2051
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2052
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30], // 2053
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2054
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2055
+    [31, 31, 32, 31, 32, 30, 30, 29, 30, 29, 30, 30], // 2056
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2057
+    [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2058
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2059
+    [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2060
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2061
+    [30, 32, 31, 32, 31, 31, 29, 30, 29, 30, 29, 31], // 2062
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2063
+    [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2064
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2065
+    [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 29, 31], // 2066
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2067
+    [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2068
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2069
+    [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30], // 2070
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2071
+    [31, 32, 31, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2072
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2073
+    [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30], // 2074
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2075
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30], // 2076
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2077
+    [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30], // 2078
+    [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2079
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30], // 2080
+    [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2081
+    [31, 31, 32, 31, 31, 30, 30, 30, 29, 30, 30, 30], // 2082
+    [31, 31, 32, 31, 31, 30, 30, 30, 29, 30, 30, 30], // 2083
+    [31, 31, 32, 31, 31, 30, 30, 30, 29, 30, 30, 30], // 2084
+    [31, 32, 31, 32, 30, 31, 30, 30, 29, 30, 30, 30], // 2085
+    [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30], // 2086
+    [31, 31, 32, 31, 31, 31, 30, 30, 29, 30, 30, 30], // 2087
+    [30, 31, 32, 32, 30, 31, 30, 30, 29, 30, 30, 30], // 2088
+    [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30], // 2089
+    [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30], // 2090
+];
+
+export const BS_LAST_YEAR = BS_FIRST_YEAR + BS_MONTH_DAYS.length - 1;
+
+export const BS_MONTHS_NE = ['बैशाख', 'जेठ', 'असार', 'साउन', 'भदौ', 'असोज', 'कात्तिक', 'मंसिर', 'पुस', 'माघ', 'फागुन', 'चैत'];
+export const BS_MONTHS_EN = ['Baisakh', 'Jestha', 'Asar', 'Shrawan', 'Bhadra', 'Asoj', 'Kartik', 'Mangsir', 'Poush', 'Magh', 'Falgun', 'Chaitra'];
+export const AD_MONTHS_NE = ['जनवरी', 'फेब्रुअरी', 'मार्च', 'अप्रिल', 'मे', 'जुन', 'जुलाई', 'अगस्ट', 'सेप्टेम्बर', 'अक्टोबर', 'नोभेम्बर', 'डिसेम्बर'];
+export const AD_MONTHS_EN = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Other spellings seen in exam material, mapped to the month number
+const BS_MONTH_ALIASES: Record<string, number> = {
+    'वैशाख': 1, 'बैसाख': 1, 'baishakh': 1, 'baisakh': 1, 'jeth': 2, 'jestha': 2, 'asadh': 3, 'ashadh': 3, 'asar': 3,
+    'श्रावण': 4, 'shrawan': 4, 'saun': 4, 'भाद्र': 5, 'bhadra': 5, 'bhadau': 5, 'आश्विन': 6, 'असोज': 6, 'ashwin': 6, 'asoj': 6,
+    'कार्तिक': 7, 'kartik': 7, 'मार्ग': 8, 'मङ्सिर': 8, 'mangsir': 8, 'marga': 8, 'पौष': 9, 'poush': 9, 'push': 9,
+    'magh': 10, 'फाल्गुन': 11, 'falgun': 11, 'phagun': 11, 'चैत्र': 12, 'chaitra': 12, 'chait': 12,
+};
+
+const monthIndex = (names: string[], name: string) => {
+    const i = names.findIndex(n => n.toLowerCase() === name);
+    return i < 0 ? 0 : i + 1;
+};
+
+/** Reads a month name in either calendar and script. */
+export function parseMonthName(name: string): { month: number; calendar: 'bs' | 'ad' } | null {
+    const key = name.trim().toLowerCase().replace(/\.$/, '');
+    const bs = monthIndex(BS_MONTHS_NE, key) || monthIndex(BS_MONTHS_EN, key) || BS_MONTH_ALIASES[key];
+    if (bs) return { month: bs, calendar: 'bs' };
+    const ad = monthIndex(AD_MONTHS_NE, key) || monthIndex(AD_MONTHS_EN, key)
+        || AD_MONTHS_EN.findIndex(m => key.length >= 3 && m.toLowerCase().startsWith(key)) + 1;
+    return ad ? { month: ad, calendar: 'ad' } : null;
+}
+
+export const isBsYearSupported = (year: number) => year >= BS_FIRST_YEAR && year <= BS_LAST_YEAR;
+
+export function bsMonthDays(year: number, month: number): number {
+    return BS_MONTH_DAYS[year - BS_FIRST_YEAR]?.[month - 1] ?? 0;
+}
+
+/** Days from 1 Baisakh 2000, or null outside the table or for a day the month doesn't have. */
+function bsDayNumber(date: CalendarDate): number | null {
+    if (!isBsYearSupported(date.year) || date.day > bsMonthDays(date.year, date.month)) return null;
+    let days = date.day - 1;
+    for (let y = BS_FIRST_YEAR; y < date.year; y++) days += BS_MONTH_DAYS[y - BS_FIRST_YEAR].reduce((a, b) => a + b, 0);
+    for (let m = 1; m < date.month; m++) days += bsMonthDays(date.year, m);
+    return days;
+}
+
+/** Converts a Bikram Sambat date to Gregorian, or null outside the supported years. */
+export function bsToAd(date: CalendarDate): CalendarDate | null {
+    const days = bsDayNumber(date);
+    if (days === null) return null;
+    const ad = new Date(BS_EPOCH_AD + days * DAY_MS);
+    return { year: ad.getUTCFullYear(), month: ad.getUTCMonth() + 1, day: ad.getUTCDate() };
+}
+
+/** Converts a Gregorian date to Bikram Sambat, or null outside the supported years. */
+export function adToBs(date: CalendarDate): CalendarDate | null {
+    let days = Math.round((Date.UTC(date.year, date.month - 1, date.day) - BS_EPOCH_AD) / DAY_MS);
+    if (days < 0) return null;
+    for (let y = 0; y < BS_MONTH_DAYS.length; y++) {
+        for (let m = 0; m < 12; m++) {
+            if (days < BS_MONTH_DAYS[y][m]) return { year: BS_FIRST_YEAR + y, month: m + 1, day: days + 1 };
+            days -= BS_MONTH_DAYS[y][m];
+        }
+    }
+    return null;
+}
+
+/**
+ * A day count shared by both calendars, for sorting and comparing (days since
+ * 1970-01-01). BS dates outside the table are placed roughly, 1 Baisakh being
+ * about 14 April, 57 years earlier.
+ */
+export function toDayNumber(date: CalendarDate, calendar: 'bs' | 'ad'): number {
+    const ad = calendar === 'bs'
+        ? bsToAd(date) ?? { year: date.year - 57, month: date.month + 3, day: date.day + 13 }
+        : date;
+    return Math.round(Date.UTC(ad.year, ad.month - 1, ad.day) / DAY_MS);
+}
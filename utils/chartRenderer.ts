@@ -0,0 +1,231 @@
+import { TableData, AnimationConfig, ChartKind, ThemePalette, FontRole } from '../types';
+import { getColumnType, isNumericType, parseCell, resolveNumberFormat, valueFormatter, formatNumber, ResolvedNumberFormat } from './columnFormat';
+import { fitText } from './textLayout';
+
+// Charts for numeric columns. Shared by the scene renderer (preview and video)
+// and the image exporter, which draws every point fully revealed.
+
+export const CHART_KIND_LABELS: Record<ChartKind, string> = {
+    bar: 'Bar chart',
+    pie: 'Pie chart',
+    race: 'Bar race',
+};
+
+export interface ChartPoint {
+    rowIdx: number;
+    label: string;
+    value: number;
+    text: string; // the cell as displayed, e.g. "२९.९२"
+    format: (value: number) => string; // writes in-between values the same way, for count-ups
+}
+
+export interface ChartSeries {
+    column: number;
+    points: ChartPoint[];
+    numbers: ResolvedNumberFormat;
+}
+
+/** Headers of the columns a chart can be drawn from. */
+export function getChartColumns(data: TableData, config: AnimationConfig): string[] {
+    return data.columns.filter((_, col) => col > 0 && isNumericType(getColumnType(data, config, col)));
+}
+
+/** The rows the chart plots, or null when there is no chart or its column is gone or no longer numeric. */
+export function getChartSeries(data: TableData, config: AnimationConfig): ChartSeries | null {
+    if (!config.chart) return null;
+    const column = data.columns.indexOf(config.chart.column);
+    const type = column > 0 ? getColumnType(data, config, column) : 'text';
+    if (!isNumericType(type)) return null;
+    const numbers = resolveNumberFormat(data, config, column);
+    const points: ChartPoint[] = [];
+    data.data.forEach((row, rowIdx) => {
+        const text = row[column] ?? '';
+        const value = parseCell(text, type);
+        if (value !== null) points.push({ rowIdx, label: row[0] ?? '', value, text, format: valueFormatter(text, type, numbers) });
+    });
+    return points.length ? { column, points, numbers } : null;
+}
+
+export interface ChartFrame {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    reveal: number[]; // [rowIdx] 0..1 through each point's entrance
+    activeRow?: number; // emphasised while the presentation is on that row
+}
+
+const easeOut = (t: number) => 1 - Math.pow(1 - t, 3);
+
+const parseHex = (color: string): [number, number, number] | null => {
+    const hex = color.trim().replace(/^#/, '');
+    const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+    if (!/^[0-9a-f]{6}$/i.test(full)) return null;
+    return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+// Evenly spaced colours from barColor1 to barColor2
+const seriesColor = (palette: ThemePalette, i: number, count: number) => {
+    const a = parseHex(palette.barColor1);
+    const b = parseHex(palette.barColor2);
+    if (!a || !b) return i % 2 ? palette.barColor2 : palette.barColor1;
+    const t = count > 1 ? i / (count - 1) : 0;
+    const [r, g, bl] = a.map((c, k) => Math.round(c + (b[k] - c) * t));
+    return `rgb(${r}, ${g}, ${bl})`;
+};
+
+const pointAlpha = (point: ChartPoint, frame: ChartFrame) =>
+    frame.activeRow === undefined || frame.activeRow === point.rowIdx ? 1 : 0.6;
+
+/** Draws `series` as `kind` into the frame's box. */
+export function drawChart(
+    ctx: CanvasRenderingContext2D,
+    kind: ChartKind,
+    series: ChartSeries,
+    frame: ChartFrame,
+    palette: ThemePalette,
+    fonts: Record<FontRole, string>
+) {
+    ctx.save();
+    if (kind === 'pie') drawPie(ctx, series, frame, palette, fonts);
+    else drawBars(ctx, series.points, frame, palette, fonts, kind === 'race');
+    ctx.restore();
+}
+
+function drawBars(
+    ctx: CanvasRenderingContext2D,
+    points: ChartPoint[],
+    frame: ChartFrame,
+    palette: ThemePalette,
+    fonts: Record<FontRole, string>,
+    race: boolean
+) {
+    const reveal = (p: ChartPoint) => frame.reveal[p.rowIdx] ?? 1;
+    const slotHeight = frame.height / points.length;
+    const barHeight = Math.min(70, slotHeight * 0.62);
+    const fontSize = Math.max(14, Math.min(36, slotHeight * 0.42));
+    const labelWidth = frame.width * 0.3;
+    const valueWidth = fontSize * 4;
+    const barLeft = frame.x + labelWidth + 20;
+    const barSpace = frame.width - labelWidth - 20 - valueWidth;
+
+    // A race rescales to what has been revealed so far; a plain bar chart keeps one scale throughout
+    const max = Math.max(1e-9, ...points.map(p => Math.max(0, p.value) * (race ? easeOut(reveal(p)) : 1)));
+
+    // Fractional rank: every revealed point ahead of this one pushes it down by
+    // as much of a slot as it has entered, so bars slide rather than jump
+    const ahead = (a: ChartPoint, b: ChartPoint) => a.value > b.value || (a.value === b.value && a.rowIdx < b.rowIdx);
+    const slotOf = (p: ChartPoint, i: number) =>
+        race ? points.reduce((rank, other) => rank + (other !== p && ahead(other, p) ? reveal(other) : 0), 0) : i;
+
+    ctx.textBaseline = 'middle';
+    points.forEach((p, i) => {
+        const t = reveal(p);
+        if (t <= 0) return;
+        const eased = easeOut(t);
+        const cy = frame.y + (slotOf(p, i) + 0.5) * slotHeight;
+        const length = Math.max(0, p.value) / max * barSpace * eased;
+
+        ctx.globalAlpha = t * pointAlpha(p, frame);
+
+        ctx.textAlign = 'right';
+        ctx.fillStyle = palette.subjectColor;
+        const label = fitText(ctx, p.label, { font: size => `bold ${size}px ${fonts.subject}`, size: fontSize, maxWidth: labelWidth, maxLines: 1 });
+        ctx.fillText(label.lines[0] ?? '', frame.x + labelWidth, cy);
+
+        ctx.fillStyle = seriesColor(palette, i, points.length);
+        ctx.beginPath();
+        ctx.roundRect(barLeft, cy - barHeight / 2, Math.max(length, 2), barHeight, Math.min(8, barHeight / 2));
+        ctx.fill();
+
+        ctx.textAlign = 'left';
+        ctx.fillStyle = palette.valueColor;
+        ctx.font = `bold ${fontSize}px ${fonts.value}`;
+        // Races count up to the value; plain bars show the cell as written
+        ctx.fillText(race && t < 1 ? p.format(p.value * eased) : p.text, barLeft + length + 14, cy);
+    });
+}
+
+function drawPie(
+    ctx: CanvasRenderingContext2D,
+    series: ChartSeries,
+    frame: ChartFrame,
+    palette: ThemePalette,
+    fonts: Record<FontRole, string>
+) {
+    const { points } = series;
+    // Negative and zero rows have no slice but still get a legend entry
+    const total = points.reduce((sum, p) => sum + Math.max(0, p.value), 0) || 1;
+    const wide = frame.width > frame.height * 1.2;
+
+    const pieSize = wide ? Math.min(frame.height, frame.width * 0.55) : Math.min(frame.width, frame.height * 0.6);
+    const radius = pieSize / 2 * 0.9;
+    const cx = wide ? frame.x + pieSize / 2 : frame.x + frame.width / 2;
+    const cy = wide ? frame.y + frame.height / 2 : frame.y + pieSize / 2;
+
+    let angle = -Math.PI / 2;
+    points.forEach((p, i) => {
+        const share = Math.max(0, p.value) / total;
+        const t = frame.reveal[p.rowIdx] ?? 1;
+        const sweep = share * Math.PI * 2;
+        if (t > 0 && share > 0) {
+            const mid = angle + sweep * easeOut(t) / 2;
+            const pop = p.rowIdx === frame.activeRow ? 16 * t : 0;
+            const ox = Math.cos(mid) * pop;
+            const oy = Math.sin(mid) * pop;
+
+            ctx.globalAlpha = pointAlpha(p, frame);
+            ctx.fillStyle = seriesColor(palette, i, points.length);
+            ctx.beginPath();
+            ctx.moveTo(cx + ox, cy + oy);
+            ctx.arc(cx + ox, cy + oy, radius, angle, angle + sweep * easeOut(t));
+            ctx.closePath();
+            ctx.fill();
+            ctx.strokeStyle = palette.bg;
+            ctx.lineWidth = 3;
+            ctx.stroke();
+
+            if (share > 0.06 && t >= 1) {
+                ctx.fillStyle = '#ffffff';
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                ctx.font = `bold ${Math.round(radius * 0.11)}px ${fonts.value}`;
+                // Whole percentages, in the same digits as the column
+                ctx.fillText(`${formatNumber(share * 100, series.numbers)}%`, cx + ox + Math.cos(mid) * radius * 0.65, cy + oy + Math.sin(mid) * radius * 0.65);
+            }
+        }
+        angle += sweep;
+    });
+
+    // Legend beside a wide frame, underneath a tall one
+    const legendX = wide ? frame.x + pieSize + 40 : frame.x;
+    const legendY = wide ? frame.y : frame.y + pieSize + 30;
+    const legendWidth = wide ? frame.width - pieSize - 40 : frame.width;
+    const legendHeight = wide ? frame.height : frame.height - pieSize - 30;
+    const rowHeight = Math.min(60, legendHeight / points.length);
+    const fontSize = Math.max(14, Math.min(32, rowHeight * 0.6));
+    const swatch = fontSize * 0.8;
+    const top = legendY + (legendHeight - rowHeight * points.length) / 2;
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    points.forEach((p, i) => {
+        const t = frame.reveal[p.rowIdx] ?? 1;
+        if (t <= 0) return;
+        const y = top + (i + 0.5) * rowHeight;
+        ctx.globalAlpha = t * pointAlpha(p, frame);
+        ctx.fillStyle = seriesColor(palette, i, points.length);
+        ctx.fillRect(legendX, y - swatch / 2, swatch, swatch);
+
+        ctx.fillStyle = palette.valueColor;
+        ctx.font = `bold ${fontSize}px ${fonts.value}`;
+        const valueWidth = ctx.measureText(p.text).width;
+        ctx.textAlign = 'right';
+        ctx.fillText(p.text, legendX + legendWidth, y);
+
+        ctx.textAlign = 'left';
+        ctx.fillStyle = palette.subjectColor;
+        const label = fitText(ctx, p.label, { font: size => `${size}px ${fonts.subject}`, size: fontSize, maxWidth: Math.max(20, legendWidth - swatch - valueWidth - 40), maxLines: 1 });
+        ctx.fillText(label.lines[0] ?? '', legendX + swatch + 14, y);
+    });
+}
@@ -0,0 +1,274 @@
+import { TableData, AnimationConfig, ColumnType, NumeralScript, DigitGrouping, NumberFormat, DateCalendar, DateStyle, DateFormat } from '../types';
+import { parseNumber, isMissingValue, toAsciiDigits, toDevanagariDigits } from './numbers';
+import { CalendarDate, parseMonthName, bsToAd, adToBs, toDayNumber, BS_MONTHS_NE, BS_MONTHS_EN, AD_MONTHS_NE, AD_MONTHS_EN } from './bikramSambat';
+
+// Column types and the display formatting built on them. Cells stay as typed in
+// the editor; the renderers draw formatTable()'s copy, and sorting and charts
+// read the parsed values.
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+    text: 'Text',
+    number: 'Number',
+    percent: 'Percent',
+    currency: 'Currency (NPR)',
+    date_bs: 'Date (BS)',
+    date_ad: 'Date (AD)',
+};
+
+export const NUMERAL_SCRIPT_LABELS: Record<NumeralScript, string> = {
+    auto: 'As the column is written',
+    devanagari: 'Devanagari (१२३)',
+    latin: 'Latin (123)',
+};
+
+export const DIGIT_GROUPING_LABELS: Record<DigitGrouping, string> = {
+    auto: 'As written',
+    none: 'None (1234567)',
+    international: 'Thousands (1,234,567)',
+    nepali: 'Lakh/crore (12,34,567)',
+};
+
+export const DATE_CALENDAR_LABELS: Record<DateCalendar, string> = {
+    auto: 'As the column is written',
+    bs: 'Bikram Sambat (BS)',
+    ad: 'Gregorian (AD)',
+};
+
+export const DATE_STYLE_LABELS: Record<DateStyle, string> = {
+    auto: 'As written',
+    numeric: 'Numeric (2081-04-15)',
+    ne: 'Nepali (२०८१ साउन १५)',
+    en: 'English (15 Shrawan 2081)',
+};
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = { script: 'auto', grouping: 'auto' };
+export const DEFAULT_DATE_FORMAT: DateFormat = { calendar: 'auto', style: 'auto' };
+
+const NUMERIC_TYPES: ColumnType[] = ['number', 'percent', 'currency'];
+export const isNumericType = (type: ColumnType) => NUMERIC_TYPES.includes(type);
+export const isDateType = (type: ColumnType) => type === 'date_bs' || type === 'date_ad';
+
+const PERCENT_MARK = /(?:%|प्रतिशत)\s*$/;
+const CURRENCY_MARK = /^\s*(?:रु\.?|rs\.?|npr|₹)/i;
+const DEVANAGARI_DIGIT = /[०-९]/;
+const LATIN_DIGIT = /[0-9]/;
+
+// --- Dates ---
+
+export interface ParsedDate extends CalendarDate {
+    calendar?: 'bs' | 'ad'; // set when a month name gives the calendar away
+    named: boolean; // written with a month name rather than a number
+    script: 'ne' | 'en'; // the language the month name was written in
+}
+
+const validDate = (year: number, month: number, day: number) =>
+    month >= 1 && month <= 12 && day >= 1 && day <= 32 && year >= 1000;
+
+/**
+ * Reads "2081-04-15", "२०८१/४/१५", "15.04.2081", "२०८१ साउन १५" or
+ * "July 4, 2024" style dates. Only the ranges are checked, not the calendar.
+ */
+export function parseDate(text: string): ParsedDate | null {
+    const ascii = toAsciiDigits(text.trim());
+    const numeric = ascii.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})$/);
+    if (numeric) {
+        let [year, month, day] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+        // Day first when the year comes last
+        if (numeric[1].length <= 2 && numeric[3].length === 4) [year, day] = [day, year];
+        return validDate(year, month, day) ? { year, month, day, named: false, script: 'en' } : null;
+    }
+
+    // A month name with a four digit year and a day on either side of it, in any order
+    const words = ascii.replace(/,/g, ' ').split(/\s+/).filter(Boolean);
+    if (words.length !== 3) return null;
+    const nameIdx = words.findIndex(w => !/^\d+$/.test(w));
+    const month = nameIdx < 0 ? null : parseMonthName(words[nameIdx]);
+    if (!month) return null;
+    const numbers = words.filter((_, i) => i !== nameIdx).map(Number);
+    if (numbers.some(isNaN)) return null;
+    const [year, day] = numbers[0] >= 1000 ? numbers : [numbers[1], numbers[0]];
+    if (!validDate(year, month.month, day)) return null;
+    return { year, month: month.month, day, calendar: month.calendar, named: true, script: /[\u0900-\u097F]/.test(words[nameIdx]) ? 'ne' : 'en' };
+}
+
+// The calendar a column's cells are in
+const calendarOf = (type: ColumnType, date?: ParsedDate) => date?.calendar ?? (type === 'date_bs' ? 'bs' : 'ad');
+
+const pad = (n: number, width: number) => String(n).padStart(width, '0');
+
+// --- Detection ---
+
+const filledCells = (data: TableData, col: number) =>
+    data.data.map(row => row[col] ?? '').filter(cell => !isMissingValue(cell));
+
+/** Guesses a column's type from its header and cells. */
+export function detectColumnType(data: TableData, col: number): ColumnType {
+    const cells = filledCells(data, col);
+    if (!cells.length) return 'text';
+    const header = data.columns[col] ?? '';
+
+    if (cells.every(cell => parseNumber(cell) !== null)) {
+        // A "(%)" header already says it, so only cells that carry the sign make a percent column
+        if (cells.some(cell => PERCENT_MARK.test(cell))) return 'percent';
+        if (cells.some(cell => CURRENCY_MARK.test(cell))) return 'currency';
+        return 'number';
+    }
+
+    const dates = cells.map(parseDate);
+    if (dates.every(Boolean)) {
+        const named = dates.find(d => d!.calendar);
+        if (named) return named.calendar === 'bs' ? 'date_bs' : 'date_ad';
+        if (/वि\.?\s?सं|बि\.?\s?सं|\bBS\b|B\.S\./i.test(header)) return 'date_bs';
+        if (/ई\.?\s?सं|\bAD\b|A\.D\./i.test(header)) return 'date_ad';
+        // Bikram Sambat runs about 57 years ahead, so today's BS years are past any AD year in a table
+        return dates.some(d => d!.year > 2060) ? 'date_bs' : 'date_ad';
+    }
+    return 'text';
+}
+
+/** The column's declared type, falling back to detection. */
+export function getColumnType(data: TableData, config: AnimationConfig, col: number): ColumnType {
+    return config.columnTypes?.[data.columns[col] ?? ''] ?? detectColumnType(data, col);
+}
+
+// --- Parsed values ---
+
+/** The value a cell sorts and charts by, or null when it has none. Dates become a day count shared by both calendars. */
+export function parseCell(text: string, type: ColumnType): number | null {
+    if (isMissingValue(text)) return null;
+    if (isNumericType(type)) return parseNumber(text);
+    if (isDateType(type)) {
+        const date = parseDate(text);
+        return date ? toDayNumber(date, calendarOf(type, date)) : null;
+    }
+    return null;
+}
+
+/** Orders two cells of a column: by value for typed columns, missing values last, text by locale. */
+export function compareCells(a: string, b: string, type: ColumnType): number {
+    if (type !== 'text') {
+        const va = parseCell(a, type);
+        const vb = parseCell(b, type);
+        if (va !== null || vb !== null) {
+            if (va === null) return 1;
+            if (vb === null) return -1;
+            return va - vb;
+        }
+    }
+    return a.localeCompare(b, 'ne', { numeric: true });
+}
+
+// --- Formatting ---
+
+export interface ResolvedNumberFormat {
+    script: 'devanagari' | 'latin';
+    grouping: DigitGrouping;
+}
+
+function groupDigits(int: string, grouping: DigitGrouping): string {
+    if (grouping === 'none' || grouping === 'auto' || int.length <= 3) return int;
+    // Lakh/crore style groups by two after the first three: 12,34,567
+    const size = grouping === 'nepali' ? 2 : 3;
+    const groups = [int.slice(-3)];
+    let rest = int.slice(0, -3);
+    while (rest.length > size) {
+        groups.unshift(rest.slice(-size));
+        rest = rest.slice(0, -size);
+    }
+    if (rest) groups.unshift(rest);
+    return groups.join(',');
+}
+
+// Reads back the grouping a cell was typed with
+const writtenGrouping = (text: string): DigitGrouping => {
+    const int = toAsciiDigits(text).match(/\d[\d,]*/)?.[0] ?? '';
+    if (!int.includes(',')) return 'none';
+    return /^\d{1,2}(,\d{2})+,\d{3}$/.test(int) ? 'nepali' : 'international';
+};
+
+const writtenDecimals = (text: string) => toAsciiDigits(text).match(/\.(\d+)/)?.[1].length ?? 0;
+
+/** Writes a number with the given digits and grouping. */
+export function formatNumber(value: number, format: ResolvedNumberFormat, decimals = 0): string {
+    const [int, frac] = Math.abs(value).toFixed(decimals).split('.');
+    const text = (value < 0 ? '-' : '') + groupDigits(int, format.grouping) + (frac ? `.${frac}` : '');
+    return format.script === 'devanagari' ? toDevanagariDigits(text) : text;
+}
+
+/**
+ * Formats values the way `text` is formatted as a numeric `type`: same decimals,
+ * grouping (when 'auto') and sign or currency mark. Charts use it to count up.
+ */
+export function valueFormatter(text: string, type: ColumnType, format: ResolvedNumberFormat): (value: number) => string {
+    const grouping = format.grouping === 'auto' ? writtenGrouping(text) : format.grouping;
+    const decimals = writtenDecimals(text);
+    return value => {
+        const number = formatNumber(value, { ...format, grouping }, decimals);
+        if (type === 'percent') return `${number}%`;
+        if (type === 'currency') return `${format.script === 'devanagari' ? 'रु.' : 'Rs.'} ${number}`;
+        return number;
+    };
+}
+
+/** Writes a date in the chosen calendar and style, converting between BS and AD when asked. */
+export function formatDate(date: ParsedDate, type: ColumnType, format: ResolvedNumberFormat, dateFormat: DateFormat): string {
+    const source = calendarOf(type, date);
+    const target = dateFormat.calendar === 'auto' ? source : dateFormat.calendar;
+    // Dates outside the embedded calendar stay in their own
+    const converted = source === target ? date : (target === 'bs' ? adToBs(date) : bsToAd(date));
+    const calendar = converted ? target : source;
+    const { year, month, day } = converted ?? date;
+
+    const style = dateFormat.style === 'auto' ? (date.named ? date.script : 'numeric') : dateFormat.style;
+    // Month names fix the language, so only numeric dates follow the digit setting
+    if (style === 'ne') {
+        const names = calendar === 'bs' ? BS_MONTHS_NE : AD_MONTHS_NE;
+        return toDevanagariDigits(`${year} ${names[month - 1]} ${day}`);
+    }
+    if (style === 'en') {
+        const names = calendar === 'bs' ? BS_MONTHS_EN : AD_MONTHS_EN;
+        return `${day} ${names[month - 1]} ${year}`;
+    }
+    const numeric = `${year}-${pad(month, 2)}-${pad(day, 2)}`;
+    return format.script === 'devanagari' ? toDevanagariDigits(numeric) : numeric;
+}
+
+/** Formats one cell as its column type. Cells that don't parse are left as written. */
+export function formatCell(text: string, type: ColumnType, format: ResolvedNumberFormat, dateFormat: DateFormat = DEFAULT_DATE_FORMAT): string {
+    if (type === 'text' || isMissingValue(text)) return text;
+
+    if (isDateType(type)) {
+        const date = parseDate(text);
+        return date ? formatDate(date, type, format, dateFormat) : text;
+    }
+
+    const value = parseNumber(text);
+    return value === null ? text : valueFormatter(text, type, format)(value);
+}
+
+/** The script a column should be drawn in: the chosen one, or whichever its cells mostly use. */
+export function resolveNumberFormat(data: TableData, config: AnimationConfig, col: number): ResolvedNumberFormat {
+    const format = config.numberFormat ?? DEFAULT_NUMBER_FORMAT;
+    if (format.script !== 'auto') return { script: format.script, grouping: format.grouping };
+    const cells = filledCells(data, col);
+    const devanagari = cells.filter(cell => DEVANAGARI_DIGIT.test(cell)).length;
+    const latin = cells.filter(cell => LATIN_DIGIT.test(cell)).length;
+    return { script: devanagari > latin ? 'devanagari' : 'latin', grouping: format.grouping };
+}
+
+/** A copy of the table with every typed cell formatted for display. */
+export function formatTable(data: TableData, config: AnimationConfig): TableData {
+    const dateFormat = config.dateFormat ?? DEFAULT_DATE_FORMAT;
+    const columns = data.columns.map((_, col) => {
+        const type = getColumnType(data, config, col);
+        return type === 'text' ? null : { type, format: resolveNumberFormat(data, config, col) };
+    });
+    if (columns.every(c => c === null)) return data;
+    return {
+        ...data,
+        data: data.data.map(row => row.map((cell, col) => {
+            const column = columns[col];
+            return column ? formatCell(cell, column.type, column.format, dateFormat) : cell;
+        })),
+    };
+}
@@ -0,0 +1,8 @@
+// Uploaded fonts, music and sound effects are stored in the project as data URLs.
+
+export const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
@@ -0,0 +1,128 @@
+// Uploaded fonts and font readiness. Canvas text never triggers a web font
+// download on its own and silently falls back when a glyph is missing, so fonts
+// are registered and loaded explicitly before anything is drawn.
+import { TableData, AnimationConfig, FontRole, ProjectFont } from '../types';
+import { readAsDataUrl } from './fileData';
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+const FONT_FILE_PATTERN = /\.(ttf|otf|woff2?)$/i;
+
+// Keyed by font id; a project font never changes once uploaded
+const registered = new Map<string, Promise<FontFace>>();
+
+export function registerFont(font: ProjectFont): Promise<FontFace> {
+    let face = registered.get(font.id);
+    if (!face) {
+        face = new FontFace(font.family, `url(${font.data})`).load().then(loaded => {
+            document.fonts.add(loaded);
+            return loaded;
+        });
+        // Let a failed load be retried
+        face.catch(() => registered.delete(font.id));
+        registered.set(font.id, face);
+    }
+    return face;
+}
+
+export async function readFontFile(file: File): Promise<ProjectFont> {
+    if (!FONT_FILE_PATTERN.test(file.name)) {
+        throw new Error("Fonts must be TTF, OTF, WOFF or WOFF2 files.");
+    }
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const font: ProjectFont = {
+        id,
+        // Private family name so an installed font with the same name can't stand in for it
+        family: `loksewa-font-${id}`,
+        fileName: file.name,
+        data: await readAsDataUrl(file),
+    };
+    try {
+        await registerFont(font);
+    } catch (e) {
+        throw new Error(`"${file.name}" could not be read as a font.`);
+    }
+    return font;
+}
+
+export const fontDisplayName = (font: ProjectFont) => font.fileName.replace(/\.[^.]+$/, '');
+
+/**
+ * Registers the project's fonts and waits until every family the renderers will
+ * use is loaded. `families` are CSS font-family lists, e.g. from resolveFonts().
+ */
+export async function ensureFonts(fonts: ProjectFont[], families: string[]): Promise<void> {
+    await Promise.all(fonts.map(font => registerFont(font).catch(e => {
+        console.warn(`Font ${font.fileName} failed to load`, e);
+    })));
+    await Promise.all([...new Set(families)].flatMap(family => [
+        document.fonts.load(`16px ${family}`),
+        document.fonts.load(`bold 16px ${family}`),
+    ]).map(p => p.catch(() => undefined)));
+    try { await document.fonts.ready; } catch (e) {}
+}
+
+// --- Coverage checks ---
+
+export interface FontWarning {
+    role: FontRole;
+    font: ProjectFont;
+    missing: string[]; // characters the font has no glyph for
+    unshapedConjunct?: string; // a Devanagari cluster the font draws as separate letters
+}
+
+const measureCtx = () => document.createElement('canvas').getContext('2d');
+
+// A glyph the font lacks falls through to the generic family, and two different
+// generic families almost never agree on its width.
+function findMissingGlyphs(ctx: CanvasRenderingContext2D, family: string, text: string): string[] {
+    const chars = [...new Set(Array.from(text.replace(/\s/g, '')))];
+    return chars.filter(ch => {
+        ctx.font = `48px "${family}", monospace`;
+        const a = ctx.measureText(ch).width;
+        ctx.font = `48px "${family}", serif`;
+        const b = ctx.measureText(ch).width;
+        return Math.abs(a - b) > 0.1;
+    });
+}
+
+const CONJUNCT = /[क-ह]्[क-ह]/;
+
+// A font that shapes Devanagari joins consonant + virama + consonant into a
+// conjunct, which is narrower than the three parts drawn one by one
+function findUnshapedConjunct(ctx: CanvasRenderingContext2D, family: string, text: string): string | undefined {
+    const match = text.match(CONJUNCT);
+    if (!match) return undefined;
+    const cluster = match[0];
+    ctx.font = `48px "${family}"`;
+    const joined = ctx.measureText(cluster).width;
+    const separate = Array.from(cluster).reduce((w, ch) => w + ctx.measureText(ch).width, 0);
+    return joined >= separate - 0.5 ? cluster : undefined;
+}
+
+// The table text each role is responsible for drawing
+const roleText = (data: TableData, role: FontRole): string => {
+    // Titles and headers are drawn in capitals in some layouts
+    const withCaps = (text: string) => `${text} ${text.toUpperCase()}`;
+    switch (role) {
+        case 'title': return withCaps(data.title || '');
+        case 'header': return withCaps(data.columns.join(' '));
+        case 'subject': return data.data.map(row => row[0] || '').join(' ');
+        case 'value': return data.data.map(row => row.slice(1).join(' ')).join(' ');
+    }
+};
+
+/** Checks every role with an uploaded font against the text it will draw. Fonts must already be registered. */
+export function checkFontCoverage(data: TableData, config: AnimationConfig): FontWarning[] {
+    const ctx = measureCtx();
+    if (!ctx || !config.fonts?.length || !config.fontRoles) return [];
+    const warnings: FontWarning[] = [];
+    for (const [role, id] of Object.entries(config.fontRoles) as [FontRole, string | undefined][]) {
+        const font = config.fonts.find(f => f.id === id);
+        if (!font) continue;
+        const text = roleText(data, role);
+        const missing = findMissingGlyphs(ctx, font.family, text);
+        const unshapedConjunct = missing.length ? undefined : findUnshapedConjunct(ctx, font.family, text);
+        if (missing.length || unshapedConjunct) warnings.push({ role, font, missing, unshapedConjunct });
+    }
+    return warnings;
+}
@@ -1,23 +1,40 @@
 
-import { TableData, AnimationConfig, Theme } from '../types';
-import { getThemeConfig, loadImage, getLines } from './videoRenderer';
+import { TableData, AnimationConfig, Resolution } from '../types';
+import { resolveTheme, resolveFonts, loadImage, getFrameSize, LAYOUT_UNIT } from './sceneRenderer';
+import { getChartSeries, drawChart } from './chartRenderer';
+import { layoutText, fitText } from './textLayout';
+import { ensureFonts } from './fontLoader';
+import { getRenderTable } from './tableView';
+
+// Line limits; anything longer is cut with an ellipsis
+const MAX_TITLE_LINES = 3;
+const MAX_SUMMARY_LINES = 4;
+const MAX_HEADER_LINES = 3;
+const MAX_CELL_LINES = 6;
 
 export async function renderTableImage(data: TableData, config: AnimationConfig, logoSrc?: string): Promise<string> {
-    // 4:5 Aspect Ratio - Optimal for Facebook/Instagram Feeds (High Res)
-    const width = 2160;
-    const height = 2700;
+    const canvas = await drawTableImage(data, config, logoSrc, 1);
+    return canvas.toDataURL('image/png');
+}
+
+// Lays out at 4K and draws at `scale` of that, so smaller copies look the same
+async function drawTableImage(data: TableData, config: AnimationConfig, logoSrc: string | undefined, scale: number): Promise<HTMLCanvasElement> {
+    // Same frame as the video, but always at 4K size (2160px short side) so text stays crisp
+    const { width, height } = getFrameSize({ aspectRatio: config.aspectRatio, resolution: Resolution.UHD });
     const margin = 100; // Reduced margin for more content space
     
     const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
     const ctx = canvas.getContext('2d');
     if (!ctx) throw new Error("Context creation failed");
+    ctx.scale(scale, scale);
 
-    // Ensure fonts are loaded
-    try { await document.fonts.ready; } catch (e) {}
+    const themeStyle = resolveTheme(config);
+    const fonts = resolveFonts(config);
 
-    const themeStyle = getThemeConfig(config.theme);
+    // Ensure fonts are loaded
+    await ensureFonts(config.fonts ?? [], [...Object.values(fonts), themeStyle.fontMain]);
 
     // --- Background ---
     ctx.fillStyle = themeStyle.bg;
@@ -33,7 +50,8 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
             
             ctx.save();
             ctx.translate(width/2, height/2);
-            ctx.globalAlpha = 0.25; // Slightly more visible but dark enough for text
+            // Dimmer than the video overlay since the table covers most of the image
+            ctx.globalAlpha = (1 - themeStyle.overlayOpacity) * 0.625;
             ctx.drawImage(img, -imgW/2, -imgH/2, imgW, imgH);
             ctx.restore();
             
@@ -46,10 +64,10 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
         } catch (e) { console.warn("Background image failed to load"); }
     } else {
         // Procedural Backgrounds
-         if (config.theme === Theme.COSMIC) {
+         if (themeStyle.backgroundKind === 'gradient') {
             const gradient = ctx.createLinearGradient(0, 0, width, height);
-            gradient.addColorStop(0, '#0f172a'); 
-            gradient.addColorStop(1, '#020617');
+            gradient.addColorStop(0, themeStyle.bgAccent); 
+            gradient.addColorStop(1, themeStyle.bg);
             ctx.fillStyle = gradient;
             ctx.fillRect(0, 0, width, height);
             
@@ -59,10 +77,9 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
                 ctx.globalAlpha = Math.random() * 0.4;
                 ctx.beginPath(); ctx.arc(Math.random()*width, Math.random()*height, Math.random()*3, 0, Math.PI*2); ctx.fill();
             }
-         } else if (config.theme === Theme.NEON) {
-            ctx.fillStyle = '#000000';
-            ctx.fillRect(0, 0, width, height);
-            ctx.strokeStyle = 'rgba(0, 255, 0, 0.1)';
+         } else if (themeStyle.backgroundKind === 'grid') {
+            ctx.strokeStyle = themeStyle.bgAccent;
+            ctx.globalAlpha = 0.1;
             ctx.lineWidth = 2;
             const gridSize = 135;
             for (let x = 0; x < width; x += gridSize) {
@@ -96,20 +113,22 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
     ctx.textBaseline = 'top';
     
     // 1. Measure Header Block (Title + Summary)
-    ctx.font = `bold 100px ${themeStyle.fontHeader}`;
     ctx.fillStyle = themeStyle.subjectColor;
-    if (config.theme === Theme.NEON) {
+    if (themeStyle.glow) {
         ctx.shadowBlur = 20;
         ctx.shadowColor = themeStyle.subjectColor;
     }
-    const titleLines = getLines(ctx, (data.title || "Data Table").toUpperCase(), contentWidth);
-    const titleHeight = titleLines.length * 120; // 120px line height for title
+    const title = fitText(ctx, (data.title || "Data Table").toUpperCase(), {
+        font: size => `bold ${size}px ${fonts.title}`, size: 100, maxWidth: contentWidth, maxLines: MAX_TITLE_LINES
+    });
+    const titleLineHeight = title.fontSize * 1.2;
+    const titleHeight = title.lines.length * titleLineHeight;
     
     let summaryHeight = 0;
     let summaryLines: string[] = [];
     if (data.summary) {
         ctx.font = `italic 40px ${themeStyle.fontMain}`;
-        summaryLines = getLines(ctx, data.summary, contentWidth);
+        summaryLines = layoutText(ctx, data.summary, { maxWidth: contentWidth, maxLines: MAX_SUMMARY_LINES }).lines;
         summaryHeight = summaryLines.length * 50 + 20; // 50px line height
     }
 
@@ -123,7 +142,8 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
     const tableStartY = margin + headerBlockHeight;
 
     // 4. Table Layout Calculation
-    const colCount = data.columns.length;
+    const table = getRenderTable(data, config);
+    const colCount = table.columns.length;
     const colWidth = contentWidth / colCount;
     const cellPadding = 30;
     const textWidth = colWidth - (cellPadding * 2);
@@ -149,25 +169,25 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
         const hLHeight = Math.floor(hFSize * 1.3);
         
         // Headers
-        ctx.font = `bold ${hFSize}px ${themeStyle.fontHeader}`;
-        const hLines = data.columns.map(col => getLines(ctx, col.toUpperCase(), textWidth));
+        ctx.font = `bold ${hFSize}px ${fonts.header}`;
+        const hLines = table.columns.map(col => layoutText(ctx, col.toUpperCase(), { maxWidth: textWidth, maxLines: MAX_HEADER_LINES }).lines);
         const maxHLines = Math.max(...hLines.map(l => l.length));
         const hHeight = (maxHLines * hLHeight) + rPad;
 
         // Rows
-        ctx.font = `${fSize}px ${themeStyle.fontMain}`;
+        ctx.font = `${fSize}px ${fonts.value}`;
         const rHeights: number[] = [];
         const rLines: string[][][] = []; // [row][col][lines]
 
-        data.data.forEach(row => {
+        table.data.forEach(row => {
              const rowCellLines: string[][] = [];
              let maxLines = 1;
              row.forEach((cell, idx) => {
                  // Bold first column?
-                 if(idx === 0) ctx.font = `bold ${fSize}px ${themeStyle.fontMain}`;
-                 else ctx.font = `${fSize}px ${themeStyle.fontMain}`;
+                 if(idx === 0) ctx.font = `bold ${fSize}px ${fonts.subject}`;
+                 else ctx.font = `${fSize}px ${fonts.value}`;
                  
-                 const lines = getLines(ctx, cell, textWidth);
+                 const lines = layoutText(ctx, cell, { maxWidth: textWidth, maxLines: MAX_CELL_LINES }).lines;
                  rowCellLines.push(lines);
                  if (lines.length > maxLines) maxLines = lines.length;
              });
@@ -196,7 +216,7 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
     // Upscale spacing if table is too short (fill available space)
     if (tableLayout.totalHeight < availableTableHeight * 0.85) {
          const diff = availableTableHeight - tableLayout.totalHeight;
-         const extraPerItem = diff / (data.data.length + 1); // +1 for header
+         const extraPerItem = diff / (table.data.length + 1); // +1 for header
          rowPadding += Math.min(extraPerItem, 80); // Cap extra padding to avoid huge gaps
          tableLayout = calculateLayout(fontSize, headerFontSize, rowPadding);
     }
@@ -205,14 +225,14 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
 
     // Draw Title
     ctx.textAlign = 'center';
-    ctx.shadowBlur = (config.theme === Theme.NEON) ? 20 : 0;
+    ctx.shadowBlur = themeStyle.glow ? 20 : 0;
     
     let drawY = margin;
-    ctx.font = `bold 100px ${themeStyle.fontHeader}`;
+    ctx.font = `bold ${title.fontSize}px ${fonts.title}`;
     ctx.fillStyle = themeStyle.subjectColor;
-    titleLines.forEach(line => {
+    title.lines.forEach(line => {
         ctx.fillText(line, width / 2, drawY);
-        drawY += 120;
+        drawY += titleLineHeight;
     });
     ctx.shadowBlur = 0;
 
@@ -227,78 +247,96 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
         });
     }
 
-    // Draw Table
-    let tableY = tableStartY;
-    // Vertically center table in available space if it's smaller
-    if (tableLayout.totalHeight < availableTableHeight) {
-        tableY += (availableTableHeight - tableLayout.totalHeight) / 2;
-    }
+    const chart = getChartSeries(table, config);
+    if (config.chart && chart) {
+        // Charts are sized in layout units like the video, then scaled up to this canvas
+        const scale = Math.min(width, height) / LAYOUT_UNIT;
+        ctx.save();
+        ctx.scale(scale, scale);
+        drawChart(ctx, config.chart.kind, chart, {
+            x: margin / scale,
+            y: tableStartY / scale,
+            width: contentWidth / scale,
+            height: availableTableHeight / scale,
+            reveal: [],
+        }, themeStyle, fonts);
+        ctx.restore();
+    } else {
+        // Draw Table
+        let tableY = tableStartY;
+        // Vertically center table in available space if it's smaller
+        if (tableLayout.totalHeight < availableTableHeight) {
+            tableY += (availableTableHeight - tableLayout.totalHeight) / 2;
+        }
 
-    // Header Background
-    ctx.fillStyle = (config.theme === Theme.NEON) ? 'rgba(0, 255, 0, 0.1)' : 'rgba(255, 255, 255, 0.08)';
-    ctx.fillRect(margin, tableY, contentWidth, tableLayout.headerHeight);
+        // Header Background
+        ctx.fillStyle = themeStyle.glow ? themeStyle.bgAccent : '#ffffff';
+        ctx.globalAlpha = themeStyle.glow ? 0.1 : 0.08;
+        ctx.fillRect(margin, tableY, contentWidth, tableLayout.headerHeight);
+        ctx.globalAlpha = 1;
     
-    // Header Text
-    ctx.textAlign = 'left';
-    ctx.fillStyle = themeStyle.headerColor;
-    ctx.font = `bold ${headerFontSize}px ${themeStyle.fontHeader}`;
-    const hLHeight = Math.floor(headerFontSize * 1.3);
+        // Header Text
+        ctx.textAlign = 'left';
+        ctx.fillStyle = themeStyle.headerColor;
+        ctx.font = `bold ${headerFontSize}px ${fonts.header}`;
+        const hLHeight = Math.floor(headerFontSize * 1.3);
 
-    data.columns.forEach((col, i) => {
-        const x = margin + (i * colWidth) + cellPadding;
-        const lines = tableLayout.headerLines[i];
+        table.columns.forEach((col, i) => {
+            const x = margin + (i * colWidth) + cellPadding;
+            const lines = tableLayout.headerLines[i];
         
-        // Vertically center text in header cell
-        const blockH = tableLayout.headerHeight;
-        const textH = lines.length * hLHeight;
-        const startY = tableY + (blockH - textH) / 2;
+            // Vertically center text in header cell
+            const blockH = tableLayout.headerHeight;
+            const textH = lines.length * hLHeight;
+            const startY = tableY + (blockH - textH) / 2;
         
-        lines.forEach((line, lIdx) => {
-             ctx.fillText(line, x, startY + (lIdx * hLHeight));
+            lines.forEach((line, lIdx) => {
+                 ctx.fillText(line, x, startY + (lIdx * hLHeight));
+            });
         });
-    });
     
-    tableY += tableLayout.headerHeight;
+        tableY += tableLayout.headerHeight;
 
-    // Rows
-    const lHeight = Math.floor(fontSize * 1.3);
+        // Rows
+        const lHeight = Math.floor(fontSize * 1.3);
     
-    data.data.forEach((row, rIdx) => {
-        const h = tableLayout.rowHeights[rIdx];
-        const linesGrid = tableLayout.rowLines[rIdx];
+        table.data.forEach((row, rIdx) => {
+            const h = tableLayout.rowHeights[rIdx];
+            const linesGrid = tableLayout.rowLines[rIdx];
         
-        // Zebra Striping
-        if (rIdx % 2 === 0) {
-            ctx.fillStyle = 'rgba(255, 255, 255, 0.03)';
-            ctx.fillRect(margin, tableY, contentWidth, h);
-        }
-        // Thin Separator
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
-        ctx.fillRect(margin, tableY + h - 1, contentWidth, 1);
+            // Zebra Striping
+            if (rIdx % 2 === 0) {
+                ctx.fillStyle = 'rgba(255, 255, 255, 0.03)';
+                ctx.fillRect(margin, tableY, contentWidth, h);
+            }
+            // Thin Separator
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+            ctx.fillRect(margin, tableY + h - 1, contentWidth, 1);
 
-        row.forEach((cell, cIdx) => {
-             const x = margin + (cIdx * colWidth) + cellPadding;
-             const lines = linesGrid[cIdx];
+            row.forEach((cell, cIdx) => {
+                 const x = margin + (cIdx * colWidth) + cellPadding;
+                 const lines = linesGrid[cIdx];
              
-             if (cIdx === 0) {
-                ctx.fillStyle = themeStyle.subjectColor;
-                ctx.font = `bold ${fontSize}px ${themeStyle.fontMain}`;
-             } else {
-                ctx.fillStyle = themeStyle.valueColor;
-                ctx.font = `${fontSize}px ${themeStyle.fontMain}`;
-             }
-
-             // Vertically center text in row cell
-             const textH = lines.length * lHeight;
-             const startY = tableY + (h - textH) / 2;
-
-             lines.forEach((line, lIdx) => {
-                 ctx.fillText(line, x, startY + (lIdx * lHeight));
-             });
+                 if (cIdx === 0) {
+                    ctx.fillStyle = themeStyle.subjectColor;
+                    ctx.font = `bold ${fontSize}px ${fonts.subject}`;
+                 } else {
+                    ctx.fillStyle = themeStyle.valueColor;
+                    ctx.font = `${fontSize}px ${fonts.value}`;
+                 }
+
+                 // Vertically center text in row cell
+                 const textH = lines.length * lHeight;
+                 const startY = tableY + (h - textH) / 2;
+
+                 lines.forEach((line, lIdx) => {
+                     ctx.fillText(line, x, startY + (lIdx * lHeight));
+                 });
+            });
+
+            tableY += h;
         });
-
-        tableY += h;
-    });
+    }
 
     // Draw Footer
     const footerY = height - margin - 60;
@@ -322,11 +360,8 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
         }).join(', '); 
         
         // Truncate sources if extremely long
-        let printSource = sourceText;
-        if(ctx.measureText(printSource).width > contentWidth * 0.5) {
-             printSource = getLines(ctx, sourceText, contentWidth * 0.5)[0] + "...";
-        }
-        ctx.fillText(printSource.toUpperCase(), margin, footerY);
+        const printSource = layoutText(ctx, sourceText.toUpperCase(), { maxWidth: contentWidth * 0.5, maxLines: 1 }).lines[0];
+        ctx.fillText(printSource, margin, footerY);
     }
     
     // --- BRANDING ---
@@ -407,5 +442,14 @@ export async function renderTableImage(data: TableData, config: AnimationConfig,
          ctx.restore();
     }
 
-    return canvas.toDataURL('image/png');
+    return canvas;
+}
+
+
+// Small JPEG preview of the social post, used for project library thumbnails
+export async function renderThumbnail(data: TableData, config: AnimationConfig, width: number = 240): Promise<string> {
+    // Drawn straight at thumbnail size; autosave calls this on every edit
+    const fullWidth = getFrameSize({ aspectRatio: config.aspectRatio, resolution: Resolution.UHD }).width;
+    const canvas = await drawTableImage(data, config, undefined, width / fullWidth);
+    return canvas.toDataURL('image/jpeg', 0.7);
 }
@@ -0,0 +1,239 @@
+// Minimal MP4 (ISO BMFF) writer for WebCodecs H.264/AAC output.
+// Like the WebM writer, samples are buffered and the file is laid out in
+// finalize(). The moov box goes before mdat ("faststart") so social platforms
+// can start processing the upload before they have the whole file.
+
+export interface Mp4VideoTrack {
+    width: number;
+    height: number;
+    frameRate: number;
+}
+
+export interface Mp4AudioTrack {
+    sampleRate: number;
+    numberOfChannels: number;
+}
+
+interface StoredSample {
+    timestampUs: number;
+    durationUs: number;
+    isKey: boolean;
+    data: Uint8Array<ArrayBuffer>;
+}
+
+interface TrackState {
+    id: number;
+    timescale: number;
+    samples: StoredSample[];
+    description?: Uint8Array;
+}
+
+const VIDEO_TIMESCALE = 90000;
+const MOVIE_TIMESCALE = 1000;
+
+// --- Box encoding ---
+
+const concat = (parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const p of parts) {
+        out.set(p, offset);
+        offset += p.length;
+    }
+    return out;
+};
+
+const u8 = (v: number) => new Uint8Array([v & 0xff]);
+const u16 = (v: number) => new Uint8Array([(v >> 8) & 0xff, v & 0xff]);
+const u32 = (v: number) => {
+    const out = new Uint8Array(4);
+    new DataView(out.buffer).setUint32(0, v);
+    return out;
+};
+const ascii = (text: string) => new TextEncoder().encode(text);
+const zeros = (n: number) => new Uint8Array(n);
+
+const box = (type: string, ...payload: Uint8Array[]) => {
+    const body = concat(payload);
+    return concat([u32(8 + body.length), ascii(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]) =>
+    box(type, u8(version), u8(flags >> 16), u16(flags & 0xffff), ...payload);
+
+// Identity transform for tkhd/mvhd
+const MATRIX = concat([u32(0x00010000), u32(0), u32(0), u32(0), u32(0x00010000), u32(0), u32(0), u32(0), u32(0x40000000)]);
+
+const toTimescale = (us: number, timescale: number) => Math.round((us * timescale) / 1e6);
+
+const toBytes = (source: AllowSharedBufferSource) =>
+    ArrayBuffer.isView(source)
+        ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+        : new Uint8Array(source).slice();
+
+// AAC-LC AudioSpecificConfig, used when the encoder doesn't hand one over
+const buildAudioSpecificConfig = (sampleRate: number, channels: number) => {
+    const rates = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+    const index = Math.max(0, rates.indexOf(sampleRate));
+    return new Uint8Array([(2 << 3) | (index >> 1), ((index & 1) << 7) | (channels << 3)]);
+};
+
+// MPEG-4 descriptors use a variable length size; always write the 4-byte form
+const descriptor = (tag: number, ...payload: Uint8Array[]) => {
+    const body = concat(payload);
+    const n = body.length;
+    return concat([u8(tag), new Uint8Array([0x80 | ((n >> 21) & 0x7f), 0x80 | ((n >> 14) & 0x7f), 0x80 | ((n >> 7) & 0x7f), n & 0x7f]), body]);
+};
+
+export class Mp4Muxer {
+    private videoTrack: TrackState;
+    private audioTrack: TrackState | null;
+
+    constructor(private video: Mp4VideoTrack, private audio: Mp4AudioTrack | null) {
+        this.videoTrack = { id: 1, timescale: VIDEO_TIMESCALE, samples: [] };
+        this.audioTrack = audio ? { id: 2, timescale: audio.sampleRate, samples: [] } : null;
+    }
+
+    addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) {
+        const description = meta?.decoderConfig?.description;
+        if (description && !this.videoTrack.description) this.videoTrack.description = toBytes(description);
+        this.store(this.videoTrack, chunk);
+    }
+
+    addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) {
+        if (!this.audioTrack) return;
+        const description = meta?.decoderConfig?.description;
+        if (description && !this.audioTrack.description) this.audioTrack.description = toBytes(description);
+        this.store(this.audioTrack, chunk);
+    }
+
+    private store(track: TrackState, chunk: EncodedVideoChunk | EncodedAudioChunk) {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        track.samples.push({ timestampUs: chunk.timestamp, durationUs: chunk.duration ?? 0, isKey: chunk.type === 'key', data });
+    }
+
+    finalize(): Blob {
+        if (!this.videoTrack.description) {
+            throw new Error("H.264 encoder did not provide an avcC configuration");
+        }
+        const tracks = [this.videoTrack, ...(this.audioTrack ? [this.audioTrack] : [])];
+        tracks.forEach(t => t.samples.sort((a, b) => a.timestampUs - b.timestampUs));
+
+        // Interleave samples by time; each sample is its own chunk, which keeps stsc trivial
+        const order = tracks
+            .flatMap(track => track.samples.map(sample => ({ track, sample })))
+            .sort((a, b) => a.sample.timestampUs - b.sample.timestampUs || a.track.id - b.track.id);
+
+        const ftyp = box('ftyp', ascii('isom'), u32(0x200), ascii('isom'), ascii('iso2'), ascii('avc1'), ascii('mp41'));
+
+        // stco entries are fixed width, so the moov size doesn't depend on the offsets.
+        // Build once to measure, then again with the real offsets.
+        const buildMoov = (offsets: Map<StoredSample, number>) => this.buildMoov(tracks, offsets);
+        const placeholder = new Map<StoredSample, number>();
+        const moovSize = buildMoov(placeholder).length;
+
+        const mdatPayloadSize = order.reduce((n, o) => n + o.sample.data.length, 0);
+        if (ftyp.length + moovSize + 8 + mdatPayloadSize > 0xffffffff) {
+            throw new Error("Video is too large for a 32-bit MP4");
+        }
+
+        const offsets = new Map<StoredSample, number>();
+        let position = ftyp.length + moovSize + 8;
+        for (const { sample } of order) {
+            offsets.set(sample, position);
+            position += sample.data.length;
+        }
+        const moov = buildMoov(offsets);
+
+        const mdatHeader = concat([u32(8 + mdatPayloadSize), ascii('mdat')]);
+        return new Blob([ftyp, moov, mdatHeader, ...order.map(o => o.sample.data)], { type: 'video/mp4' });
+    }
+
+    private sampleDurations(track: TrackState) {
+        const { samples, timescale } = track;
+        return samples.map((sample, i) => {
+            const next = samples[i + 1];
+            if (next) return toTimescale(next.timestampUs, timescale) - toTimescale(sample.timestampUs, timescale);
+            if (sample.durationUs) return toTimescale(sample.durationUs, timescale);
+            return track === this.videoTrack ? Math.round(timescale / this.video.frameRate) : 1024;
+        });
+    }
+
+    private buildMoov(tracks: TrackState[], offsets: Map<StoredSample, number>) {
+        const durations = tracks.map(t => this.sampleDurations(t));
+        const mediaDurations = durations.map(d => d.reduce((n, v) => n + v, 0));
+        const movieDurations = tracks.map((t, i) => Math.round((mediaDurations[i] * MOVIE_TIMESCALE) / t.timescale));
+        const movieDuration = Math.max(0, ...movieDurations);
+
+        const mvhd = fullBox('mvhd', 0, 0,
+            u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(movieDuration),
+            u32(0x00010000), u16(0x0100), zeros(10), MATRIX, zeros(24), u32(tracks.length + 1)
+        );
+
+        const traks = tracks.map((track, i) => {
+            const isVideo = track === this.videoTrack;
+            const tkhd = fullBox('tkhd', 0, 0x3,
+                u32(0), u32(0), u32(track.id), u32(0), u32(movieDurations[i]), zeros(8),
+                u16(0), u16(isVideo ? 0 : 1), u16(isVideo ? 0 : 0x0100), u16(0), MATRIX,
+                u32(isVideo ? this.video.width << 16 : 0), u32(isVideo ? this.video.height << 16 : 0)
+            );
+            const mdhd = fullBox('mdhd', 0, 0, u32(0), u32(0), u32(track.timescale), u32(mediaDurations[i]), u16(0x55c4), u16(0)); // 'und'
+            const hdlr = fullBox('hdlr', 0, 0, u32(0), ascii(isVideo ? 'vide' : 'soun'), zeros(12), ascii(isVideo ? 'VideoHandler\0' : 'SoundHandler\0'));
+            const mediaHeader = isVideo ? fullBox('vmhd', 0, 1, zeros(8)) : fullBox('smhd', 0, 0, zeros(4));
+            const dinf = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+            const stbl = this.buildStbl(track, durations[i], offsets);
+            return box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', mediaHeader, dinf, stbl)));
+        });
+
+        return box('moov', mvhd, ...traks);
+    }
+
+    private buildStbl(track: TrackState, durations: number[], offsets: Map<StoredSample, number>) {
+        const isVideo = track === this.videoTrack;
+        const { samples } = track;
+
+        let sampleEntry: Uint8Array;
+        if (isVideo) {
+            sampleEntry = box('avc1',
+                zeros(6), u16(1), zeros(16), u16(this.video.width), u16(this.video.height),
+                u32(0x00480000), u32(0x00480000), u32(0), u16(1), zeros(32), u16(0x18), u16(0xffff),
+                box('avcC', track.description!)
+            );
+        } else {
+            const audio = this.audio!;
+            const asc = track.description || buildAudioSpecificConfig(audio.sampleRate, audio.numberOfChannels);
+            const esds = fullBox('esds', 0, 0, descriptor(0x03,
+                u16(track.id), u8(0),
+                descriptor(0x04, u8(0x40), u8(0x15), zeros(3), u32(0), u32(0), descriptor(0x05, asc)),
+                descriptor(0x06, u8(0x02))
+            ));
+            sampleEntry = box('mp4a',
+                zeros(6), u16(1), zeros(8), u16(audio.numberOfChannels), u16(16), zeros(4), u32(audio.sampleRate << 16),
+                esds
+            );
+        }
+        const stsd = fullBox('stsd', 0, 0, u32(1), sampleEntry);
+
+        // Run-length encode durations
+        const runs: [number, number][] = [];
+        for (const d of durations) {
+            const last = runs[runs.length - 1];
+            if (last && last[1] === d) last[0]++;
+            else runs.push([1, d]);
+        }
+        const stts = fullBox('stts', 0, 0, u32(runs.length), ...runs.flatMap(([count, delta]) => [u32(count), u32(delta)]));
+
+        const stsc = fullBox('stsc', 0, 0, u32(1), u32(1), u32(1), u32(1));
+        const stsz = fullBox('stsz', 0, 0, u32(0), u32(samples.length), ...samples.map(s => u32(s.data.length)));
+        const stco = fullBox('stco', 0, 0, u32(samples.length), ...samples.map(s => u32(offsets.get(s) ?? 0)));
+
+        const boxes = [stsd, stts];
+        if (isVideo) {
+            const keys = samples.flatMap((s, i) => s.isKey ? [u32(i + 1)] : []);
+            boxes.push(fullBox('stss', 0, 0, u32(keys.length), ...keys));
+        }
+        boxes.push(stsc, stsz, stco);
+        return box('stbl', ...boxes);
+    }
+}
@@ -0,0 +1,86 @@
+import { TableData, AnimationConfig, TableNarration, NarrationLine, RowNarration } from '../types';
+import { getSceneTimeline } from './sceneRenderer';
+
+// Narration can be written a line per row or a line per step; both are stored the same way
+export type NarrationMode = 'row' | 'step';
+
+// A place in the table that can carry a line
+export interface NarrationSlot {
+    rowIdx: number;
+    subject: string;
+    column?: string;   // unset for the row's own line
+    label: string;
+    suggested: string; // what is said when the line has no text of its own
+    line?: NarrationLine;
+}
+
+/**
+ * Default wording from the cells as drawn, e.g. "एसिया — देश संख्या ४८". A row
+ * line covers every value; a step line names the subject only on the row's
+ * first step.
+ */
+function suggestLine(table: TableData, rowIdx: number, attrIdxs: number[], withSubject: boolean): string {
+    const row = table.data[rowIdx] ?? [];
+    const values = attrIdxs
+        .map(attrIdx => [table.columns[attrIdx + 1], row[attrIdx + 1]])
+        .filter(([, value]) => value?.trim())
+        .map(([column, value]) => `${column} ${value}`)
+        .join(', ');
+    return withSubject ? [row[0], values].filter(Boolean).join(' — ') : values;
+}
+
+/** Every line the table can carry in the given mode, in playback order. Skipped steps have none. */
+export function getNarrationSlots(table: TableData, config: AnimationConfig, narration: TableNarration | undefined, mode: NarrationMode): NarrationSlot[] {
+    const timeline = getSceneTimeline(table, config);
+    const slots: NarrationSlot[] = [];
+    table.data.forEach((row, rowIdx) => {
+        const subject = row[0] ?? '';
+        const steps = timeline.steps.filter(step => step.rowIdx === rowIdx);
+        if (!steps.length) return;
+        if (mode === 'row') {
+            slots.push({
+                rowIdx, subject, label: subject || `Row ${rowIdx + 1}`,
+                suggested: suggestLine(table, rowIdx, steps.map(step => step.attrIdx), true),
+                line: narration?.[subject]?.row,
+            });
+            return;
+        }
+        steps.forEach((step, i) => {
+            const column = table.columns[step.attrIdx + 1] ?? '';
+            slots.push({
+                rowIdx, subject, column, label: `${subject || `Row ${rowIdx + 1}`} · ${column}`,
+                suggested: suggestLine(table, rowIdx, [step.attrIdx], i === 0 && !narration?.[subject]?.row),
+                line: narration?.[subject]?.steps?.[column],
+            });
+        });
+    });
+    return slots;
+}
+
+export const slotText = (slot: NarrationSlot) => slot.line?.text.trim() || slot.suggested;
+
+// Drop empty entries so the project only holds lines that say something
+const cleanRow = (row: RowNarration): RowNarration | undefined => {
+    const cleaned: RowNarration = {};
+    if (row.row) cleaned.row = row.row;
+    if (row.steps && Object.keys(row.steps).length) cleaned.steps = row.steps;
+    return Object.keys(cleaned).length ? cleaned : undefined;
+};
+
+/** Sets (or with no line, removes) one slot's line. Returns undefined once nothing is left. */
+export function setNarrationLine(narration: TableNarration | undefined, slot: NarrationSlot, line: NarrationLine | undefined): TableNarration | undefined {
+    const next = { ...narration };
+    const row: RowNarration = { ...next[slot.subject] };
+    if (slot.column === undefined) {
+        row.row = line;
+    } else {
+        const steps = { ...row.steps };
+        if (line) steps[slot.column] = line;
+        else delete steps[slot.column];
+        row.steps = steps;
+    }
+    const cleaned = cleanRow(row);
+    if (cleaned) next[slot.subject] = cleaned;
+    else delete next[slot.subject];
+    return Object.keys(next).length ? next : undefined;
+}
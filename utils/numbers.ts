@@ -0,0 +1,27 @@
+// Numbers arrive as table text: "२९.९२", "1,234", "12%", "रु. 500".
+// Everything here works on that text; the cells themselves are never rewritten.
+
+const DEVANAGARI_ZERO = 0x0966;
+
+/** Replaces Devanagari digits (० to ९) with ASCII ones. */
+export const toAsciiDigits = (text: string) =>
+    text.replace(/[०-९]/g, d => String(d.charCodeAt(0) - DEVANAGARI_ZERO));
+
+// Units and currency markers that may surround a number without changing it
+const AFFIXES = /^(?:रु\.?|rs\.?|npr|\$|₹)\s*|\s*(?:%|प्रतिशत)$/gi;
+
+// Cells that mean "no value" rather than "not a number"
+const MISSING = /^[\s\-–—]*$|^(?:n\/a|na)$/i;
+
+export const isMissingValue = (text: string) => MISSING.test(text.trim());
+
+/** Reads a table cell as a number, or null if it isn't one. */
+export function parseNumber(text: string): number | null {
+    const cleaned = toAsciiDigits(text.trim()).replace(AFFIXES, '').replace(/[,\s]/g, '');
+    if (!/^[-+]?(?:\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+    return parseFloat(cleaned);
+}
+
+/** Replaces ASCII digits with Devanagari ones. */
+export const toDevanagariDigits = (text: string) =>
+    text.replace(/[0-9]/g, d => String.fromCharCode(DEVANAGARI_ZERO + Number(d)));
@@ -0,0 +1,309 @@
+// Presentations: several tables and cards played back to back as one video.
+// A presentation is planned into absolute times once, then the preview and the
+// exporter both draw any instant of it through drawPresentationFrame.
+import { TableData, AnimationConfig, Presentation, PresentationScene, SceneKind, SceneOverrides, SceneTransition, TransitionKind, TableNarration, SfxEvent } from '../types';
+import { VoiceClip, SoundCue, VOICE_LEAD_IN } from './audioSynth';
+import { resolveSound } from './soundEffects';
+import {
+    SceneAssets, SceneTimeline, CardContent, getSceneTimeline, getStepChanges, loadSceneAssets, describeScene, drawScene, drawCard, resolveFonts,
+} from './sceneRenderer';
+import { getRenderTable } from './tableView';
+import { ChartSeries, getChartSeries } from './chartRenderer';
+
+export const SCENE_KIND_LABELS: Record<SceneKind, string> = {
+    table: 'Table',
+    intro: 'Intro',
+    title: 'Title card',
+    outro: 'Outro',
+};
+
+export const TRANSITION_LABELS: Record<TransitionKind, string> = {
+    cut: 'Cut',
+    fade: 'Crossfade',
+    slide: 'Slide',
+    zoom: 'Zoom',
+};
+
+export const DEFAULT_CARD_DURATION = 4; // seconds
+export const DEFAULT_TRANSITION: SceneTransition = { kind: 'fade', duration: 0.8 };
+
+// Settings a table brings with it when it's added as a scene of its own
+const TABLE_SETTINGS: (keyof SceneOverrides)[] = [
+    'rowTimings', 'columnTypes', 'numberFormat', 'dateFormat', 'dateRange', 'view', 'chart', 'revealBy',
+];
+
+// The project's design without the settings keyed to its own table, for rendering a different table
+export const stripTableSettings = (config: AnimationConfig): AnimationConfig => {
+    const stripped = { ...config };
+    TABLE_SETTINGS.forEach(key => { delete stripped[key]; });
+    return stripped;
+};
+
+let nextSceneId = 0;
+const newSceneId = () => `scene-${Date.now().toString(36)}-${nextSceneId++}`;
+
+export function createScene(kind: SceneKind, data?: TableData, config?: AnimationConfig): PresentationScene {
+    const scene: PresentationScene = { id: newSceneId(), kind, transition: DEFAULT_TRANSITION };
+    if (data) {
+        scene.data = data;
+        // Row timings, column types and the like are keyed to this table, so they travel with it
+        const overrides: SceneOverrides = {};
+        const copy = <K extends keyof SceneOverrides>(key: K) => {
+            if (config?.[key] !== undefined) overrides[key] = config[key];
+        };
+        TABLE_SETTINGS.forEach(copy);
+        if (Object.keys(overrides).length) scene.overrides = overrides;
+    }
+    return scene;
+}
+
+// A new presentation opens on the project's title, plays its table and closes on its sources
+export const createPresentation = (): Presentation => ({
+    scenes: [createScene('intro'), createScene('table'), createScene('outro')],
+});
+
+export interface PlannedScene {
+    scene: PresentationScene;
+    index: number;
+    config: AnimationConfig;
+    table: TableData | null;         // table scenes, as rendered
+    timeline: SceneTimeline | null;  // table scenes
+    chart: ChartSeries | null;       // table scenes drawn as a chart
+    card: CardContent | null;        // intro, title and outro scenes
+    start: number;                   // ms
+    duration: number;                // ms
+    transition: SceneTransition;     // into this scene; its duration overlaps the previous scene
+}
+
+export interface PresentationPlan {
+    scenes: PlannedScene[];
+    totalRunTime: number; // ms
+    voiceClips: VoiceClip[];
+}
+
+const sceneTable = (scene: PresentationScene, data: TableData) => scene.data ?? data;
+
+/**
+ * Lays the scenes out on one clock. Without a presentation (or with no
+ * scenes) the plan is the project's table alone, timed exactly as before.
+ */
+export function planPresentation(
+    presentation: Presentation | undefined,
+    data: TableData,
+    config: AnimationConfig,
+    voicePcm: string | null,
+    narration?: TableNarration
+): PresentationPlan {
+    const scenes = presentation?.scenes.length ? presentation.scenes : [createScene('table')];
+    const tables = scenes.filter(s => s.kind === 'table').map(s => sceneTable(s, data));
+    const firstTitle = tables.find(t => t.title)?.title ?? '';
+    const sources = [...new Set(tables.flatMap(t => t.sources ?? []))];
+
+    const planned: PlannedScene[] = [];
+    const voiceClips: VoiceClip[] = [];
+    let end = 0;
+
+    scenes.forEach((scene, index) => {
+        // The frame and branding are shared by the whole video. A table of its own
+        // doesn't inherit the project table's row timings, filters and such.
+        const base = scene.data ? stripTableSettings(config) : config;
+        const sceneConfig: AnimationConfig = {
+            ...base,
+            ...scene.overrides,
+            aspectRatio: config.aspectRatio,
+            resolution: config.resolution,
+            showAppName: config.showAppName,
+            showAiWatermark: config.showAiWatermark,
+            fonts: config.fonts,
+            audio: config.audio,
+        };
+        // A scene that picks a built-in theme drops the project's custom one, which would otherwise win
+        if (scene.overrides?.theme && !scene.overrides.customTheme) sceneConfig.customTheme = undefined;
+        const transition = index === 0 || !scene.transition ? { kind: 'cut' as const, duration: 0 } : scene.transition;
+
+        let table: TableData | null = null;
+        let timeline: SceneTimeline | null = null;
+        let chart: ChartSeries | null = null;
+        let card: CardContent | null = null;
+        let duration: number;
+        if (scene.kind === 'table') {
+            table = getRenderTable(sceneTable(scene, data), sceneConfig);
+            timeline = getSceneTimeline(table, sceneConfig, scene.data ? scene.narration : narration);
+            chart = getChartSeries(table, sceneConfig);
+            duration = timeline.totalRunTime;
+        } else {
+            card = {
+                kind: scene.kind,
+                heading: scene.heading ?? firstTitle,
+                subheading: scene.subheading ?? '',
+                lines: scene.kind === 'outro' ? sources : [],
+            };
+            duration = (scene.duration ?? DEFAULT_CARD_DURATION) * 1000;
+        }
+
+        // A transition can't take longer than either scene it joins
+        const previous = planned[planned.length - 1];
+        const overlap = transition.kind === 'cut' || !previous ? 0
+            : Math.min(transition.duration * 1000, previous.duration / 2, duration / 2);
+        const start = Math.max(0, end - overlap);
+        planned.push({ scene, index, config: sceneConfig, table, timeline, chart, card, start, duration, transition: { ...transition, duration: overlap / 1000 } });
+        end = start + duration;
+
+        // Step narration is spoken with its steps and replaces a voiceover for the whole table.
+        // Otherwise the project's table speaks with the project's voiceover unless the scene has its own.
+        if (timeline?.narration.length) {
+            timeline.narration.forEach(cue => voiceClips.push({ pcm: cue.pcm, start: (start + cue.start) / 1000 }));
+        } else {
+            const voiceover = scene.voicePcm ?? (scene.kind === 'table' && !scene.data ? voicePcm : null);
+            if (voiceover) voiceClips.push({ pcm: voiceover, start: start / 1000 + VOICE_LEAD_IN });
+        }
+    });
+
+    return { scenes: planned, totalRunTime: end, voiceClips };
+}
+
+/**
+ * Every sound effect in the presentation, in order: each step change and scene
+ * change, plus the intro and outro. Without intro or outro cards those play
+ * as the first table starts and as the last one finishes.
+ */
+export function getPresentationSoundCues(plan: PresentationPlan): SoundCue[] {
+    const events: { time: number; event: SfxEvent; planned: PlannedScene }[] = [];
+    plan.scenes.forEach(p => {
+        const start = p.start / 1000;
+        if (p.scene.kind === 'intro' || p.scene.kind === 'outro') events.push({ time: start, event: p.scene.kind, planned: p });
+        else if (p.index > 0) events.push({ time: start, event: 'scene', planned: p });
+        if (p.timeline) {
+            getStepChanges(p.timeline).forEach(change => {
+                events.push({ time: start + change.time, event: change.rowStart ? 'row' : 'attribute', planned: p });
+            });
+        }
+    });
+
+    const first = plan.scenes[0];
+    const last = plan.scenes[plan.scenes.length - 1];
+    if (first && first.scene.kind !== 'intro') events.push({ time: first.start / 1000, event: 'intro', planned: first });
+    if (last?.timeline) events.push({ time: (last.start + last.timeline.totalDuration) / 1000, event: 'outro', planned: last });
+
+    // Each scene sounds the way its own style or theme asks
+    return events
+        .map(({ time, event, planned }) => ({ time, sound: resolveSound(planned.config.audio?.effects, event, planned.config) }))
+        .filter(cue => cue.sound !== 'none')
+        .sort((a, b) => a.time - b.time);
+}
+
+// The scene on screen at `elapsed`, ignoring any transition into the next one
+export function findPlannedScene(plan: PresentationPlan, elapsed: number): number {
+    let found = 0;
+    plan.scenes.forEach((p, i) => {
+        if (p.start <= elapsed) found = i;
+    });
+    return found;
+}
+
+// Changes only when a scene's fonts or background image change, so assets aren't reloaded on every edit
+export function getAssetKey(plan: PresentationPlan): string {
+    return plan.scenes.map(p => {
+        const bg = p.config.backgroundImage;
+        return `${Object.values(resolveFonts(p.config)).join('|')}#${bg ? bg.length + bg.slice(-32) : ''}`;
+    }).join(';');
+}
+
+// One set of assets per planned scene; scenes sharing a background share the load
+export async function loadPresentationAssets(plan: PresentationPlan, logoSrc: string | undefined): Promise<SceneAssets[]> {
+    const loads = new Map<string, Promise<SceneAssets>>();
+    return Promise.all(plan.scenes.map(p => {
+        const key = `${Object.values(resolveFonts(p.config)).join('|')}#${p.config.backgroundImage ?? ''}`;
+        let load = loads.get(key);
+        if (!load) {
+            load = loadSceneAssets(p.config, logoSrc);
+            loads.set(key, load);
+        }
+        return load;
+    }));
+}
+
+const NO_ASSETS: SceneAssets = { bgImage: null, logoImage: null };
+
+function drawPlannedScene(ctx: CanvasRenderingContext2D, planned: PlannedScene, elapsed: number, assets: SceneAssets) {
+    const local = Math.max(0, elapsed - planned.start);
+    if (planned.table && planned.timeline) {
+        drawScene(ctx, describeScene(planned.table, planned.timeline, local), planned.config, assets, planned.chart);
+    } else if (planned.card) {
+        drawCard(ctx, planned.card, local, planned.duration, planned.config, assets);
+    }
+}
+
+// Offscreen frames for the two scenes of a transition, reused between frames
+const buffers: HTMLCanvasElement[] = [];
+const getBuffer = (index: number, width: number, height: number) => {
+    const canvas = buffers[index] ?? (buffers[index] = document.createElement('canvas'));
+    if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+    }
+    return canvas.getContext('2d')!;
+};
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Draws the presentation `elapsed` ms in. During a transition both scenes are
+ * drawn offscreen and composited; otherwise the scene draws straight into ctx.
+ */
+export function drawPresentationFrame(ctx: CanvasRenderingContext2D, plan: PresentationPlan, elapsed: number, assets: SceneAssets[]) {
+    const index = findPlannedScene(plan, elapsed);
+    const incoming = plan.scenes[index];
+    const outgoing = plan.scenes[index - 1];
+    const into = elapsed - incoming.start;
+    const transitionTime = incoming.transition.duration * 1000;
+
+    if (!outgoing || into >= transitionTime) {
+        drawPlannedScene(ctx, incoming, elapsed, assets[index] ?? NO_ASSETS);
+        return;
+    }
+
+    const { width, height } = ctx.canvas;
+    const from = getBuffer(0, width, height);
+    const to = getBuffer(1, width, height);
+    drawPlannedScene(from, outgoing, elapsed, assets[index - 1] ?? NO_ASSETS);
+    drawPlannedScene(to, incoming, elapsed, assets[index] ?? NO_ASSETS);
+
+    const t = smoothstep(Math.max(0, Math.min(1, into / transitionTime)));
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = 1;
+    switch (incoming.transition.kind) {
+        case 'slide':
+            ctx.drawImage(from.canvas, -t * width, 0);
+            ctx.drawImage(to.canvas, (1 - t) * width, 0);
+            break;
+        case 'zoom': {
+            // The old scene grows and fades away over the new one
+            ctx.drawImage(to.canvas, 0, 0);
+            const scale = 1 + 0.25 * t;
+            ctx.globalAlpha = 1 - t;
+            ctx.translate(width / 2, height / 2);
+            ctx.scale(scale, scale);
+            ctx.drawImage(from.canvas, -width / 2, -height / 2);
+            break;
+        }
+        case 'fade':
+        default:
+            ctx.drawImage(from.canvas, 0, 0);
+            ctx.globalAlpha = t;
+            ctx.drawImage(to.canvas, 0, 0);
+            break;
+    }
+    ctx.restore();
+}
+
+// The instant the paused preview shows: the project's own table part-way into its first step
+export function getIdleTime(plan: PresentationPlan): number {
+    const planned = plan.scenes.find(p => p.scene.kind === 'table' && !p.scene.data) ?? plan.scenes[0];
+    if (!planned) return 0;
+    if (!planned.timeline) return planned.start + Math.min(planned.duration, 1500);
+    const first = planned.timeline.steps[0];
+    // Past the transition, so the paused frame is the scene alone
+    return planned.start + planned.transition.duration * 1000 + (first?.duration ?? planned.timeline.durationPerItem) / 2;
+}
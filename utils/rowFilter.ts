@@ -0,0 +1,178 @@
+import { TableData, AnimationConfig, ColumnType } from '../types';
+import { getColumnType, parseCell, isNumericType, isDateType, COLUMN_TYPE_LABELS } from './columnFormat';
+
+// Row filter expressions for the table view, e.g.
+//   [को भू-भाग (%)] > 10 and महादेश != युरोप
+//   (देश संख्या >= 40 or महादेश ~ अमेरिका) and not महादेश = एसिया
+// Columns are written bare, in [brackets] or in "quotes"; values the same way.
+// Numbers and dates compare by value using the column's type.
+
+export type RowPredicate = (row: string[]) => boolean;
+
+type Operator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~';
+
+type Token =
+    | { kind: 'word'; text: string }
+    | { kind: 'quoted'; text: string }
+    | { kind: 'op'; op: Operator }
+    | { kind: 'and' | 'or' | 'not' | '(' | ')' };
+
+const OPERATORS: [string, Operator][] = [
+    ['>=', '>='], ['<=', '<='], ['!=', '!='], ['<>', '!='], ['==', '='], ['=', '='], ['>', '>'], ['<', '<'], ['~', '~'],
+];
+
+const KEYWORDS: Record<string, Token> = {
+    and: { kind: 'and' }, '&&': { kind: 'and' },
+    or: { kind: 'or' }, '||': { kind: 'or' },
+    not: { kind: 'not' },
+    contains: { kind: 'op', op: '~' },
+};
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) { i++; continue; }
+        if (ch === '(' || ch === ')') { tokens.push({ kind: ch }); i++; continue; }
+
+        const closer = ch === '[' ? ']' : ch === '"' || ch === "'" ? ch : null;
+        if (closer) {
+            const end = text.indexOf(closer, i + 1);
+            if (end < 0) throw new Error(`Missing closing ${closer} in the filter.`);
+            tokens.push({ kind: 'quoted', text: text.slice(i + 1, end) });
+            i = end + 1;
+            continue;
+        }
+
+        const op = OPERATORS.find(([symbol]) => text.startsWith(symbol, i));
+        if (op) { tokens.push({ kind: 'op', op: op[1] }); i += op[0].length; continue; }
+        if (text.startsWith('&&', i) || text.startsWith('||', i)) {
+            tokens.push(KEYWORDS[text.slice(i, i + 2)]);
+            i += 2;
+            continue;
+        }
+        if (ch === '!') { tokens.push({ kind: 'not' }); i++; continue; }
+
+        let end = i;
+        while (end < text.length && !/[\s()[\]"'<>=!~&|]/.test(text[end])) end++;
+        const word = text.slice(i, end);
+        tokens.push(KEYWORDS[word.toLowerCase()] ?? { kind: 'word', text: word });
+        i = end;
+    }
+    return tokens;
+}
+
+const findColumn = (data: TableData, name: string): number => {
+    const exact = data.columns.indexOf(name);
+    if (exact >= 0) return exact;
+    const key = name.trim().toLowerCase();
+    return data.columns.findIndex(col => col.trim().toLowerCase() === key);
+};
+
+function compare(type: ColumnType, op: Operator, cell: string, value: string, parsedValue: number | null): boolean {
+    if (op === '~') return cell.toLowerCase().includes(value.toLowerCase());
+    if (parsedValue !== null) {
+        const parsed = parseCell(cell, type);
+        if (parsed === null) return op === '!=';
+        switch (op) {
+            case '=': return parsed === parsedValue;
+            case '!=': return parsed !== parsedValue;
+            case '>': return parsed > parsedValue;
+            case '>=': return parsed >= parsedValue;
+            case '<': return parsed < parsedValue;
+            case '<=': return parsed <= parsedValue;
+        }
+    }
+    const order = cell.trim().localeCompare(value.trim(), 'ne', { sensitivity: 'base', numeric: true });
+    switch (op) {
+        case '=': return order === 0;
+        case '!=': return order !== 0;
+        case '>': return order > 0;
+        case '>=': return order >= 0;
+        case '<': return order < 0;
+        case '<=': return order <= 0;
+    }
+}
+
+/**
+ * Compiles a filter expression against the table's columns. Throws an Error
+ * with a message for the user when the expression can't be used.
+ */
+export function compileFilter(data: TableData, config: AnimationConfig, expression: string): RowPredicate {
+    const tokens = tokenize(expression);
+    let pos = 0;
+    const peek = () => tokens[pos];
+
+    // Bare words run until an operator, keyword or parenthesis, so headers with spaces need no quotes
+    const readText = (what: string): string => {
+        const token = peek();
+        if (token?.kind === 'quoted') { pos++; return token.text; }
+        const words: string[] = [];
+        while (peek()?.kind === 'word') words.push((tokens[pos++] as { text: string }).text);
+        if (!words.length) throw new Error(`Expected ${what} in the filter.`);
+        return words.join(' ');
+    };
+
+    const parseComparison = (): RowPredicate => {
+        const name = readText('a column name');
+        const col = findColumn(data, name);
+        if (col < 0) throw new Error(`The filter names a column that doesn't exist: "${name}".`);
+        const opToken = peek();
+        if (opToken?.kind !== 'op') throw new Error(`Expected a comparison like =, >, or ~ after "${name}".`);
+        pos++;
+        const value = readText(`a value after "${name}"`);
+
+        const type = getColumnType(data, config, col);
+        const typed = opToken.op !== '~' && (isNumericType(type) || isDateType(type));
+        const parsedValue = typed ? parseCell(value, type) : null;
+        if (typed && parsedValue === null && opToken.op !== '=' && opToken.op !== '!=') {
+            throw new Error(`"${value}" isn't a ${COLUMN_TYPE_LABELS[type].toLowerCase()} value for "${data.columns[col]}".`);
+        }
+        return row => compare(type, opToken.op, row[col] ?? '', value, parsedValue);
+    };
+
+    const parseUnary = (): RowPredicate => {
+        const token = peek();
+        if (token?.kind === 'not') {
+            pos++;
+            const inner = parseUnary();
+            return row => !inner(row);
+        }
+        if (token?.kind === '(') {
+            pos++;
+            const inner = parseOr();
+            if (peek()?.kind !== ')') throw new Error("Missing closing ) in the filter.");
+            pos++;
+            return inner;
+        }
+        return parseComparison();
+    };
+
+    const parseAnd = (): RowPredicate => {
+        const parts = [parseUnary()];
+        while (peek()?.kind === 'and') { pos++; parts.push(parseUnary()); }
+        return parts.length === 1 ? parts[0] : row => parts.every(p => p(row));
+    };
+
+    const parseOr = (): RowPredicate => {
+        const parts = [parseAnd()];
+        while (peek()?.kind === 'or') { pos++; parts.push(parseAnd()); }
+        return parts.length === 1 ? parts[0] : row => parts.some(p => p(row));
+    };
+
+    const predicate = parseOr();
+    if (pos < tokens.length) throw new Error("The filter has something extra at the end; join conditions with and/or.");
+    return predicate;
+}
+
+/** The problem with a filter expression, or null when it's usable. */
+export function checkFilter(data: TableData, config: AnimationConfig, expression: string): string | null {
+    if (!expression.trim()) return null;
+    try {
+        compileFilter(data, config, expression);
+        return null;
+    } catch (e: any) {
+        return e.message || "The filter couldn't be read.";
+    }
+}
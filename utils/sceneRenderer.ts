@@ -0,0 +1,1153 @@
+// One description of what a presentation looks like at any instant. The
+// canvas preview and the video exporter both draw through this module, so a
+// layout or theme only has to be written once.
+import { TableData, AnimationConfig, Theme, Layout, AnimationStyle, AspectRatio, Resolution, ThemePalette, BackgroundKind, FontRole, TableNarration } from '../types';
+import { ensureFonts } from './fontLoader';
+import { pcmDuration } from './audioSynth';
+import { fitText, layoutText } from './textLayout';
+import { ChartSeries, drawChart } from './chartRenderer';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        // Only set crossOrigin for remote/cross-domain images. 
+        // Local/Relative images (./logo.jpg) usually fail if crossOrigin is set without proper server headers.
+        if (src.startsWith('http') && new URL(src, window.location.href).origin !== window.location.origin) {
+            img.crossOrigin = "anonymous";
+        }
+        img.onload = () => resolve(img);
+        img.onerror = () => {
+            console.warn(`Failed to load image: ${src}`);
+            reject(new Error(`Failed to load image: ${src}`));
+        };
+        img.src = src;
+    });
+};
+
+export function getThemeConfig(theme: Theme): ThemePalette {
+    switch (theme) {
+        case Theme.NEON:
+            return {
+                bg: '#000000',
+                bgAccent: '#00ff00',
+                backgroundKind: 'grid',
+                overlayOpacity: 0.6,
+                fontMain: 'JetBrains Mono, monospace',
+                fontHeader: 'JetBrains Mono, monospace',
+                subjectColor: '#4ade80',
+                headerColor: '#ec4899',
+                valueColor: '#ffffff',
+                lineColor1: '#4ade80',
+                lineColor2: '#ec4899',
+                barColor1: '#22c55e',
+                barColor2: '#db2777',
+                glow: true,
+            };
+        case Theme.LUXE:
+            return {
+                bg: '#0a0a0a',
+                bgAccent: '#1c1917',
+                backgroundKind: 'solid',
+                overlayOpacity: 0.6,
+                fontMain: 'Playfair Display, serif',
+                fontHeader: 'Inter, sans-serif',
+                subjectColor: '#fef3c7',
+                headerColor: '#78716c',
+                valueColor: '#fbbf24',
+                lineColor1: '#d97706',
+                lineColor2: '#b45309',
+                barColor1: '#b45309',
+                barColor2: '#fbbf24',
+                glow: false,
+            };
+        case Theme.GLASS:
+            return {
+                bg: '#0f172a',
+                bgAccent: '#1e293b',
+                backgroundKind: 'solid',
+                overlayOpacity: 0.6,
+                fontMain: 'Inter, sans-serif',
+                fontHeader: 'Inter, sans-serif',
+                subjectColor: '#ffffff', 
+                headerColor: '#22d3ee',
+                valueColor: '#cffafe',
+                lineColor1: '#06b6d4',
+                lineColor2: '#3b82f6',
+                barColor1: '#06b6d4',
+                barColor2: '#2563eb',
+                glow: false,
+            };
+        case Theme.COSMIC:
+        default:
+            return {
+                bg: '#020617',
+                bgAccent: '#0f172a',
+                backgroundKind: 'gradient',
+                overlayOpacity: 0.6,
+                fontMain: 'Inter, sans-serif',
+                fontHeader: 'Inter, sans-serif',
+                subjectColor: '#ffffff',
+                headerColor: '#94a3b8',
+                valueColor: '#fef9c3',
+                lineColor1: '#a855f7',
+                lineColor2: '#3b82f6',
+                barColor1: '#3b82f6',
+                barColor2: '#9333ea',
+                glow: false,
+            };
+    }
+}
+
+// A custom theme on the config wins over the built-in one
+export const resolveTheme = (config: Pick<AnimationConfig, 'theme' | 'customTheme'>): ThemePalette =>
+    config.customTheme ?? getThemeConfig(config.theme);
+
+export const FONT_ROLE_LABELS: Record<FontRole, string> = {
+    title: 'Title',
+    subject: 'Subject',
+    header: 'Header',
+    value: 'Value',
+};
+
+// CSS font-family list per role. Uploaded fonts fall back to the theme font for missing glyphs.
+export function resolveFonts(config: AnimationConfig): Record<FontRole, string> {
+    const theme = resolveTheme(config);
+    const fonts: Record<FontRole, string> = {
+        title: theme.fontHeader,
+        subject: theme.fontMain,
+        header: theme.fontHeader,
+        value: theme.fontMain,
+    };
+    for (const role of Object.keys(fonts) as FontRole[]) {
+        const font = config.fonts?.find(f => f.id === config.fontRoles?.[role]);
+        if (font) fonts[role] = `"${font.family}", ${fonts[role]}`;
+    }
+    return fonts;
+}
+
+export const BACKGROUND_KIND_LABELS: Record<BackgroundKind, string> = {
+    gradient: 'Gradient',
+    grid: 'Grid',
+    solid: 'Solid',
+};
+
+const ASPECT_PARTS: Record<AspectRatio, [number, number]> = {
+    [AspectRatio.SQUARE]: [1, 1],
+    [AspectRatio.PORTRAIT]: [4, 5],
+    [AspectRatio.VERTICAL]: [9, 16],
+    [AspectRatio.LANDSCAPE]: [16, 9],
+};
+
+const SHORT_SIDES: Record<Resolution, number> = {
+    [Resolution.HD]: 720,
+    [Resolution.FULL_HD]: 1080,
+    [Resolution.UHD]: 2160,
+};
+
+export const ASPECT_RATIO_LABELS: Record<AspectRatio, string> = {
+    [AspectRatio.SQUARE]: '1:1 · Feed',
+    [AspectRatio.PORTRAIT]: '4:5 · Portrait feed',
+    [AspectRatio.VERTICAL]: '9:16 · Reels / Shorts',
+    [AspectRatio.LANDSCAPE]: '16:9 · YouTube',
+};
+
+export const RESOLUTION_LABELS: Record<Resolution, string> = {
+    [Resolution.HD]: '720p',
+    [Resolution.FULL_HD]: '1080p',
+    [Resolution.UHD]: '4K',
+};
+
+// Pixel size of the output frame; both sides are kept even for the encoders
+export function getFrameSize(config: Pick<AnimationConfig, 'aspectRatio' | 'resolution'>) {
+    const [w, h] = ASPECT_PARTS[config.aspectRatio] || ASPECT_PARTS[AspectRatio.SQUARE];
+    const short = SHORT_SIDES[config.resolution] || SHORT_SIDES[Resolution.FULL_HD];
+    const long = Math.round((short * Math.max(w, h)) / Math.min(w, h) / 2) * 2;
+    return w >= h ? { width: long, height: short } : { width: short, height: long };
+}
+
+// Layouts are written against a virtual frame whose short side is this many units
+export const LAYOUT_UNIT = 1080;
+
+// One attribute step; steps run back to back except for row pauses
+export interface TimelineStep {
+    rowIdx: number;
+    attrIdx: number;
+    start: number;     // ms
+    duration: number;  // ms
+    gapAfter: number;  // ms of row pause before the next step
+    hold: boolean;
+    rowStart: boolean; // first step shown for its row
+}
+
+// A narration line placed on the timeline
+export interface NarrationCue {
+    rowIdx: number;
+    attrIdx: number;
+    start: number;    // ms
+    duration: number; // ms of audio
+    text: string;
+    pcm: string;
+}
+
+export interface SceneTimeline {
+    numCols: number;
+    numAttributes: number;
+    steps: TimelineStep[];
+    totalSteps: number;
+    durationPerItem: number; // default step length, ms
+    cellReveal: number[][];  // [row][col] ms at which the grid layout shows each cell
+    narration: NarrationCue[];
+    totalDuration: number;   // ms of actual content
+    totalRunTime: number;    // ms including the end buffer
+}
+
+export interface SceneAssets {
+    bgImage: HTMLImageElement | null;
+    logoImage: HTMLImageElement | null;
+}
+
+// Gap between cells when the grid reveals a whole row at once
+const ROW_REVEAL_STAGGER = 120;
+// A narrated step lasts at least its audio plus this, so the line finishes before the fade out
+const NARRATION_TAIL = 400;
+
+/**
+ * Lays out every step of the table. Steps with narration stretch to fit it;
+ * a row's own line is spoken first, then its first step's line.
+ */
+export function getSceneTimeline(data: TableData, config: AnimationConfig, narration?: TableNarration): SceneTimeline {
+    const numCols = data.columns.length;
+    const numAttributes = Math.max(1, numCols - 1);
+    const durationPerItem = config.durationPerItem * 1000;
+    const steps: TimelineStep[] = [];
+    const cellReveal: number[][] = [];
+    const cues: NarrationCue[] = [];
+    let time = 0;
+
+    data.data.forEach((row, rowIdx) => {
+        const rowTiming = config.rowTimings?.[row[0] ?? ''];
+        const before = steps.length;
+        const stepStarts: number[] = [];
+        const rowNarration = narration?.[row[0] ?? ''];
+        for (let attrIdx = 0; attrIdx < numAttributes; attrIdx++) {
+            const timing = rowTiming?.steps?.[data.columns[attrIdx + 1] ?? ''];
+            if (timing?.skip) continue;
+
+            // Lines with audio, queued one after another from the start of the step
+            const lines = [steps.length === before ? rowNarration?.row : undefined, rowNarration?.steps?.[data.columns[attrIdx + 1] ?? '']];
+            let spoken = 0;
+            lines.forEach(line => {
+                if (!line?.pcm) return;
+                const length = pcmDuration(line.pcm) * 1000;
+                cues.push({ rowIdx, attrIdx, start: time + spoken, duration: length, text: line.text, pcm: line.pcm });
+                spoken += length;
+            });
+
+            const duration = Math.max((timing?.duration ?? config.durationPerItem) * 1000, spoken ? spoken + NARRATION_TAIL : 0);
+            stepStarts[attrIdx] = time;
+            steps.push({ rowIdx, attrIdx, start: time, duration, gapAfter: 0, hold: !!timing?.hold, rowStart: steps.length === before });
+            time += duration;
+        }
+
+        // A row with every step skipped still belongs in the full table
+        const reveal = Array.from({ length: numCols }, (_, col) => time + col * ROW_REVEAL_STAGGER);
+        if (steps.length > before) {
+            const pause = (rowTiming?.pauseAfter ?? config.rowDelay) * 1000;
+            steps[steps.length - 1].gapAfter = pause;
+            time += pause;
+
+            // Skipped cells come in with their row rather than never
+            const rowStart = steps[before].start;
+            for (let col = 0; col < numCols; col++) {
+                reveal[col] = config.revealBy === 'row' || col === 0
+                    ? rowStart + col * ROW_REVEAL_STAGGER
+                    : stepStarts[col - 1] ?? rowStart;
+            }
+        }
+        cellReveal.push(reveal);
+    });
+
+    // No pause after the final row; the end buffer takes its place
+    const last = steps[steps.length - 1];
+    if (last) {
+        time -= last.gapAfter;
+        last.gapAfter = 0;
+    }
+    const totalDuration = time;
+    // Add extra buffer at end
+    const endBuffer = 3000;
+    return { numCols, numAttributes, steps, totalSteps: steps.length, durationPerItem, cellReveal, narration: cues, totalDuration, totalRunTime: totalDuration + endBuffer };
+}
+
+export async function loadSceneAssets(config: AnimationConfig, logoSrc: string | undefined): Promise<SceneAssets> {
+    await ensureFonts(config.fonts ?? [], [...Object.values(resolveFonts(config)), resolveTheme(config).fontMain]);
+
+    // Load background image if exists
+    let bgImage: HTMLImageElement | null = null;
+    if (config.backgroundImage) {
+        try {
+            bgImage = await loadImage(config.backgroundImage);
+        } catch (e) {
+            console.warn("Failed to load background image for render");
+        }
+    }
+
+    // Load Logo
+    let logoImage: HTMLImageElement | null = null;
+    if (logoSrc) {
+        try {
+            logoImage = await loadImage(logoSrc);
+        } catch (e) {
+            console.warn("Logo failed to load");
+        }
+    }
+    return { bgImage, logoImage };
+}
+
+// Time the attribute block takes to fade in or out
+const FADE_TIME = 300;
+
+// Everything that changes over time, resolved for one instant
+export interface SceneState {
+    elapsed: number;
+    stepIndex: number;
+    rowIdx: number;
+    attrIdx: number;
+    stepTime: number;     // ms into the current step
+    rowStart: boolean;    // the step that brings in a new row
+    table: TableData;     // the whole table, for layouts that show more than one cell
+    cellEnter: number[][]; // [row][col] 0..1 through each cell's grid entrance
+    title: string;
+    subjectLabel: string;
+    subject: string;
+    header: string;
+    value: string;
+    hasAttribute: boolean;
+    enter: number;        // 0..1 through the attribute's entrance
+    exit: number;         // 0..1 through the attribute's exit
+    opacity: number;      // attribute visibility
+    progress: number;     // 0..1 through the content (progress bar)
+    runProgress: number;  // 0..1 through the whole video (background zoom)
+}
+
+/**
+ * Resolves what is on screen `elapsed` ms into the presentation. The preview
+ * and the exporter both go through this, so they always agree.
+ */
+export function describeScene(data: TableData, timeline: SceneTimeline, elapsed: number): SceneState {
+    const { numCols, steps, durationPerItem, totalDuration, totalRunTime } = timeline;
+
+    // Last step that has started; before the first step and past the end it simply holds
+    let stepIndex = 0;
+    for (let lo = 0, hi = steps.length - 1; lo <= hi;) {
+        const mid = (lo + hi) >> 1;
+        if (steps[mid].start <= elapsed) {
+            stepIndex = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    // Everything skipped: show the first row without an attribute
+    const step = steps[stepIndex] ?? { rowIdx: 0, attrIdx: 0, start: 0, duration: durationPerItem, gapAfter: 0, hold: true, rowStart: true };
+    const stepTime = Math.max(0, elapsed - step.start);
+    const isLast = stepIndex === steps.length - 1;
+
+    const { rowIdx, attrIdx } = step;
+    const colIdx = numCols > 1 ? attrIdx + 1 : 0;
+    const currentRow = data.data[rowIdx];
+
+    const enter = Math.min(1, stepTime / FADE_TIME);
+    // Fully faded out by the end of the step, so row pauses show the subject alone
+    const exit = isLast || step.hold ? 0 : Math.max(0, Math.min(1, 1 - (step.duration - stepTime) / FADE_TIME));
+
+    return {
+        elapsed,
+        stepIndex,
+        rowIdx,
+        attrIdx,
+        stepTime,
+        rowStart: step.rowStart,
+        table: data,
+        cellEnter: timeline.cellReveal.map(row => row.map(t => elapsed < t ? 0 : Math.min(1, (elapsed - t) / FADE_TIME))),
+        title: data.title || "",
+        subjectLabel: data.columns[0] || "",
+        subject: currentRow?.[0] || "",
+        header: data.columns[colIdx] || "",
+        value: currentRow?.[colIdx] || "",
+        hasAttribute: numCols > 1 && steps.length > 0,
+        enter,
+        exit,
+        opacity: Math.min(enter, 1 - exit),
+        progress: totalDuration > 0 ? Math.min(elapsed / totalDuration, 1) : 1,
+        runProgress: totalRunTime > 0 ? Math.min(elapsed / totalRunTime, 1) : 1,
+    };
+}
+
+// AnimationStyle motion for the attribute block, pivoting around (x, y)
+function applyStyleMotion(ctx: CanvasRenderingContext2D, style: AnimationStyle, enter: number, exit: number, x: number, y: number) {
+    const incoming = Math.pow(1 - enter, 2); // ease out
+    const outgoing = Math.pow(exit, 2);      // ease in
+    ctx.translate(x, y);
+    switch (style) {
+        case AnimationStyle.SLIDE_RIGHT:
+            ctx.translate(-50 * incoming + 50 * outgoing, 0);
+            break;
+        case AnimationStyle.POP: {
+            const s = 1 - 0.5 * incoming + 0.5 * outgoing;
+            ctx.scale(s, s);
+            break;
+        }
+        case AnimationStyle.FADE_UP:
+        default: {
+            const s = 1 - 0.05 * incoming + 0.05 * outgoing;
+            ctx.translate(0, 20 * incoming - 20 * outgoing);
+            ctx.scale(s, s);
+            break;
+        }
+    }
+    ctx.translate(-x, -y);
+}
+
+interface TextBlock {
+    font: (size: number) => string;
+    size: number;
+    lineHeight: number; // at full size
+    maxWidth: number;
+    maxLines: number;
+    highlight?: string; // color of a panel drawn behind the text
+}
+
+// Draws wrapped text downwards from (x, y), shrinking it to fit maxLines. Returns the height used.
+function drawTextBlock(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, block: TextBlock): number {
+    const fitted = fitText(ctx, text, block);
+    const lineHeight = block.lineHeight * fitted.fontSize / block.size;
+    if (block.highlight && text) {
+        drawHighlight(ctx, fitted.lines, x, y, fitted.fontSize, lineHeight, block.highlight);
+    }
+    fitted.lines.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+    return fitted.lines.length * lineHeight;
+}
+
+// Rounded panel behind the active cell, following the current textAlign/textBaseline
+function drawHighlight(ctx: CanvasRenderingContext2D, lines: string[], x: number, y: number, fontSize: number, lineHeight: number, color: string) {
+    const pad = fontSize * 0.35;
+    const width = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const left = ctx.textAlign === 'right' ? x - width : ctx.textAlign === 'center' ? x - width / 2 : x;
+    const top = ctx.textBaseline === 'middle' ? y - fontSize * 0.6 : y - fontSize * 0.1;
+    const height = (lines.length - 1) * lineHeight + fontSize * 1.2;
+
+    // Fades along with the text it sits behind
+    const alpha = ctx.globalAlpha;
+    ctx.save();
+    ctx.beginPath();
+    ctx.roundRect(left - pad, top - pad / 2, width + pad * 2, height + pad, pad);
+    ctx.globalAlpha = alpha * 0.2;
+    ctx.fillStyle = color;
+    ctx.fill();
+    ctx.globalAlpha = alpha * 0.8;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+    ctx.restore();
+}
+
+// --- Grid reveal layout ---
+
+interface GridLayout {
+    fontSize: number;
+    headerFontSize: number;
+    headerHeight: number;
+    rowHeights: number[];
+    headerLines: string[][];
+    cellLines: string[][][]; // [row][col][line]
+}
+
+const GRID_MARGIN = 60;
+const GRID_CELL_PADDING = 20;
+const GRID_MAX_LINES = 3;
+
+// Wrapping every cell is too slow to redo each frame, so layouts are kept per table
+// once the fonts they were measured with have loaded
+const gridLayouts = new WeakMap<TableData, { key: string; layout: GridLayout }>();
+
+function layoutGrid(ctx: CanvasRenderingContext2D, data: TableData, fonts: Record<FontRole, string>, width: number, height: number): GridLayout {
+    const key = `${width}x${height}|${Object.values(fonts).join('|')}`;
+    const cached = gridLayouts.get(data);
+    if (cached?.key === key) return cached.layout;
+
+    const textWidth = width / Math.max(1, data.columns.length) - GRID_CELL_PADDING * 2;
+    const measure = (fontSize: number, headerFontSize: number): GridLayout => {
+        const lineHeight = fontSize * 1.25;
+        const rowPad = fontSize * 0.6;
+        ctx.font = `bold ${headerFontSize}px ${fonts.header}`;
+        const headerLines = data.columns.map(col => layoutText(ctx, col.toUpperCase(), { maxWidth: textWidth, maxLines: GRID_MAX_LINES }).lines);
+        const headerHeight = Math.max(1, ...headerLines.map(l => l.length)) * headerFontSize * 1.25 + rowPad;
+        const cellLines = data.data.map(row => row.map((cell, col) => {
+            ctx.font = col === 0 ? `bold ${fontSize}px ${fonts.subject}` : `${fontSize}px ${fonts.value}`;
+            return layoutText(ctx, cell, { maxWidth: textWidth, maxLines: GRID_MAX_LINES }).lines;
+        }));
+        const rowHeights = cellLines.map(row => Math.max(1, ...row.map(l => l.length)) * lineHeight + rowPad);
+        return { fontSize, headerFontSize, headerHeight, rowHeights, headerLines, cellLines };
+    };
+
+    let fontSize = 44;
+    let layout = measure(fontSize, 34);
+    const totalHeight = (l: GridLayout) => l.headerHeight + l.rowHeights.reduce((a, b) => a + b, 0);
+    while (totalHeight(layout) > height && fontSize > 16) {
+        fontSize = Math.max(16, Math.floor(fontSize * 0.9));
+        layout = measure(fontSize, Math.max(14, Math.round(fontSize * 0.78)));
+    }
+
+    if (typeof document === 'undefined' || document.fonts.status === 'loaded') {
+        gridLayouts.set(data, { key, layout });
+    }
+    return layout;
+}
+
+// The whole table, filling in cell by cell (or row by row) as the timeline reaches it
+function drawGridReveal(
+    ctx: CanvasRenderingContext2D,
+    scene: SceneState,
+    config: AnimationConfig,
+    themeStyle: ThemePalette,
+    fonts: Record<FontRole, string>,
+    W: number,
+    H: number
+) {
+    const data = scene.table;
+    if (!data.columns.length) return;
+
+    const top = 110;
+    const bottom = H - (config.showProgressBar ? 60 : 40);
+    const width = W - GRID_MARGIN * 2;
+    const layout = layoutGrid(ctx, data, fonts, width, bottom - top);
+    const colWidth = width / data.columns.length;
+    const tableHeight = layout.headerHeight + layout.rowHeights.reduce((a, b) => a + b, 0);
+    let y = top + Math.max(0, (bottom - top - tableHeight) / 2);
+
+    const drawLines = (lines: string[], x: number, cellTop: number, cellHeight: number, lineHeight: number) => {
+        const startY = cellTop + (cellHeight - lines.length * lineHeight) / 2 + lineHeight / 2;
+        lines.forEach((line, i) => ctx.fillText(line, x, startY + i * lineHeight));
+    };
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+
+    // Header fades in with the first cell
+    const headerAlpha = Math.max(0, ...data.columns.map((_, col) => scene.cellEnter[0]?.[col] ?? 1));
+    ctx.globalAlpha = headerAlpha * (themeStyle.glow ? 0.1 : 0.08);
+    ctx.fillStyle = themeStyle.glow ? themeStyle.bgAccent : '#ffffff';
+    ctx.fillRect(GRID_MARGIN, y, width, layout.headerHeight);
+    ctx.globalAlpha = headerAlpha;
+    ctx.fillStyle = themeStyle.headerColor;
+    ctx.font = `bold ${layout.headerFontSize}px ${fonts.header}`;
+    layout.headerLines.forEach((lines, col) => {
+        drawLines(lines, GRID_MARGIN + col * colWidth + GRID_CELL_PADDING, y, layout.headerHeight, layout.headerFontSize * 1.25);
+    });
+    y += layout.headerHeight;
+
+    // The full table is left clean for the final hold
+    const showActive = config.highlightActive && scene.progress < 1;
+    const lineHeight = layout.fontSize * 1.25;
+
+    data.data.forEach((row, rowIdx) => {
+        const h = layout.rowHeights[rowIdx];
+        const enters = scene.cellEnter[rowIdx] ?? [];
+        const rowAlpha = Math.max(0, ...enters);
+
+        if (rowAlpha > 0) {
+            ctx.globalAlpha = rowAlpha;
+            if (showActive && rowIdx === scene.rowIdx) {
+                ctx.globalAlpha = rowAlpha * 0.15;
+                ctx.fillStyle = themeStyle.lineColor1;
+                ctx.fillRect(GRID_MARGIN, y, width, h);
+                ctx.globalAlpha = rowAlpha;
+                ctx.fillRect(GRID_MARGIN, y, 6, h);
+            }
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+            ctx.fillRect(GRID_MARGIN, y + h - 1, width, 1);
+        }
+
+        row.forEach((cell, col) => {
+            const enter = enters[col] ?? 0;
+            if (enter <= 0 || !cell) return;
+            const x = GRID_MARGIN + col * colWidth + GRID_CELL_PADDING;
+            ctx.save();
+            applyStyleMotion(ctx, config.style, enter, 0, x, y + h / 2);
+            ctx.globalAlpha = enter;
+            if (col === 0) {
+                ctx.fillStyle = themeStyle.subjectColor;
+                ctx.font = `bold ${layout.fontSize}px ${fonts.subject}`;
+            } else {
+                ctx.fillStyle = themeStyle.valueColor;
+                ctx.font = `${layout.fontSize}px ${fonts.value}`;
+            }
+            drawLines(layout.cellLines[rowIdx][col], x, y, h, lineHeight);
+            ctx.restore();
+        });
+
+        y += h;
+    });
+    ctx.globalAlpha = 1;
+}
+
+// Theme background, or the background image with a slow zoom as the video runs
+function drawBackdrop(ctx: CanvasRenderingContext2D, themeStyle: ThemePalette, bgImage: HTMLImageElement | null, runProgress: number, W: number, H: number) {
+    ctx.fillStyle = themeStyle.bg;
+    ctx.fillRect(0,0, W, H);
+
+    if (bgImage) {
+        // Draw image cover
+        const scale = Math.max(W / bgImage.width, H / bgImage.height);
+        const x = (W / 2) - (bgImage.width / 2) * scale;
+        const y = (H / 2) - (bgImage.height / 2) * scale;
+        
+        // Slight slow zoom effect
+        const zoom = 1 + runProgress * 0.1;
+        ctx.save();
+        ctx.translate(W/2, H/2);
+        ctx.scale(zoom, zoom);
+        ctx.translate(-W/2, -H/2);
+        ctx.drawImage(bgImage, x, y, bgImage.width * scale, bgImage.height * scale);
+        ctx.restore();
+
+        // Dark Overlay for readability
+        ctx.fillStyle = `rgba(0,0,0,${themeStyle.overlayOpacity})`;
+        ctx.fillRect(0,0, W, H);
+    } else {
+         // Fallback procedural
+         if (themeStyle.backgroundKind === 'gradient') {
+            const gradient = ctx.createLinearGradient(0, 0, W, H);
+            gradient.addColorStop(0, themeStyle.bgAccent); 
+            gradient.addColorStop(1, themeStyle.bg);
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, W, H);
+         } else if (themeStyle.backgroundKind === 'grid') {
+            ctx.strokeStyle = themeStyle.bgAccent;
+            ctx.globalAlpha = 0.15;
+            ctx.lineWidth = 1;
+            const gridSize = 50;
+            for (let x = 0; x < W; x += gridSize) {
+                ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, H); ctx.stroke();
+            }
+            for (let y = 0; y < H; y += gridSize) {
+                ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(W, y); ctx.stroke();
+            }
+            ctx.globalAlpha = 1;
+         }
+    }
+}
+
+// Logo, app name and watermark, as set for the project
+function drawBranding(ctx: CanvasRenderingContext2D, config: AnimationConfig, themeStyle: ThemePalette, logoImage: HTMLImageElement | null, W: number, H: number) {
+    if (config.showAppName) {
+        // Watermark Logo (Top Right)
+        if (logoImage) {
+            const logoSize = 80;
+            const pad = 30;
+            ctx.save();
+            ctx.globalAlpha = 0.9;
+            
+            const lx = W - logoSize - pad;
+            const ly = pad;
+            
+            // Draw rounded rectangle container logic
+            const radius = 12;
+            ctx.beginPath();
+            ctx.moveTo(lx + radius, ly);
+            ctx.lineTo(lx + logoSize - radius, ly);
+            ctx.quadraticCurveTo(lx + logoSize, ly, lx + logoSize, ly + radius);
+            ctx.lineTo(lx + logoSize, ly + logoSize - radius);
+            ctx.quadraticCurveTo(lx + logoSize, ly + logoSize, lx + logoSize - radius, ly + logoSize);
+            ctx.lineTo(lx + radius, ly + logoSize);
+            ctx.quadraticCurveTo(lx, ly + logoSize, lx, ly + logoSize - radius);
+            ctx.lineTo(lx, ly + radius);
+            ctx.quadraticCurveTo(lx, ly, lx + radius, ly);
+            ctx.closePath();
+            ctx.clip();
+
+            // Draw image containing aspect ratio
+            const imgAspect = logoImage.width / logoImage.height;
+            let drawW = logoSize;
+            let drawH = logoSize;
+            let dx = lx;
+            let dy = ly;
+            
+            if (imgAspect > 1) { // Landscape
+                drawH = logoSize / imgAspect;
+                dy = ly + (logoSize - drawH) / 2;
+            } else { // Portrait
+                drawW = logoSize * imgAspect;
+                dx = lx + (logoSize - drawW) / 2;
+            }
+            
+            ctx.drawImage(logoImage, dx, dy, drawW, drawH);
+            ctx.restore();
+        }
+
+        // App Name Text (Bottom Right - above progress bar)
+        ctx.save();
+        ctx.textAlign = 'right';
+        ctx.textBaseline = 'bottom';
+        ctx.font = `bold 24px ${themeStyle.fontMain}`;
+        ctx.fillStyle = themeStyle.subjectColor;
+        ctx.globalAlpha = 0.7;
+        ctx.shadowColor = 'black';
+        ctx.shadowBlur = 4;
+        // Position just above progress bar (20px) + padding (20px)
+        ctx.fillText("LOKSEWA AUTOMATIC", W - 20, H - 40);
+        ctx.restore();
+    }
+
+    if (config.showAiWatermark) {
+        ctx.save();
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'bottom';
+        ctx.font = `14px ${themeStyle.fontMain}`;
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+        ctx.shadowColor = 'black';
+        ctx.shadowBlur = 2;
+        // Position just above progress bar (20px) + padding (20px)
+        ctx.fillText("AI Generated Content", 20, H - 40);
+        ctx.restore();
+    }
+}
+
+/**
+ * Draws a scene into any canvas size: layouts are written in layout units and
+ * scaled so the short side of the canvas is LAYOUT_UNIT units.
+ */
+export function drawScene(
+    ctx: CanvasRenderingContext2D,
+    scene: SceneState,
+    config: AnimationConfig,
+    assets: SceneAssets,
+    chart: ChartSeries | null // from getChartSeries, once per table rather than per frame
+) {
+    const canvas = ctx.canvas;
+    const { bgImage, logoImage } = assets;
+
+    // Draw in layout units; W x H is the frame in those units (e.g. 1080 x 1920 for 9:16)
+    const unit = Math.min(canvas.width, canvas.height) / LAYOUT_UNIT;
+    const W = canvas.width / unit;
+    const H = canvas.height / unit;
+    ctx.setTransform(unit, 0, 0, unit, 0, 0);
+    const themeStyle = resolveTheme(config);
+    const fonts = resolveFonts(config);
+    const activeHighlight = config.highlightActive ? themeStyle.lineColor1 : undefined;
+    const { subject, header, value, subjectLabel, stepTime, opacity } = scene;
+    const mainTitle = scene.title;
+
+    // Reset state a previous frame may have left behind
+    ctx.globalAlpha = 1;
+
+    // --- DRAWING ---
+
+    // Background
+    drawBackdrop(ctx, themeStyle, bgImage, scene.runProgress, W, H);
+
+    // Title
+    if (mainTitle) {
+        ctx.globalAlpha = 0.8;
+        ctx.fillStyle = '#cbd5e1'; 
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'top';
+        drawTextBlock(ctx, mainTitle.toUpperCase(), W / 2, 40, {
+            font: size => `bold ${size}px ${fonts.title}`, size: 28, lineHeight: 34, maxWidth: W - 160, maxLines: 1
+        });
+    }
+
+    const centerX = W / 2;
+    const centerY = H / 2;
+    ctx.textBaseline = 'middle';
+
+    // A chart replaces the layout for as long as its column stays numeric
+    if (config.chart && chart) {
+        drawChart(ctx, config.chart.kind, chart, {
+            x: 60,
+            y: 110,
+            width: W - 120,
+            height: H - 110 - (config.showProgressBar ? 60 : 40),
+            reveal: scene.cellEnter.map(row => row[chart.column] ?? 0),
+            activeRow: config.highlightActive && scene.progress < 1 ? scene.rowIdx : undefined,
+        }, themeStyle, fonts);
+    } else switch (config.layout) {
+        case Layout.GRID_REVEAL:
+            drawGridReveal(ctx, scene, config, themeStyle, fonts, W, H);
+            break;
+
+        case Layout.SPLIT: {
+            // Split Logic
+            ctx.globalAlpha = 0.5;
+            const grad = ctx.createLinearGradient(centerX, centerY - 300, centerX, centerY + 300);
+            grad.addColorStop(0, 'transparent');
+            grad.addColorStop(0.5, themeStyle.lineColor1);
+            grad.addColorStop(1, 'transparent');
+            ctx.fillStyle = grad;
+            ctx.fillRect(centerX - 1, centerY - 300, 2, 600);
+            const halfWidth = W / 2 - 140;
+
+            // Subject
+            ctx.textAlign = 'right';
+            ctx.globalAlpha = 0.6;
+            ctx.fillStyle = '#93c5fd'; 
+            drawTextBlock(ctx, subjectLabel.toUpperCase(), centerX - 50, centerY - 50, {
+                font: size => `bold ${size}px ${fonts.header}`, size: 32, lineHeight: 38, maxWidth: halfWidth, maxLines: 1
+            });
+
+            ctx.globalAlpha = 1; 
+            ctx.fillStyle = themeStyle.subjectColor;
+            drawTextBlock(ctx, subject, centerX - 50, centerY + 20, {
+                font: size => `900 ${size}px ${fonts.subject}`, size: 60, lineHeight: 70, maxWidth: halfWidth, maxLines: 3
+            });
+
+            // Attribute
+            if (scene.hasAttribute) {
+                ctx.save();
+                applyStyleMotion(ctx, config.style, scene.enter, scene.exit, centerX + 50, centerY);
+                ctx.textAlign = 'left';
+                ctx.globalAlpha = opacity;
+                ctx.fillStyle = themeStyle.headerColor;
+                drawTextBlock(ctx, header, centerX + 50, centerY - 50, {
+                    font: size => `italic 500 ${size}px ${fonts.header}`, size: 40, lineHeight: 48, maxWidth: halfWidth, maxLines: 1
+                });
+                
+                ctx.fillStyle = themeStyle.valueColor;
+                drawTextBlock(ctx, value, centerX + 50, centerY + 20, {
+                    font: size => `bold ${size}px ${fonts.value}`, size: 50, lineHeight: 60, maxWidth: halfWidth, maxLines: 4, highlight: activeHighlight
+                });
+                ctx.restore();
+            }
+            break;
+        }
+
+        case Layout.DIAGONAL: {
+            // Subject Top Left
+            const leftX = 100;
+            const topY = H * 0.23;
+            const blockWidth = W * 0.55;
+            ctx.textBaseline = 'top';
+            
+            ctx.textAlign = 'left';
+            ctx.globalAlpha = 0.6;
+            ctx.fillStyle = '#93c5fd';
+            drawTextBlock(ctx, subjectLabel.toUpperCase(), leftX, topY, {
+                font: size => `bold ${size}px ${fonts.header}`, size: 32, lineHeight: 38, maxWidth: blockWidth, maxLines: 1
+            });
+
+            ctx.globalAlpha = 1;
+            ctx.fillStyle = themeStyle.subjectColor;
+            const subjectHeight = drawTextBlock(ctx, subject, leftX, topY + 60, {
+                font: size => `900 ${size}px ${fonts.subject}`, size: 70, lineHeight: 80, maxWidth: blockWidth, maxLines: 3
+            });
+            
+            // Separator
+            const lineY = topY + 60 + subjectHeight + 20;
+            ctx.fillStyle = themeStyle.lineColor1;
+            ctx.fillRect(leftX, lineY, 400, 4);
+
+            // Attribute Bottom Right
+            const rightX = W - 100;
+            const bottomY = H - 350;
+
+            if (scene.hasAttribute) {
+                ctx.save();
+                applyStyleMotion(ctx, config.style, scene.enter, scene.exit, rightX, bottomY + 40);
+                ctx.textAlign = 'right';
+                ctx.globalAlpha = opacity;
+                ctx.fillStyle = themeStyle.headerColor;
+                drawTextBlock(ctx, header, rightX, bottomY, {
+                    font: size => `italic 500 ${size}px ${fonts.header}`, size: 50, lineHeight: 60, maxWidth: blockWidth, maxLines: 1
+                });
+                
+                ctx.fillStyle = themeStyle.valueColor;
+                drawTextBlock(ctx, value, rightX, bottomY + 80, {
+                    font: size => `bold ${size}px ${fonts.value}`, size: 80, lineHeight: 90, maxWidth: blockWidth, maxLines: 3, highlight: activeHighlight
+                });
+                ctx.restore();
+            }
+            break;
+        }
+        
+        case Layout.MAGAZINE: {
+             // Big background subject
+             ctx.save();
+             ctx.textAlign = 'center';
+             ctx.textBaseline = 'middle';
+             ctx.globalAlpha = 0.15;
+             ctx.font = `900 250px ${fonts.subject}`;
+             ctx.fillStyle = themeStyle.subjectColor;
+             ctx.fillText(subject, centerX, centerY);
+             ctx.restore();
+
+             // Foreground Subject
+             ctx.textAlign = 'center';
+             ctx.globalAlpha = 0.8;
+             ctx.fillStyle = '#93c5fd';
+             drawTextBlock(ctx, subjectLabel.toUpperCase(), centerX, centerY - 200, {
+                 font: size => `bold ${size}px ${fonts.header}`, size: 32, lineHeight: 38, maxWidth: W - 280, maxLines: 1
+             });
+
+             ctx.globalAlpha = 1;
+             ctx.fillStyle = themeStyle.subjectColor;
+             drawTextBlock(ctx, subject, centerX, centerY - 120, {
+                 font: size => `900 ${size}px ${fonts.subject}`, size: 70, lineHeight: 80, maxWidth: W - 200, maxLines: 1
+             });
+
+             // Separator
+             ctx.fillStyle = themeStyle.lineColor1;
+             ctx.fillRect(centerX - 60, centerY - 50, 120, 6);
+
+             // Attribute
+             if (scene.hasAttribute) {
+                 ctx.save();
+                 applyStyleMotion(ctx, config.style, scene.enter, scene.exit, centerX, centerY + 90);
+                 ctx.globalAlpha = opacity;
+                 ctx.fillStyle = themeStyle.headerColor;
+                 drawTextBlock(ctx, header, centerX, centerY + 50, {
+                     font: size => `italic 500 ${size}px ${fonts.header}`, size: 45, lineHeight: 54, maxWidth: W - 280, maxLines: 1
+                 });
+
+                 ctx.fillStyle = themeStyle.valueColor;
+                 drawTextBlock(ctx, value, centerX, centerY + 130, {
+                     font: size => `bold ${size}px ${fonts.value}`, size: 70, lineHeight: 80, maxWidth: W - 280, maxLines: 3, highlight: activeHighlight
+                 });
+                 ctx.restore();
+             }
+             break;
+        }
+
+        case Layout.LOWER_THIRD: {
+            // Content at bottom
+            const bottomBase = H - 200;
+            ctx.textBaseline = 'top';
+            
+            // Separator Line (Horizontal across)
+            ctx.fillStyle = themeStyle.lineColor1;
+            ctx.fillRect(50, bottomBase, W - 100, 3);
+            
+            // Subject (Left side)
+            ctx.textAlign = 'left';
+            const leftX = 80;
+            const dividerX = W * 0.46;
+            
+            ctx.globalAlpha = 0.6;
+            ctx.fillStyle = '#93c5fd';
+            drawTextBlock(ctx, subjectLabel.toUpperCase(), leftX, bottomBase - 160, {
+                font: size => `bold ${size}px ${fonts.header}`, size: 28, lineHeight: 34, maxWidth: dividerX - 100, maxLines: 1
+            });
+
+            ctx.globalAlpha = 1;
+            ctx.fillStyle = themeStyle.subjectColor;
+            drawTextBlock(ctx, subject, leftX, bottomBase - 120, {
+                font: size => `900 ${size}px ${fonts.subject}`, size: 60, lineHeight: 70, maxWidth: dividerX - 100, maxLines: 2
+            });
+
+            // Vertical Divider
+            ctx.fillStyle = 'rgba(255,255,255,0.3)';
+            ctx.fillRect(dividerX, bottomBase - 150, 2, 130);
+
+            // Attribute (Right side)
+            if (scene.hasAttribute) {
+                const rightX = dividerX + 40;
+                ctx.save();
+                applyStyleMotion(ctx, config.style, scene.enter, scene.exit, rightX, bottomBase - 110);
+                ctx.globalAlpha = opacity;
+                ctx.fillStyle = themeStyle.headerColor;
+                drawTextBlock(ctx, header, rightX, bottomBase - 140, {
+                    font: size => `italic 500 ${size}px ${fonts.header}`, size: 35, lineHeight: 42, maxWidth: W - rightX - 90, maxLines: 1
+                });
+                
+                ctx.fillStyle = themeStyle.valueColor;
+                drawTextBlock(ctx, value, rightX, bottomBase - 90, {
+                    font: size => `bold ${size}px ${fonts.value}`, size: 50, lineHeight: 60, maxWidth: W - rightX - 90, maxLines: 2, highlight: activeHighlight
+                });
+                ctx.restore();
+            }
+            break;
+        }
+
+        case Layout.STACKED:
+        default: {
+             // Default Stacked
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            
+            ctx.globalAlpha = 0.6;
+            ctx.fillStyle = '#93c5fd';
+            drawTextBlock(ctx, subjectLabel.toUpperCase(), W / 2, H * 0.26, {
+                font: size => `bold ${size}px ${fonts.header}`, size: 42, lineHeight: 50, maxWidth: W - 180, maxLines: 1
+            });
+
+            let subjectY = H * 0.44; 
+            let subjectOpacity = 1;
+            if (scene.rowStart && stepTime < 500) {
+                const p = stepTime / 500;
+                subjectY += (1 - p) * 20;
+                subjectOpacity = p;
+            }
+            
+            ctx.globalAlpha = subjectOpacity;
+            ctx.fillStyle = themeStyle.subjectColor;
+            drawTextBlock(ctx, subject, W / 2, subjectY, {
+                font: size => `900 ${size}px ${fonts.subject}`, size: 80, lineHeight: 90, maxWidth: W - 180, maxLines: 1
+            });
+
+            ctx.globalAlpha = 1;
+            ctx.fillStyle = themeStyle.lineColor1;
+            ctx.fillRect((W - 200)/2, H * 0.58, 200, 4);
+
+            if (scene.hasAttribute) {
+                ctx.save();
+                applyStyleMotion(ctx, config.style, scene.enter, scene.exit, W / 2, H * 0.74);
+                ctx.globalAlpha = opacity;
+                ctx.fillStyle = themeStyle.headerColor;
+                drawTextBlock(ctx, header, W / 2, H * 0.68, {
+                    font: size => `italic 500 ${size}px ${fonts.header}`, size: 50, lineHeight: 60, maxWidth: W - 180, maxLines: 1
+                });
+
+                ctx.fillStyle = themeStyle.valueColor;
+                drawTextBlock(ctx, value, W / 2, H * 0.81, {
+                    font: size => `bold ${size}px ${fonts.value}`, size: 60, lineHeight: 80, maxWidth: W - 180, maxLines: 2, highlight: activeHighlight
+                });
+                ctx.restore();
+            }
+            break;
+        }
+    }
+
+    // Progress Bar
+    if (config.showProgressBar) {
+        ctx.globalAlpha = 1;
+        const barHeight = 20;
+        const barY = H - barHeight;
+        
+        ctx.fillStyle = '#1e293b';
+        ctx.fillRect(0, barY, W, barHeight);
+
+        const fillWidth = scene.progress * W;
+        ctx.fillStyle = themeStyle.barColor1;
+        ctx.fillRect(0, barY, Math.min(fillWidth, W), barHeight);
+    }
+
+    // --- BRANDING & WATERMARKS ---
+
+    drawBranding(ctx, config, themeStyle, logoImage, W, H);
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+// What an intro, title or outro card shows
+export interface CardContent {
+    kind: 'intro' | 'title' | 'outro';
+    heading: string;
+    subheading: string;
+    lines: string[]; // small print under the subheading, e.g. the outro's sources
+}
+
+// Each part of a card comes in this long after the one above it
+const CARD_STAGGER = 250;
+const CARD_ENTER_TIME = 600;
+
+/**
+ * Draws a card `elapsed` ms into a scene lasting `duration` ms. The parts
+ * enter one after another with the project's animation style and then hold.
+ */
+export function drawCard(
+    ctx: CanvasRenderingContext2D,
+    card: CardContent,
+    elapsed: number,
+    duration: number,
+    config: AnimationConfig,
+    assets: SceneAssets
+) {
+    const canvas = ctx.canvas;
+    const unit = Math.min(canvas.width, canvas.height) / LAYOUT_UNIT;
+    const W = canvas.width / unit;
+    const H = canvas.height / unit;
+    ctx.setTransform(unit, 0, 0, unit, 0, 0);
+    const themeStyle = resolveTheme(config);
+    const fonts = resolveFonts(config);
+    ctx.globalAlpha = 1;
+
+    drawBackdrop(ctx, themeStyle, assets.bgImage, duration > 0 ? Math.min(elapsed / duration, 1) : 1, W, H);
+
+    // Measure first so the whole stack can be centred
+    const maxWidth = W - 180;
+    const headingBlock: TextBlock = card.kind === 'title'
+        ? { font: size => `900 ${size}px ${fonts.subject}`, size: 76, lineHeight: 88, maxWidth, maxLines: 3 }
+        : { font: size => `900 ${size}px ${fonts.title}`, size: 92, lineHeight: 104, maxWidth, maxLines: 3 };
+    const subBlock: TextBlock = { font: size => `500 ${size}px ${fonts.header}`, size: 40, lineHeight: 52, maxWidth, maxLines: 3 };
+    const lineBlock: TextBlock = { font: size => `${size}px ${fonts.value}`, size: 26, lineHeight: 34, maxWidth, maxLines: 2 };
+    const height = (text: string, block: TextBlock) => {
+        if (!text) return 0;
+        const fitted = fitText(ctx, text, block);
+        return fitted.lines.length * block.lineHeight * fitted.fontSize / block.size;
+    };
+    const gap = 40;
+    const headingHeight = height(card.heading, headingBlock);
+    const subHeight = height(card.subheading, subBlock);
+    const lineHeights = card.lines.map(line => height(line, lineBlock));
+    const total = headingHeight + gap + 4 + (subHeight ? gap + subHeight : 0)
+        + lineHeights.reduce((sum, h) => sum + h + 12, lineHeights.length ? gap : 0);
+    let y = Math.max(120, (H - total) / 2);
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    const part = (index: number, draw: (enter: number) => void) => {
+        const enter = Math.max(0, Math.min(1, (elapsed - index * CARD_STAGGER) / CARD_ENTER_TIME));
+        if (enter <= 0) return;
+        ctx.save();
+        applyStyleMotion(ctx, config.style, enter, 0, W / 2, y);
+        ctx.globalAlpha = enter;
+        draw(enter);
+        ctx.restore();
+    };
+
+    part(0, () => {
+        ctx.fillStyle = themeStyle.subjectColor;
+        if (themeStyle.glow) {
+            ctx.shadowColor = themeStyle.lineColor1;
+            ctx.shadowBlur = 20;
+        }
+        drawTextBlock(ctx, card.heading, W / 2, y, headingBlock);
+    });
+    y += headingHeight + gap;
+
+    // Accent line that grows out from the centre
+    part(1, enter => {
+        const width = 240 * enter;
+        ctx.fillStyle = themeStyle.lineColor1;
+        ctx.fillRect((W - width) / 2, y, width, 4);
+    });
+    y += 4;
+
+    if (subHeight) {
+        y += gap;
+        part(2, () => {
+            ctx.fillStyle = themeStyle.headerColor;
+            drawTextBlock(ctx, card.subheading, W / 2, y, subBlock);
+        });
+        y += subHeight;
+    }
+
+    if (lineHeights.length) y += gap;
+    card.lines.forEach((line, i) => {
+        part(3 + i, () => {
+            ctx.globalAlpha *= 0.75;
+            ctx.fillStyle = themeStyle.valueColor;
+            drawTextBlock(ctx, line, W / 2, y, lineBlock);
+        });
+        y += lineHeights[i] + 12;
+    });
+
+    drawBranding(ctx, config, themeStyle, assets.logoImage, W, H);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+// Step boundaries (in seconds) where a sound plays, and whether each starts a new row
+export function getStepChanges(timeline: SceneTimeline): { time: number; rowStart: boolean }[] {
+    return timeline.steps.slice(1).map(step => ({ time: step.start / 1000, rowStart: step.rowStart }));
+}
+
@@ -0,0 +1,112 @@
+// Sound effects: which sound each moment of the video makes. Packs bundle a
+// sound per event and can follow each scene's animation style or theme; single
+// events can be overridden with another preset or an uploaded sample.
+// PresentationAudio synthesizes the presets and plays the samples.
+import { AnimationConfig, AnimationStyle, Theme, SfxEvent, SfxPackId, SfxPreset, SfxSample, SfxSound, SoundEffects } from '../types';
+import { readAsDataUrl } from './fileData';
+import { createAudioContext } from './audioSynth';
+
+export const SFX_PRESET_LABELS: Record<SfxPreset, string> = {
+    none: 'None',
+    sweep: 'Sweep',
+    click: 'Click',
+    swoosh: 'Swoosh',
+    pop: 'Pop',
+    chime: 'Chime',
+    typewriter: 'Typewriter',
+};
+
+export const SFX_EVENT_LABELS: Record<SfxEvent, string> = {
+    row: 'Row change',
+    attribute: 'Attribute change',
+    scene: 'Scene change',
+    intro: 'Intro',
+    outro: 'Outro',
+};
+
+export const SFX_PACK_LABELS: Record<SoundEffects['pack'], string> = {
+    style: 'Follow animation style',
+    theme: 'Follow theme',
+    classic: 'Classic',
+    minimal: 'Minimal',
+    playful: 'Playful',
+    newsroom: 'Newsroom',
+    cinematic: 'Cinematic',
+};
+
+// Classic is the sweep the app has always played between steps
+export const SFX_PACKS: Record<SfxPackId, Record<SfxEvent, SfxPreset>> = {
+    classic: { row: 'sweep', attribute: 'sweep', scene: 'sweep', intro: 'none', outro: 'none' },
+    minimal: { row: 'click', attribute: 'click', scene: 'swoosh', intro: 'none', outro: 'chime' },
+    playful: { row: 'pop', attribute: 'pop', scene: 'swoosh', intro: 'chime', outro: 'chime' },
+    newsroom: { row: 'typewriter', attribute: 'typewriter', scene: 'swoosh', intro: 'chime', outro: 'chime' },
+    cinematic: { row: 'swoosh', attribute: 'click', scene: 'swoosh', intro: 'chime', outro: 'chime' },
+};
+
+const STYLE_PACKS: Record<AnimationStyle, SfxPackId> = {
+    [AnimationStyle.FADE_UP]: 'classic',
+    [AnimationStyle.SLIDE_RIGHT]: 'cinematic',
+    [AnimationStyle.POP]: 'playful',
+};
+
+const THEME_PACKS: Record<Theme, SfxPackId> = {
+    [Theme.COSMIC]: 'classic',
+    [Theme.NEON]: 'playful',
+    [Theme.LUXE]: 'cinematic',
+    [Theme.GLASS]: 'minimal',
+};
+
+export const DEFAULT_SOUND_EFFECTS: SoundEffects = { pack: 'style' };
+
+// The pack a scene plays. A custom theme follows the built-in theme it was picked over.
+export function resolvePack(effects: SoundEffects, config: AnimationConfig): SfxPackId {
+    if (effects.pack === 'style') return STYLE_PACKS[config.style] ?? 'classic';
+    if (effects.pack === 'theme') return THEME_PACKS[config.theme] ?? 'classic';
+    return SFX_PACKS[effects.pack] ? effects.pack : 'classic';
+}
+
+export function resolveSound(effects: SoundEffects | undefined, event: SfxEvent, config: AnimationConfig): SfxSound {
+    const resolved = effects ?? DEFAULT_SOUND_EFFECTS;
+    return resolved.events?.[event] ?? SFX_PACKS[resolvePack(resolved, config)][event];
+}
+
+export const sampleSound = (sample: SfxSample): SfxSound => `sample:${sample.id}`;
+
+// The sample a sound refers to; null for presets and for samples since removed
+export function findSample(effects: SoundEffects | undefined, sound: SfxSound): SfxSample | null {
+    if (!sound.startsWith('sample:')) return null;
+    const id = sound.slice('sample:'.length);
+    return effects?.samples?.find(sample => sample.id === id) ?? null;
+}
+
+export const SFX_FILE_ACCEPT = '.wav,.mp3,.ogg,.oga,audio/*';
+const SFX_FILE_PATTERN = /\.(wav|mp3|ogg|oga)$/i;
+// Effects play on every step, so only short sounds make sense
+const MAX_SFX_BYTES = 1024 * 1024;
+const MAX_SFX_SECONDS = 5;
+
+export async function readSfxFile(file: File): Promise<SfxSample> {
+    if (!SFX_FILE_PATTERN.test(file.name) && !file.type.startsWith('audio/')) {
+        throw new Error("Sound effects must be WAV, MP3 or OGG files.");
+    }
+    if (file.size > MAX_SFX_BYTES) {
+        throw new Error("Sound effects can be at most 1MB.");
+    }
+    const ctx = createAudioContext();
+    let duration: number;
+    try {
+        duration = (await ctx.decodeAudioData(await file.arrayBuffer())).duration;
+    } catch (e) {
+        throw new Error("This sound file couldn't be read. Try WAV, MP3 or OGG.");
+    } finally {
+        ctx.close();
+    }
+    if (duration > MAX_SFX_SECONDS) {
+        throw new Error(`Sound effects can be at most ${MAX_SFX_SECONDS} seconds long.`);
+    }
+    return {
+        id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+        name: file.name.replace(/\.[^.]+$/, ''),
+        data: await readAsDataUrl(file),
+    };
+}
@@ -0,0 +1,63 @@
+// Subtitles for a presentation, timed from the same plan the video is drawn
+// from, so each cue starts and ends with its step or card.
+import { PresentationPlan, PlannedScene } from './presentation';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+    start: number; // seconds
+    end: number;   // seconds
+    text: string;  // may span several lines
+}
+
+// A step shows its subject and the value it reveals. Narrated steps show what is said instead.
+function getSceneCues(planned: PlannedScene): SubtitleCue[] {
+    const offset = planned.start / 1000;
+    if (planned.card) {
+        const { heading, subheading, lines } = planned.card;
+        const text = [heading, subheading, ...lines].filter(line => line.trim()).join('\n');
+        return text ? [{ start: offset, end: offset + planned.duration / 1000, text }] : [];
+    }
+    if (!planned.table || !planned.timeline) return [];
+
+    const { table, timeline } = planned;
+    return timeline.steps.map(step => {
+        const spoken = timeline.narration
+            .filter(cue => cue.rowIdx === step.rowIdx && cue.attrIdx === step.attrIdx)
+            .map(cue => cue.text.trim())
+            .filter(Boolean);
+        const row = table.data[step.rowIdx] ?? [];
+        const value = row[step.attrIdx + 1]?.trim();
+        const text = spoken.length
+            ? spoken.join(' ')
+            : [row[0], value ? `${table.columns[step.attrIdx + 1] ?? ''}: ${value}` : ''].filter(Boolean).join('\n');
+        const start = offset + step.start / 1000;
+        return { start, end: start + step.duration / 1000, text };
+    });
+}
+
+/** Every cue in order. A cue ends where the next begins, so transitions never show two at once. */
+export function getSubtitleCues(plan: PresentationPlan): SubtitleCue[] {
+    const cues = plan.scenes.flatMap(getSceneCues)
+        .filter(cue => cue.text)
+        .sort((a, b) => a.start - b.start);
+    cues.forEach((cue, i) => {
+        const next = cues[i + 1];
+        if (next) cue.end = Math.min(cue.end, next.start);
+    });
+    return cues.filter(cue => cue.end > cue.start);
+}
+
+const formatTime = (seconds: number, separator: string) => {
+    const ms = Math.round(seconds * 1000);
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+    if (format === 'vtt') {
+        // A blank line ends a cue, so cue text can't contain one
+        return ['WEBVTT', ...cues.map(cue => `${formatTime(cue.start, '.')} --> ${formatTime(cue.end, '.')}\n${cue.text.replace(/\n{2,}/g, '\n')}`)].join('\n\n') + '\n';
+    }
+    return cues.map((cue, i) => `${i + 1}\n${formatTime(cue.start, ',')} --> ${formatTime(cue.end, ',')}\n${cue.text.replace(/\n{2,}/g, '\n')}`).join('\n\n') + '\n';
+}
@@ -0,0 +1,333 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { TableData } from '../types';
+
+export interface ImportedSheet {
+    name: string;
+    rows: string[][];
+}
+
+export interface ImportOptions {
+    headerRow: number;     // index into sheet rows
+    subjectColumn: number; // moved to column 0, which drives the "subject" in every layout
+    title?: string;
+}
+
+export type SpreadsheetKind = 'csv' | 'tsv' | 'xlsx' | 'ods';
+
+export const IMPORT_ACCEPT = ".csv,.tsv,.txt,.xlsx,.ods";
+
+export const IMPORT_ENCODINGS = [
+    { value: 'utf-8', label: 'UTF-8' },
+    { value: 'utf-16le', label: 'UTF-16 LE' },
+    { value: 'windows-1252', label: 'Windows-1252 (Latin)' },
+    { value: 'iso-8859-1', label: 'ISO-8859-1' },
+];
+
+export function detectSpreadsheetKind(fileName: string): SpreadsheetKind | null {
+    const ext = fileName.toLowerCase().split('.').pop();
+    switch (ext) {
+        case 'csv': return 'csv';
+        case 'tsv':
+        case 'txt': return 'tsv';
+        case 'xlsx': return 'xlsx';
+        case 'ods': return 'ods';
+        default: return null;
+    }
+}
+
+// --- Delimited text ---
+
+// Picks the delimiter that splits the first few lines most consistently
+function detectDelimiter(text: string): string {
+    const sample = text.split(/\r?\n/).slice(0, 10).filter(l => l.trim() !== '');
+    let best = ',';
+    let bestScore = 0;
+    for (const delim of [',', ';', '\t', '|']) {
+        const counts = sample.map(l => l.split(delim).length - 1);
+        if (counts.length === 0 || counts[0] === 0) continue;
+        const consistent = counts.filter(c => c === counts[0]).length;
+        const score = consistent * counts[0];
+        if (score > bestScore) {
+            bestScore = score;
+            best = delim;
+        }
+    }
+    return best;
+}
+
+/** RFC 4180 style parser: quoted fields may contain delimiters, quotes ("") and newlines. */
+export function parseDelimited(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+    // Strip BOM left behind by Excel's "CSV UTF-8" export
+    const src = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < src.length; i++) {
+        const ch = src[i];
+        if (inQuotes) {
+            if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else field += ch;
+            continue;
+        }
+        if (ch === '"' && field === "") {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(field); field = "";
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && src[i + 1] === '\n') i++;
+            row.push(field); rows.push(row);
+            row = []; field = "";
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+// --- XML helpers (xlsx / ods are zipped XML) ---
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Namespace-agnostic lookups; spreadsheet XML is full of prefixes
+const childrenByName = (el: Element | Document, localName: string) =>
+    Array.from(el.getElementsByTagNameNS('*', localName));
+
+const attr = (el: Element, localName: string) => {
+    for (const a of Array.from(el.attributes)) {
+        if (a.localName === localName) return a.value;
+    }
+    return null;
+};
+
+const readZipText = (files: Record<string, Uint8Array>, path: string) => {
+    const file = files[path];
+    return file ? strFromU8(file) : null;
+};
+
+// "AB12" -> 27 (zero-based column)
+const columnIndexFromRef = (ref: string) => {
+    const letters = ref.replace(/[0-9]/g, '');
+    let idx = 0;
+    for (const ch of letters) idx = idx * 26 + (ch.charCodeAt(0) - 64);
+    return idx - 1;
+};
+
+// How a numeric cell is displayed; anything else keeps its raw value
+type NumberFormat = { kind: 'date' | 'time' | 'datetime' } | { kind: 'percent'; decimals: number };
+
+// Built-in formats Excel refers to by id without writing them into styles.xml
+const BUILTIN_NUMBER_FORMATS: Record<number, NumberFormat> = {
+    9: { kind: 'percent', decimals: 0 },
+    10: { kind: 'percent', decimals: 2 },
+    14: { kind: 'date' }, 15: { kind: 'date' }, 16: { kind: 'date' }, 17: { kind: 'date' },
+    18: { kind: 'time' }, 19: { kind: 'time' }, 20: { kind: 'time' }, 21: { kind: 'time' },
+    22: { kind: 'datetime' },
+    45: { kind: 'time' }, 46: { kind: 'time' }, 47: { kind: 'time' },
+};
+
+function classifyFormatCode(code: string): NumberFormat | null {
+    // Only the positive section counts; quoted text, escapes and [colour] tags aren't tokens
+    const tokens = code.split(';')[0].replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+    if (tokens.includes('%')) return { kind: 'percent', decimals: tokens.match(/\.(0+)/)?.[1].length ?? 0 };
+    const hasDate = /[yd]/i.test(tokens);
+    const hasTime = /[hs]/i.test(tokens);
+    if (hasDate && hasTime) return { kind: 'datetime' };
+    if (hasDate) return { kind: 'date' };
+    if (hasTime) return { kind: 'time' };
+    return null;
+}
+
+// Number format of each cell style, indexed like a cell's `s` attribute
+function readCellFormats(stylesXml: string | null): (NumberFormat | null)[] {
+    if (!stylesXml) return [];
+    const styles = parseXml(stylesXml);
+    const custom: Record<number, NumberFormat | null> = {};
+    childrenByName(styles, 'numFmt').forEach(fmt => {
+        custom[parseInt(attr(fmt, 'numFmtId') || '', 10)] = classifyFormatCode(attr(fmt, 'formatCode') || '');
+    });
+    // cellStyleXfs holds <xf>s too, so only look inside cellXfs
+    const cellXfs = childrenByName(styles, 'cellXfs')[0];
+    if (!cellXfs) return [];
+    return childrenByName(cellXfs, 'xf').map(xf => {
+        const id = parseInt(attr(xf, 'numFmtId') || '0', 10);
+        return id in custom ? custom[id] : BUILTIN_NUMBER_FORMATS[id] ?? null;
+    });
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// Dates are day counts from the workbook's epoch, times the fraction of a day
+function formatSerial(serial: number, format: NumberFormat, date1904: boolean): string {
+    if (format.kind === 'percent') return `${(serial * 100).toFixed(format.decimals)}%`;
+
+    const days = Math.floor(serial);
+    const seconds = Math.round((serial - days) * 86400);
+    const time = `${pad2(Math.floor(seconds / 3600) % 24)}:${pad2(Math.floor(seconds / 60) % 60)}${seconds % 60 ? `:${pad2(seconds % 60)}` : ''}`;
+    if (format.kind === 'time') return time;
+
+    const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+    const d = new Date(epoch + days * 86400000);
+    const date = `${d.getUTCFullYear()}-${pad2(d.getUTCMonth() + 1)}-${pad2(d.getUTCDate())}`;
+    return format.kind === 'datetime' && seconds ? `${date} ${time}` : date;
+}
+
+function parseXlsx(buffer: ArrayBuffer): ImportedSheet[] {
+    const files = unzipSync(new Uint8Array(buffer));
+    const workbookXml = readZipText(files, 'xl/workbook.xml');
+    if (!workbookXml) throw new Error("Not a valid .xlsx file (missing workbook).");
+
+    const sharedStrings: string[] = [];
+    const sharedXml = readZipText(files, 'xl/sharedStrings.xml');
+    if (sharedXml) {
+        childrenByName(parseXml(sharedXml), 'si').forEach(si => {
+            // Rich text splits a string into several <t> runs
+            sharedStrings.push(childrenByName(si, 't').map(t => t.textContent || '').join(''));
+        });
+    }
+
+    const cellFormats = readCellFormats(readZipText(files, 'xl/styles.xml'));
+    const workbookPr = childrenByName(parseXml(workbookXml), 'workbookPr')[0];
+    const date1904 = workbookPr ? ['1', 'true'].includes(attr(workbookPr, 'date1904') || '') : false;
+
+    // Cell references place cells directly; cap them so a stray cell at
+    // row 1048576 doesn't allocate a million empty rows.
+    const MAX_ROWS = 10000;
+    const MAX_COLUMNS = 1000;
+
+    const relTargets: Record<string, string> = {};
+    const relsXml = readZipText(files, 'xl/_rels/workbook.xml.rels');
+    if (relsXml) {
+        childrenByName(parseXml(relsXml), 'Relationship').forEach(rel => {
+            const id = attr(rel, 'Id');
+            const target = attr(rel, 'Target');
+            if (id && target) relTargets[id] = target.replace(/^\/?xl\//, '').replace(/^\//, '');
+        });
+    }
+
+    return childrenByName(parseXml(workbookXml), 'sheet').map((sheet, i) => {
+        const name = attr(sheet, 'name') || `Sheet ${i + 1}`;
+        const relId = attr(sheet, 'id');
+        const target = (relId && relTargets[relId]) || `worksheets/sheet${i + 1}.xml`;
+        const sheetXml = readZipText(files, `xl/${target}`);
+        const rows: string[][] = [];
+        if (!sheetXml) return { name, rows };
+
+        childrenByName(parseXml(sheetXml), 'row').forEach(rowEl => {
+            const rowNum = parseInt(attr(rowEl, 'r') || '', 10);
+            const rowIdx = Number.isNaN(rowNum) ? rows.length : rowNum - 1;
+            if (rowIdx >= MAX_ROWS) return;
+            const row: string[] = [];
+            childrenByName(rowEl, 'c').forEach(cell => {
+                const ref = attr(cell, 'r');
+                const colIdx = ref ? columnIndexFromRef(ref) : row.length;
+                if (colIdx >= MAX_COLUMNS) return;
+                const type = attr(cell, 't');
+                let value = '';
+                if (type === 'inlineStr') {
+                    value = childrenByName(cell, 't').map(t => t.textContent || '').join('');
+                } else {
+                    const v = childrenByName(cell, 'v')[0]?.textContent ?? '';
+                    if (type === 's') value = sharedStrings[parseInt(v, 10)] ?? '';
+                    else if (type === 'b') value = v === '1' ? 'TRUE' : 'FALSE';
+                    else {
+                        // Numbers come unformatted, so dates arrive as day counts and percents as fractions
+                        const format = cellFormats[parseInt(attr(cell, 's') || '0', 10)];
+                        const serial = Number(v);
+                        value = format && v !== '' && (!type || type === 'n') && Number.isFinite(serial) ? formatSerial(serial, format, date1904) : v;
+                    }
+                }
+                row[colIdx] = value;
+            });
+            rows[rowIdx] = Array.from(row, v => v ?? '');
+        });
+        return { name, rows: Array.from(rows, r => r ?? []) };
+    });
+}
+
+function parseOds(buffer: ArrayBuffer): ImportedSheet[] {
+    const files = unzipSync(new Uint8Array(buffer));
+    const contentXml = readZipText(files, 'content.xml');
+    if (!contentXml) throw new Error("Not a valid .ods file (missing content.xml).");
+
+    // Repeated rows/cells are how ODS encodes blank space; cap them so a
+    // "repeat 1048576 times" trailer doesn't explode memory.
+    const MAX_REPEAT = 1000;
+
+    return childrenByName(parseXml(contentXml), 'table').map((table, i) => {
+        const name = attr(table, 'name') || `Sheet ${i + 1}`;
+        const rows: string[][] = [];
+        childrenByName(table, 'table-row').forEach(rowEl => {
+            const row: string[] = [];
+            Array.from(rowEl.children).forEach(cell => {
+                if (cell.localName !== 'table-cell' && cell.localName !== 'covered-table-cell') return;
+                const text = childrenByName(cell, 'p').map(p => p.textContent || '').join('\n');
+                const repeat = Math.min(parseInt(attr(cell, 'number-columns-repeated') || '1', 10), MAX_REPEAT);
+                for (let r = 0; r < repeat; r++) row.push(text);
+            });
+            // Blank repeated rows collapse to one; trimSheet drops them at the end anyway
+            const isBlank = row.every(v => v.trim() === '');
+            const repeat = isBlank ? 1 : Math.min(parseInt(attr(rowEl, 'number-rows-repeated') || '1', 10), MAX_REPEAT);
+            for (let r = 0; r < repeat; r++) rows.push([...row]);
+        });
+        return { name, rows };
+    });
+}
+
+// Drops fully empty trailing rows/columns (spreadsheets love to carry formatting-only cells)
+export function trimSheet(rows: string[][]): string[][] {
+    const isBlank = (v: string | undefined) => v === undefined || v.trim() === '';
+    const trimmed = rows.map(r => [...r]);
+    while (trimmed.length && trimmed[trimmed.length - 1].every(isBlank)) trimmed.pop();
+    let width = 0;
+    trimmed.forEach(r => {
+        for (let c = r.length - 1; c >= 0; c--) {
+            if (!isBlank(r[c])) { width = Math.max(width, c + 1); break; }
+        }
+    });
+    return trimmed.map(r => Array.from({ length: width }, (_, c) => (r[c] ?? '').trim()));
+}
+
+export async function readSpreadsheetFile(file: File, encoding: string = 'utf-8'): Promise<ImportedSheet[]> {
+    const kind = detectSpreadsheetKind(file.name);
+    if (!kind) throw new Error(`Unsupported file type: ${file.name}`);
+
+    const buffer = await file.arrayBuffer();
+    let sheets: ImportedSheet[];
+
+    if (kind === 'xlsx') {
+        sheets = parseXlsx(buffer);
+    } else if (kind === 'ods') {
+        sheets = parseOds(buffer);
+    } else {
+        const text = new TextDecoder(encoding).decode(buffer);
+        const rows = parseDelimited(text, kind === 'tsv' ? '\t' : undefined);
+        sheets = [{ name: file.name, rows }];
+    }
+
+    return sheets.map(s => ({ ...s, rows: trimSheet(s.rows) }));
+}
+
+export function buildTableFromSheet(rows: string[][], options: ImportOptions): TableData {
+    const header = rows[options.headerRow] || [];
+    const body = rows.slice(options.headerRow + 1).filter(r => r.some(v => v.trim() !== ''));
+    const width = Math.max(header.length, ...body.map(r => r.length));
+
+    const order = Array.from({ length: width }, (_, i) => i);
+    if (options.subjectColumn > 0 && options.subjectColumn < width) {
+        order.splice(options.subjectColumn, 1);
+        order.unshift(options.subjectColumn);
+    }
+
+    return {
+        title: options.title,
+        columns: order.map(i => header[i]?.trim() || `Column ${i + 1}`),
+        data: body.map(r => order.map(i => r[i] ?? ''))
+    };
+}
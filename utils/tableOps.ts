@@ -0,0 +1,156 @@
+import { TableData } from '../types';
+
+// Pure, immutable edits on TableData used by the grid editor.
+// Every helper returns a new object so React state updates stay cheap to diff.
+
+const cloneRows = (data: TableData) => data.data.map(row => [...row]);
+
+const moveItem = <T>(list: T[], from: number, to: number): T[] => {
+    if (to < 0 || to >= list.length || from === to) return list;
+    const next = [...list];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
+
+// Rows are padded to the column count so ragged JSON still edits predictably
+const padRow = (row: string[], length: number) => {
+    const next = [...row];
+    while (next.length < length) next.push("");
+    return next;
+};
+
+export const setCell = (data: TableData, rowIdx: number, colIdx: number, value: string): TableData => {
+    const rows = cloneRows(data);
+    rows[rowIdx] = padRow(rows[rowIdx] || [], colIdx + 1);
+    rows[rowIdx][colIdx] = value;
+    return { ...data, data: rows };
+};
+
+export const setHeader = (data: TableData, colIdx: number, value: string): TableData => {
+    const columns = [...data.columns];
+    columns[colIdx] = value;
+    return { ...data, columns };
+};
+
+export const addRow = (data: TableData, atIdx: number = data.data.length): TableData => {
+    const rows = cloneRows(data);
+    rows.splice(atIdx, 0, new Array(data.columns.length).fill(""));
+    return { ...data, data: rows };
+};
+
+export const deleteRow = (data: TableData, rowIdx: number): TableData => ({
+    ...data,
+    data: data.data.filter((_, i) => i !== rowIdx)
+});
+
+export const duplicateRow = (data: TableData, rowIdx: number): TableData => {
+    const rows = cloneRows(data);
+    rows.splice(rowIdx + 1, 0, [...rows[rowIdx]]);
+    return { ...data, data: rows };
+};
+
+export const moveRow = (data: TableData, from: number, to: number): TableData => ({
+    ...data,
+    data: moveItem(data.data, from, to)
+});
+
+// Stable, so rows that compare equal keep their order
+export const sortRows = (data: TableData, compare: (a: string[], b: string[]) => number): TableData => ({
+    ...data,
+    data: [...data.data].sort(compare)
+});
+
+export const addColumn = (data: TableData, atIdx: number = data.columns.length, header: string = "New Column"): TableData => {
+    const columns = [...data.columns];
+    columns.splice(atIdx, 0, header);
+    const rows = data.data.map(row => {
+        const next = padRow(row, atIdx);
+        next.splice(atIdx, 0, "");
+        return next;
+    });
+    return { ...data, columns, data: rows };
+};
+
+export const deleteColumn = (data: TableData, colIdx: number): TableData => ({
+    ...data,
+    columns: data.columns.filter((_, i) => i !== colIdx),
+    data: data.data.map(row => row.filter((_, i) => i !== colIdx))
+});
+
+export const duplicateColumn = (data: TableData, colIdx: number): TableData => {
+    const columns = [...data.columns];
+    columns.splice(colIdx + 1, 0, `${data.columns[colIdx]} (copy)`);
+    const rows = data.data.map(row => {
+        const next = padRow(row, colIdx + 1);
+        next.splice(colIdx + 1, 0, next[colIdx]);
+        return next;
+    });
+    return { ...data, columns, data: rows };
+};
+
+export const moveColumn = (data: TableData, from: number, to: number): TableData => {
+    if (to < 0 || to >= data.columns.length) return data;
+    return {
+        ...data,
+        columns: moveItem(data.columns, from, to),
+        data: data.data.map(row => moveItem(padRow(row, data.columns.length), from, to))
+    };
+};
+
+/**
+ * Parses clipboard text copied from Excel / Google Sheets / LibreOffice.
+ * Spreadsheets put TSV on the clipboard and wrap cells containing tabs,
+ * newlines or quotes in double quotes.
+ */
+export const parseClipboardGrid = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let inQuotes = false;
+    const src = text.replace(/\r\n?/g, "\n");
+
+    for (let i = 0; i < src.length; i++) {
+        const ch = src[i];
+        if (inQuotes) {
+            if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else cell += ch;
+        } else if (ch === '"' && cell === "") {
+            inQuotes = true;
+        } else if (ch === '\t') {
+            row.push(cell); cell = "";
+        } else if (ch === '\n') {
+            row.push(cell); rows.push(row);
+            row = []; cell = "";
+        } else {
+            cell += ch;
+        }
+    }
+    // Spreadsheets usually end the clipboard with a trailing newline
+    if (cell !== "" || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+};
+
+/**
+ * Writes a pasted block starting at the given cell. Rows are appended as
+ * needed; extra columns beyond the table are dropped rather than silently
+ * creating headers.
+ */
+export const pasteBlock = (data: TableData, startRow: number, startCol: number, block: string[][]): TableData => {
+    const rows = cloneRows(data);
+    const width = data.columns.length;
+    block.forEach((blockRow, r) => {
+        const rowIdx = startRow + r;
+        if (!rows[rowIdx]) rows[rowIdx] = new Array(width).fill("");
+        rows[rowIdx] = padRow(rows[rowIdx], width);
+        blockRow.forEach((value, c) => {
+            const colIdx = startCol + c;
+            if (colIdx < width) rows[rowIdx][colIdx] = value.trim();
+        });
+    });
+    return { ...data, data: rows };
+};
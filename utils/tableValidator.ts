@@ -0,0 +1,334 @@
+import { TableData } from '../types';
+
+// A small JSON parser that keeps source offsets for every value, so problems in
+// TableData can be reported with a JSON path and a line/column in the Editor.
+// JSON.parse only gives a single message with no usable position across browsers.
+
+type JsonNode =
+    | { kind: 'object'; start: number; end: number; entries: { key: string; keyStart: number; value: JsonNode }[] }
+    | { kind: 'array'; start: number; end: number; items: JsonNode[] }
+    | { kind: 'string'; start: number; end: number; value: string }
+    | { kind: 'number'; start: number; end: number; value: number }
+    | { kind: 'boolean'; start: number; end: number; value: boolean }
+    | { kind: 'null'; start: number; end: number; value: null };
+
+export type FixKind = 'pad-rows' | 'truncate-rows' | 'stringify-cells';
+
+export interface ValidationIssue {
+    severity: 'error' | 'warning';
+    message: string;
+    path: string;
+    line: number;   // 1-based
+    column: number; // 1-based
+    fix?: FixKind;
+}
+
+export interface ValidationResult {
+    data: TableData | null; // normalized data, null when there are errors
+    issues: ValidationIssue[];
+}
+
+export const FIX_LABELS: Record<FixKind, string> = {
+    'pad-rows': 'Pad short rows',
+    'truncate-rows': 'Trim long rows',
+    'stringify-cells': 'Convert cells to text',
+};
+
+class JsonSyntaxError extends Error {
+    constructor(message: string, public offset: number) {
+        super(message);
+    }
+}
+
+class JsonParser {
+    private pos = 0;
+
+    constructor(private text: string) {}
+
+    parse(): JsonNode {
+        this.skipWhitespace();
+        const node = this.parseValue();
+        this.skipWhitespace();
+        if (this.pos < this.text.length) {
+            throw new JsonSyntaxError("Unexpected content after the end of the JSON document", this.pos);
+        }
+        return node;
+    }
+
+    private skipWhitespace() {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+    }
+
+    private describe(offset: number) {
+        if (offset >= this.text.length) return "end of input";
+        const ch = this.text[offset];
+        if (ch === '“' || ch === '”') return `curly quote '${ch}' (use a straight " quote)`;
+        return `'${ch}'`;
+    }
+
+    private parseValue(): JsonNode {
+        const ch = this.text[this.pos];
+        if (ch === '{') return this.parseObject();
+        if (ch === '[') return this.parseArray();
+        if (ch === '"') return this.parseString();
+        if (ch === '-' || (ch >= '0' && ch <= '9')) return this.parseNumber();
+        for (const [word, kind, value] of [['true', 'boolean', true], ['false', 'boolean', false], ['null', 'null', null]] as const) {
+            if (this.text.startsWith(word, this.pos)) {
+                const start = this.pos;
+                this.pos += word.length;
+                return { kind, start, end: this.pos, value } as JsonNode;
+            }
+        }
+        throw new JsonSyntaxError(`Expected a value but found ${this.describe(this.pos)}`, this.pos);
+    }
+
+    private parseObject(): JsonNode {
+        const start = this.pos++;
+        const entries: { key: string; keyStart: number; value: JsonNode }[] = [];
+        this.skipWhitespace();
+        if (this.text[this.pos] === '}') {
+            this.pos++;
+            return { kind: 'object', start, end: this.pos, entries };
+        }
+        while (true) {
+            this.skipWhitespace();
+            if (this.text[this.pos] !== '"') {
+                const hint = this.text[this.pos] === '}' ? " (remove the trailing comma)" : "";
+                throw new JsonSyntaxError(`Expected a property name in double quotes but found ${this.describe(this.pos)}${hint}`, this.pos);
+            }
+            const keyStart = this.pos;
+            const key = (this.parseString() as { value: string }).value;
+            this.skipWhitespace();
+            if (this.text[this.pos] !== ':') {
+                throw new JsonSyntaxError(`Expected ':' after property "${key}" but found ${this.describe(this.pos)}`, this.pos);
+            }
+            this.pos++;
+            this.skipWhitespace();
+            entries.push({ key, keyStart, value: this.parseValue() });
+            this.skipWhitespace();
+            const next = this.text[this.pos];
+            if (next === ',') { this.pos++; continue; }
+            if (next === '}') { this.pos++; return { kind: 'object', start, end: this.pos, entries }; }
+            throw new JsonSyntaxError(`Expected ',' or '}' after property "${key}" but found ${this.describe(this.pos)}`, this.pos);
+        }
+    }
+
+    private parseArray(): JsonNode {
+        const start = this.pos++;
+        const items: JsonNode[] = [];
+        this.skipWhitespace();
+        if (this.text[this.pos] === ']') {
+            this.pos++;
+            return { kind: 'array', start, end: this.pos, items };
+        }
+        while (true) {
+            this.skipWhitespace();
+            if (this.text[this.pos] === ']' && items.length > 0) {
+                throw new JsonSyntaxError("Trailing comma before ']' (remove the last comma)", this.pos);
+            }
+            items.push(this.parseValue());
+            this.skipWhitespace();
+            const next = this.text[this.pos];
+            if (next === ',') { this.pos++; continue; }
+            if (next === ']') { this.pos++; return { kind: 'array', start, end: this.pos, items }; }
+            const hint = next === '"' ? " (missing comma between items?)" : "";
+            throw new JsonSyntaxError(`Expected ',' or ']' after array item but found ${this.describe(this.pos)}${hint}`, this.pos);
+        }
+    }
+
+    private parseString(): JsonNode {
+        const start = this.pos++;
+        let value = "";
+        while (this.pos < this.text.length) {
+            const ch = this.text[this.pos];
+            if (ch === '"') {
+                this.pos++;
+                return { kind: 'string', start, end: this.pos, value };
+            }
+            if (ch === '\n') {
+                throw new JsonSyntaxError("Unterminated string (line break inside quotes, use \\n instead)", this.pos);
+            }
+            if (ch === '\\') {
+                const esc = this.text[this.pos + 1];
+                const simple: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+                if (esc in simple) {
+                    value += simple[esc];
+                    this.pos += 2;
+                } else if (esc === 'u' && /^[0-9a-fA-F]{4}$/.test(this.text.slice(this.pos + 2, this.pos + 6))) {
+                    value += String.fromCharCode(parseInt(this.text.slice(this.pos + 2, this.pos + 6), 16));
+                    this.pos += 6;
+                } else {
+                    throw new JsonSyntaxError(`Invalid escape sequence '\\${esc ?? ''}'`, this.pos);
+                }
+                continue;
+            }
+            value += ch;
+            this.pos++;
+        }
+        throw new JsonSyntaxError("Unterminated string (missing closing quote)", start);
+    }
+
+    private parseNumber(): JsonNode {
+        const start = this.pos;
+        const pattern = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+        pattern.lastIndex = this.pos;
+        const match = pattern.exec(this.text);
+        if (!match) throw new JsonSyntaxError(`Invalid number starting with ${this.describe(this.pos)}`, this.pos);
+        this.pos += match[0].length;
+        return { kind: 'number', start, end: this.pos, value: Number(match[0]) };
+    }
+}
+
+const toValue = (node: JsonNode): unknown => {
+    switch (node.kind) {
+        case 'object': return Object.fromEntries(node.entries.map(e => [e.key, toValue(e.value)]));
+        case 'array': return node.items.map(toValue);
+        default: return node.value;
+    }
+};
+
+// Offset of the first character of each line
+function getLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+}
+
+function offsetToLineColumn(lineStarts: number[], offset: number) {
+    // Last line starting at or before the offset
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (lineStarts[mid] <= offset) lo = mid;
+        else hi = mid - 1;
+    }
+    return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+}
+
+const isScalar = (node: JsonNode) => node.kind === 'number' || node.kind === 'boolean' || node.kind === 'null';
+
+const describeKind = (node: JsonNode) => node.kind === 'null' ? 'null' : node.kind === 'array' || node.kind === 'object' ? `an ${node.kind}` : `a ${node.kind}`;
+
+const cellToString = (value: unknown) => value === null || value === undefined ? "" : String(value);
+
+/** Parses and checks a JSON string against the TableData shape. */
+export function validateTableJson(text: string): ValidationResult {
+    const issues: ValidationIssue[] = [];
+    let lineStarts: number[] | null = null;
+    const report = (severity: ValidationIssue['severity'], offset: number, path: string, message: string, fix?: FixKind) => {
+        lineStarts ??= getLineStarts(text);
+        issues.push({ severity, message, path, fix, ...offsetToLineColumn(lineStarts, offset) });
+    };
+
+    let root: JsonNode;
+    try {
+        root = new JsonParser(text).parse();
+    } catch (e) {
+        if (e instanceof JsonSyntaxError) {
+            report('error', e.offset, '$', e.message);
+            return { data: null, issues };
+        }
+        throw e;
+    }
+
+    if (root.kind !== 'object') {
+        report('error', root.start, '$', "The table must be a JSON object with 'columns' and 'data'.");
+        return { data: null, issues };
+    }
+
+    const field = (key: string) => root.kind === 'object' ? root.entries.find(e => e.key === key)?.value : undefined;
+
+    for (const key of ['title', 'summary']) {
+        const node = field(key);
+        if (node && node.kind !== 'string') report('error', node.start, `$.${key}`, `'${key}' must be a string.`);
+    }
+
+    const sources = field('sources');
+    if (sources && (sources.kind !== 'array' || sources.items.some(s => s.kind !== 'string'))) {
+        report('error', sources.start, '$.sources', "'sources' must be an array of strings.");
+    }
+
+    const columns = field('columns');
+    let numCols = 0;
+    if (!columns) {
+        report('error', root.start, '$.columns', "Missing 'columns' array.");
+    } else if (columns.kind !== 'array') {
+        report('error', columns.start, '$.columns', "'columns' must be an array of header strings.");
+    } else {
+        numCols = columns.items.length;
+        if (numCols === 0) report('error', columns.start, '$.columns', "'columns' must contain at least one header.");
+        columns.items.forEach((col, i) => {
+            if (col.kind === 'string') return;
+            if (isScalar(col)) report('warning', col.start, `$.columns[${i}]`, `Header ${i + 1} is ${describeKind(col)}, not text.`, 'stringify-cells');
+            else report('error', col.start, `$.columns[${i}]`, `Header ${i + 1} must be a string.`);
+        });
+    }
+
+    const rows = field('data');
+    if (!rows) {
+        report('error', root.start, '$.data', "Missing 'data' array.");
+    } else if (rows.kind !== 'array') {
+        report('error', rows.start, '$.data', "'data' must be an array of rows.");
+    } else {
+        rows.items.forEach((row, r) => {
+            const path = `$.data[${r}]`;
+            if (row.kind !== 'array') {
+                report('error', row.start, path, `Row ${r + 1} must be an array of cells.`);
+                return;
+            }
+            if (numCols > 0 && row.items.length < numCols) {
+                report('error', row.start, path, `Row ${r + 1} has ${row.items.length} cells but there are ${numCols} columns.`, 'pad-rows');
+            } else if (numCols > 0 && row.items.length > numCols) {
+                report('error', row.start, path, `Row ${r + 1} has ${row.items.length} cells but there are only ${numCols} columns.`, 'truncate-rows');
+            }
+            row.items.forEach((cell, c) => {
+                if (cell.kind === 'string') return;
+                if (isScalar(cell)) report('warning', cell.start, `${path}[${c}]`, `Cell (${r + 1}, ${c + 1}) is ${describeKind(cell)}, not text.`, 'stringify-cells');
+                else report('error', cell.start, `${path}[${c}]`, `Cell (${r + 1}, ${c + 1}) must be a string, not ${describeKind(cell)}.`);
+            });
+        });
+    }
+
+    if (issues.some(i => i.severity === 'error')) return { data: null, issues };
+
+    // Only warnings left: hand the renderers plain strings so they never see numbers/null
+    // The checks above guarantee this shape
+    const value = toValue(root) as Omit<TableData, 'columns' | 'data'> & { columns: unknown[]; data: unknown[][] };
+    const data: TableData = {
+        ...value,
+        columns: value.columns.map(cellToString),
+        data: value.data.map(row => row.map(cellToString))
+    };
+    return { data, issues };
+}
+
+/**
+ * Applies a one-click fix to the raw JSON text. The fixed document is
+ * re-serialized, so it must at least be syntactically valid JSON.
+ */
+export function applyTableFix(text: string, fix: FixKind): string {
+    const value = JSON.parse(text);
+    const numCols = Array.isArray(value.columns) ? value.columns.length : 0;
+    const rows: unknown[] = Array.isArray(value.data) ? value.data : [];
+
+    switch (fix) {
+        case 'pad-rows':
+            value.data = rows.map(row => Array.isArray(row) && row.length < numCols
+                ? [...row, ...new Array(numCols - row.length).fill("")]
+                : row);
+            break;
+        case 'truncate-rows':
+            value.data = rows.map(row => Array.isArray(row) ? row.slice(0, numCols) : row);
+            break;
+        case 'stringify-cells': {
+            const convert = (v: unknown) => (v === null || typeof v === 'number' || typeof v === 'boolean') ? cellToString(v) : v;
+            if (Array.isArray(value.columns)) value.columns = value.columns.map(convert);
+            value.data = rows.map(row => Array.isArray(row) ? row.map(convert) : row);
+            break;
+        }
+    }
+    return JSON.stringify(value, null, 2);
+}
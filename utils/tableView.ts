@@ -0,0 +1,69 @@
+import { TableData, AnimationConfig } from '../types';
+import { getColumnType, isDateType, parseCell, compareCells, formatTable } from './columnFormat';
+import { compileFilter } from './rowFilter';
+
+// The table as the renderers see it: the editor's data with the view settings
+// applied and every typed cell formatted. The data itself is never changed.
+
+/** Indexes of the rows the presentation keeps, in the order it shows them. */
+export function getVisibleRows(data: TableData, config: AnimationConfig): number[] {
+    let rows = data.data.map((_, rowIdx) => rowIdx);
+    const view = config.view;
+
+    const range = config.dateRange;
+    const col = range ? data.columns.indexOf(range.column) : -1;
+    const type = col >= 0 ? getColumnType(data, config, col) : 'text';
+    if (range && isDateType(type)) {
+        // Ends are read in the column's calendar unless a month name says otherwise
+        const from = range.from ? parseCell(range.from, type) : null;
+        const to = range.to ? parseCell(range.to, type) : null;
+        if (from !== null || to !== null) {
+            rows = rows.filter(rowIdx => {
+                const day = parseCell(data.data[rowIdx][col] ?? '', type);
+                return day !== null && (from === null || day >= from) && (to === null || day <= to);
+            });
+        }
+    }
+
+    if (view?.filter?.trim()) {
+        // A half-typed expression shows everything rather than nothing; the view panel reports the error
+        try {
+            const keep = compileFilter(data, config, view.filter);
+            rows = rows.filter(rowIdx => keep(data.data[rowIdx]));
+        } catch (e) {}
+    }
+
+    const sortCol = view?.sortBy ? data.columns.indexOf(view.sortBy.column) : -1;
+    if (view?.sortBy && sortCol >= 0) {
+        const sortType = getColumnType(data, config, sortCol);
+        const sign = view.sortBy.direction === 'desc' ? -1 : 1;
+        const cell = (rowIdx: number) => data.data[rowIdx][sortCol] ?? '';
+        // Rows without a value stay at the end whichever way the column sorts
+        const missing = (rowIdx: number) => sortType !== 'text' && parseCell(cell(rowIdx), sortType) === null;
+        rows = [...rows].sort((a, b) =>
+            Number(missing(a)) - Number(missing(b)) || sign * compareCells(cell(a), cell(b), sortType));
+    }
+
+    if (view?.limit && view.limit.count > 0) {
+        rows = view.limit.from === 'bottom' ? rows.slice(-view.limit.count) : rows.slice(0, view.limit.count);
+    }
+    return rows;
+}
+
+/** Indexes of the columns the presentation keeps. The first column is the subject and always stays. */
+export function getVisibleColumns(data: TableData, config: AnimationConfig): number[] {
+    const hidden = new Set(config.view?.hiddenColumns ?? []);
+    return data.columns.map((_, col) => col).filter(col => col === 0 || !hidden.has(data.columns[col]));
+}
+
+export function getRenderTable(data: TableData, config: AnimationConfig): TableData {
+    const rows = getVisibleRows(data, config);
+    const cols = getVisibleColumns(data, config);
+    const unchanged = rows.length === data.data.length && rows.every((r, i) => r === i) && cols.length === data.columns.length;
+    const view = unchanged ? data : {
+        ...data,
+        columns: cols.map(col => data.columns[col]),
+        data: rows.map(rowIdx => cols.map(col => data.data[rowIdx][col] ?? '')),
+    };
+    return formatTable(view, config);
+}
@@ -0,0 +1,147 @@
+// Canvas text layout shared by every renderer (the live preview draws through
+// the same code, so wrapping there is exactly what gets exported).
+// Break opportunities come from Intl.Segmenter rather than spaces, so Devanagari
+// clusters are never split, CJK can wrap between characters and URLs can wrap
+// after their separators.
+
+export interface TextLayoutOptions {
+    maxWidth: number;
+    maxLines?: number; // extra lines are cut and the last kept line ends in an ellipsis
+    longWords?: 'hyphenate' | 'break'; // how to split a word wider than the whole line
+    locale?: string;
+}
+
+export interface TextLayout {
+    lines: string[];
+    truncated: boolean;
+    brokeWords: boolean; // a word had to be split across lines
+}
+
+export interface FitTextOptions extends TextLayoutOptions {
+    font: (size: number) => string;
+    size: number;
+    minSize?: number; // defaults to 60% of size
+}
+
+export interface FittedText extends TextLayout {
+    fontSize: number;
+}
+
+const ELLIPSIS = '…';
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+// Lines may break after these (URL and path separators, dashes)
+const BREAK_AFTER = /[\s/\-–—?&=|]$/;
+// ...but never before closing punctuation, e.g. "।", ")" or "。"
+const NO_BREAK_BEFORE = /^[\s\p{Pe}\p{Pf}\p{Po}]/u;
+const LETTER_END = /[\p{L}\p{M}]$/u;
+const LETTER_START = /^[\p{L}\p{M}]/u;
+
+const hasSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl;
+const segmenters = new Map<string, { word: Intl.Segmenter; grapheme: Intl.Segmenter }>();
+
+const getSegmenters = (locale?: string) => {
+    const key = locale || '';
+    let entry = segmenters.get(key);
+    if (!entry) {
+        entry = {
+            word: new Intl.Segmenter(locale, { granularity: 'word' }),
+            grapheme: new Intl.Segmenter(locale, { granularity: 'grapheme' }),
+        };
+        segmenters.set(key, entry);
+    }
+    return entry;
+};
+
+export function splitGraphemes(text: string, locale?: string): string[] {
+    if (hasSegmenter) return Array.from(getSegmenters(locale).grapheme.segment(text), s => s.segment);
+    // Keep combining marks on their base character
+    return text.match(/\P{M}\p{M}*/gu) || [];
+}
+
+const canBreakBetween = (prev: string, next: string) => {
+    if (NO_BREAK_BEFORE.test(next)) return false;
+    return BREAK_AFTER.test(prev) || CJK.test(prev.slice(-1)) || CJK.test(next.charAt(0));
+};
+
+// Splits a paragraph into pieces that must stay on one line. Trailing spaces stay on the piece before them.
+function breakUnits(text: string, locale?: string): string[] {
+    if (!hasSegmenter) return text.split(/(?<=\s)/);
+    const units: string[] = [];
+    let prev = '';
+    for (const { segment } of getSegmenters(locale).word.segment(text)) {
+        if (units.length === 0 || canBreakBetween(prev, segment)) units.push(segment);
+        else units[units.length - 1] += segment;
+        prev = segment;
+    }
+    return units;
+}
+
+// A hyphen only goes between two letters of a script that uses them
+const wantsHyphen = (head: string, rest: string) =>
+    !!rest && LETTER_END.test(head) && LETTER_START.test(rest) && !CJK.test(head.slice(-1));
+
+// The longest grapheme prefix of `word` that fits, and whatever is left over
+function breakWord(ctx: CanvasRenderingContext2D, word: string, maxWidth: number, policy: 'hyphenate' | 'break', locale?: string): [string, string] {
+    const graphemes = splitGraphemes(word, locale);
+    const hyphenFor = (n: number) => policy === 'hyphenate' && wantsHyphen(graphemes.slice(0, n).join(''), graphemes.slice(n).join('')) ? '-' : '';
+    // Always take at least one grapheme so a very narrow box still makes progress
+    let n = 1;
+    while (n < graphemes.length && ctx.measureText(graphemes.slice(0, n + 1).join('') + hyphenFor(n + 1)).width <= maxWidth) n++;
+    return [graphemes.slice(0, n).join('') + hyphenFor(n), graphemes.slice(n).join('')];
+}
+
+function ellipsize(ctx: CanvasRenderingContext2D, line: string, maxWidth: number, locale?: string): string {
+    const graphemes = splitGraphemes(line.trimEnd(), locale);
+    while (graphemes.length && ctx.measureText(graphemes.join('') + ELLIPSIS).width > maxWidth) graphemes.pop();
+    return graphemes.join('').replace(/[\s\-–—]+$/, '') + ELLIPSIS;
+}
+
+/** Wraps `text` to `maxWidth` using the context's current font. Newlines are hard breaks. */
+export function layoutText(ctx: CanvasRenderingContext2D, text: string, options: TextLayoutOptions): TextLayout {
+    const { maxWidth, maxLines = Infinity, longWords = 'hyphenate', locale } = options;
+    const fits = (s: string) => ctx.measureText(s.trimEnd()).width <= maxWidth;
+    const lines: string[] = [];
+    let brokeWords = false;
+
+    for (const paragraph of text.split(/\r?\n/)) {
+        let line = '';
+        for (const unit of breakUnits(paragraph, locale)) {
+            if (fits(line + unit)) {
+                line = line ? line + unit : unit.trimStart();
+                continue;
+            }
+            if (line.trim()) lines.push(line.trimEnd());
+            let rest = unit.trimStart();
+            while (rest && !fits(rest)) {
+                const [head, tail] = breakWord(ctx, rest.trimEnd(), maxWidth, longWords, locale);
+                lines.push(head);
+                rest = tail;
+                brokeWords = true;
+            }
+            line = rest;
+        }
+        if (line.trim() || !lines.length || !paragraph.trim()) lines.push(line.trimEnd());
+    }
+
+    if (lines.length <= maxLines) return { lines, truncated: false, brokeWords };
+    const kept = lines.slice(0, Math.max(1, maxLines));
+    kept[kept.length - 1] = ellipsize(ctx, kept[kept.length - 1], maxWidth, locale);
+    return { lines: kept, truncated: true, brokeWords };
+}
+
+/**
+ * Shrinks the font from `size` towards `minSize` until the text fits in
+ * `maxLines` without splitting words, then lays it out at that size.
+ * Leaves ctx.font set to the chosen size.
+ */
+export function fitText(ctx: CanvasRenderingContext2D, text: string, options: FitTextOptions): FittedText {
+    const minSize = options.minSize ?? Math.round(options.size * 0.6);
+    let size = options.size;
+    while (true) {
+        ctx.font = options.font(size);
+        const layout = layoutText(ctx, text, options);
+        if ((!layout.truncated && !layout.brokeWords) || size <= minSize) return { ...layout, fontSize: size };
+        size = Math.max(minSize, Math.floor(size * 0.92));
+    }
+}
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface HistoryEntry<T> {
+    label: string;
+    state: T;
+    timestamp: number;
+    named: boolean; // explicitly labelled actions are never merged into
+}
+
+interface HistoryOptions<T> {
+    // Label for changes nobody named (e.g. typing in the editor)
+    describe: (prev: T, next: T) => string;
+    // Unnamed changes with the same label within this window merge into one entry
+    coalesceMs?: number;
+    limit?: number;
+}
+
+/**
+ * Snapshot-based undo/redo. The hook watches `state` (which must change
+ * identity on every edit) and records a new entry whenever it changes, so the
+ * rest of the app keeps using its plain setters. Call `label()` right before
+ * a change to give the resulting entry a name.
+ */
+export function useHistory<T>(state: T, apply: (state: T) => void, options: HistoryOptions<T>) {
+    const { describe, coalesceMs = 1000, limit = 100 } = options;
+    const [entries, setEntries] = useState<HistoryEntry<T>[]>(() => [
+        { label: 'Initial state', state, timestamp: Date.now(), named: true }
+    ]);
+    const [index, setIndex] = useState(0);
+
+    const pendingLabelRef = useRef<string | null>(null);
+    const pendingResetRef = useRef<string | null>(null);
+    const travellingRef = useRef(false);
+    const lastStateRef = useRef(state);
+
+    useEffect(() => {
+        if (state === lastStateRef.current) return;
+        const prev = lastStateRef.current;
+        lastStateRef.current = state;
+
+        // Our own undo/redo re-applying an entry
+        if (travellingRef.current) {
+            travellingRef.current = false;
+            return;
+        }
+
+        const now = Date.now();
+
+        if (pendingResetRef.current) {
+            const label = pendingResetRef.current;
+            pendingResetRef.current = null;
+            pendingLabelRef.current = null;
+            setEntries([{ label, state, timestamp: now, named: true }]);
+            setIndex(0);
+            return;
+        }
+
+        const named = pendingLabelRef.current !== null;
+        const label = pendingLabelRef.current ?? describe(prev, state);
+        pendingLabelRef.current = null;
+
+        const kept = entries.slice(0, index + 1);
+        const last = kept[kept.length - 1];
+        if (!named && !last.named && last.label === label && now - last.timestamp < coalesceMs) {
+            kept[kept.length - 1] = { ...last, state, timestamp: now };
+            setEntries(kept);
+            return;
+        }
+        const next = [...kept, { label, state, timestamp: now, named }].slice(-limit);
+        setEntries(next);
+        setIndex(next.length - 1);
+    }, [state]);
+
+    const jumpTo = useCallback((target: number) => {
+        if (target < 0 || target >= entries.length || target === index) return;
+        travellingRef.current = true;
+        setIndex(target);
+        apply(entries[target].state);
+    }, [entries, index, apply]);
+
+    const undo = useCallback(() => jumpTo(index - 1), [jumpTo, index]);
+    const redo = useCallback(() => jumpTo(index + 1), [jumpTo, index]);
+
+    // Names the next recorded change
+    const label = useCallback((name: string) => { pendingLabelRef.current = name; }, []);
+
+    // The next change starts a fresh history (e.g. opening another project)
+    const reset = useCallback((name: string) => { pendingResetRef.current = name; }, []);
+
+    return {
+        entries,
+        index,
+        canUndo: index > 0,
+        canRedo: index < entries.length - 1,
+        undo,
+        redo,
+        jumpTo,
+        label,
+        reset,
+    };
+}
@@ -1,149 +1,259 @@
 
-import { TableData, AnimationConfig, Theme, Layout } from '../types';
+import { TableData, AnimationConfig, VideoFormat, Resolution, Presentation, TableNarration } from '../types';
 import { PresentationAudio } from './audioSynth';
+import { getMusicSeed, resolveMix } from './audioMix';
+import { SceneAssets, getFrameSize } from './sceneRenderer';
+import { WebMMuxer } from './webmMuxer';
+import { encodeWav } from './wavEncoder';
+import { SubtitleFormat, getSubtitleCues, formatSubtitles } from './subtitles';
+import { Mp4Muxer } from './mp4Muxer';
+import { PresentationPlan, planPresentation, getPresentationSoundCues, loadPresentationAssets, drawPresentationFrame } from './presentation';
+
+const FPS = 30;
+const KEYFRAME_INTERVAL = FPS * 2;
+const VIDEO_BITRATES: Record<Resolution, number> = {
+    [Resolution.HD]: 5000000,
+    [Resolution.FULL_HD]: 8000000,
+    [Resolution.UHD]: 35000000,
+};
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+
+const createCanvas = (config: AnimationConfig) => {
+    const { width, height } = getFrameSize(config);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create canvas context");
+    return { canvas, ctx };
+};
 
-export function getLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number) {
-    const words = text.split(" ");
-    const lines = [];
-    let currentLine = words[0];
-
-    for (let i = 1; i < words.length; i++) {
-        const word = words[i];
-        const width = ctx.measureText(currentLine + " " + word).width;
-        if (width < maxWidth) {
-            currentLine += " " + word;
-        } else {
-            lines.push(currentLine);
-            currentLine = word;
-        }
+export const VIDEO_FORMATS: { value: VideoFormat; label: string }[] = [
+    { value: 'mp4', label: 'MP4 (H.264)' },
+    { value: 'webm', label: 'WebM (VP9)' },
+];
+
+// The renderer may fall back to another container, so name files after what was actually produced
+export const getVideoExtension = (blob: Blob): VideoFormat => blob.type.startsWith('video/mp4') ? 'mp4' : 'webm';
+
+interface Muxer {
+    addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void;
+    addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata): void;
+    finalize(): Blob;
+}
+
+interface EncoderPlan {
+    video: VideoEncoderConfig;
+    audio: AudioEncoderConfig;
+    createMuxer: (width: number, height: number) => Muxer;
+}
+
+// H.264 level (as the hex suffix of the codec string) for a frame size, by macroblock count
+const avcLevel = (width: number, height: number) => {
+    const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+    if (macroblocks <= 8192) return '28';  // 4.0
+    if (macroblocks <= 22080) return '32'; // 5.0
+    if (macroblocks <= 36864) return '33'; // 5.1
+    return '34';                           // 5.2
+};
+
+const vp9Level = (width: number, height: number) => {
+    const pixels = width * height;
+    if (pixels <= 983040) return '31';
+    if (pixels <= 2228224) return '41';
+    return '51';
+};
+
+// Candidates per container, best first
+const ENCODER_CANDIDATES: Record<VideoFormat, {
+    videoCodecs: (width: number, height: number) => string[];
+    audioCodec: string;
+    createMuxer: (videoCodec: string, width: number, height: number) => Muxer;
+}> = {
+    mp4: {
+        // High, Main, then Constrained Baseline
+        videoCodecs: (w, h) => ['avc1.6400', 'avc1.4d00', 'avc1.42e0'].map(profile => profile + avcLevel(w, h)),
+        audioCodec: 'mp4a.40.2',
+        createMuxer: (_codec, width, height) => new Mp4Muxer(
+            { width, height, frameRate: FPS },
+            { sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS }
+        ),
+    },
+    webm: {
+        videoCodecs: (w, h) => [`vp09.00.${vp9Level(w, h)}.08`, 'vp8'],
+        audioCodec: 'opus',
+        createMuxer: (codec, width, height) => new WebMMuxer(
+            { codec: codec === 'vp8' ? 'V_VP8' : 'V_VP9', width, height, frameRate: FPS },
+            { codec: 'A_OPUS', sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS }
+        ),
+    },
+};
+
+async function pickEncoderConfigs(format: VideoFormat, config: AnimationConfig): Promise<EncoderPlan | null> {
+    if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined' || typeof OfflineAudioContext === 'undefined') {
+        return null;
     }
-    lines.push(currentLine);
-    return lines;
+    const candidates = ENCODER_CANDIDATES[format];
+    const { width, height } = getFrameSize(config);
+    const bitrate = VIDEO_BITRATES[config.resolution] || VIDEO_BITRATES[Resolution.FULL_HD];
+
+    const audio: AudioEncoderConfig = { codec: candidates.audioCodec, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS, bitrate: 128000 };
+    try {
+        if (!(await AudioEncoder.isConfigSupported(audio)).supported) return null;
+    } catch (e) {
+        return null;
+    }
+
+    for (const codec of candidates.videoCodecs(width, height)) {
+        const video: VideoEncoderConfig = { codec, width, height, bitrate, framerate: FPS };
+        // MP4 wants length-prefixed NAL units plus an avcC record, not Annex B
+        if (format === 'mp4') video.avc = { format: 'avc' };
+        try {
+            if ((await VideoEncoder.isConfigSupported(video)).supported) {
+                return { video, audio, createMuxer: (w, h) => candidates.createMuxer(codec, w, h) };
+            }
+        } catch (e) {}
+    }
+    return null;
 }
 
-export const loadImage = (src: string): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        // Only set crossOrigin for remote/cross-domain images. 
-        // Local/Relative images (./logo.jpg) usually fail if crossOrigin is set without proper server headers.
-        if (src.startsWith('http') && new URL(src, window.location.href).origin !== window.location.origin) {
-            img.crossOrigin = "anonymous";
-        }
-        img.onload = () => resolve(img);
-        img.onerror = () => {
-            console.warn(`Failed to load image: ${src}`);
-            reject(new Error(`Failed to load image: ${src}`));
-        };
-        img.src = src;
-    });
+// MediaRecorder types to try per container when WebCodecs can't do the job
+const RECORDER_TYPES: Record<VideoFormat, string[]> = {
+    mp4: ['video/mp4; codecs="avc1.640028, mp4a.40.2"', 'video/mp4'],  // MediaRecorder picks the level itself
+    webm: ['video/webm; codecs=vp9', 'video/webm'],
 };
 
-export function getThemeConfig(theme: Theme) {
-    switch (theme) {
-        case Theme.NEON:
-            return {
-                bg: '#000000',
-                fontMain: 'JetBrains Mono, monospace',
-                fontHeader: 'JetBrains Mono, monospace',
-                subjectColor: '#4ade80',
-                headerColor: '#ec4899',
-                valueColor: '#ffffff',
-                lineColor1: '#4ade80',
-                lineColor2: '#ec4899',
-                barColor1: '#22c55e',
-                barColor2: '#db2777',
-            };
-        case Theme.LUXE:
-            return {
-                bg: '#0a0a0a',
-                fontMain: 'Playfair Display, serif',
-                fontHeader: 'Inter, sans-serif',
-                subjectColor: '#fef3c7',
-                headerColor: '#78716c',
-                valueColor: '#fbbf24',
-                lineColor1: '#d97706',
-                lineColor2: '#b45309',
-                barColor1: '#b45309',
-                barColor2: '#fbbf24',
-            };
-        case Theme.GLASS:
-            return {
-                bg: '#0f172a',
-                fontMain: 'Inter, sans-serif',
-                fontHeader: 'Inter, sans-serif',
-                subjectColor: '#ffffff', 
-                headerColor: '#22d3ee',
-                valueColor: '#cffafe',
-                lineColor1: '#06b6d4',
-                lineColor2: '#3b82f6',
-                barColor1: '#06b6d4',
-                barColor2: '#2563eb',
-            };
-        case Theme.COSMIC:
-        default:
-            return {
-                bg: '#020617',
-                fontMain: 'Inter, sans-serif',
-                fontHeader: 'Inter, sans-serif',
-                subjectColor: '#ffffff',
-                headerColor: '#94a3b8',
-                valueColor: '#fef9c3',
-                lineColor1: '#a855f7',
-                lineColor2: '#3b82f6',
-                barColor1: '#3b82f6',
-                barColor2: '#9333ea',
-            };
+const pickRecorderType = (format: VideoFormat) =>
+    typeof MediaRecorder === 'undefined' ? undefined : RECORDER_TYPES[format].find(type => MediaRecorder.isTypeSupported(type));
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function encodeAudio(buffer: AudioBuffer, config: AudioEncoderConfig, muxer: Muxer) {
+    let failure: Error | null = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        error: (e) => { failure = e; }
+    });
+    encoder.configure(config);
+
+    // Feed the encoder 100ms at a time as planar float32
+    const block = Math.round(buffer.sampleRate / 10);
+    for (let offset = 0; offset < buffer.length; offset += block) {
+        const frames = Math.min(block, buffer.length - offset);
+        const planar = new Float32Array(frames * buffer.numberOfChannels);
+        for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+            planar.set(buffer.getChannelData(ch).subarray(offset, offset + frames), ch * frames);
+        }
+        const audioData = new AudioData({
+            format: 'f32-planar',
+            sampleRate: buffer.sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels: buffer.numberOfChannels,
+            timestamp: Math.round((offset / buffer.sampleRate) * 1e6),
+            data: planar
+        });
+        encoder.encode(audioData);
+        audioData.close();
     }
+    await encoder.flush();
+    encoder.close();
+    if (failure) throw failure;
 }
 
-export async function renderVideo(
-    data: TableData, 
-    config: AnimationConfig, 
-    voicePcm: string | null,
-    logoSrc: string | undefined,
+// The whole mix, exactly as long as the presentation
+const renderSoundtrack = (plan: PresentationPlan, config: AnimationConfig, seed: number) => PresentationAudio.renderOffline({
+    duration: plan.totalRunTime / 1000,
+    voiceClips: plan.voiceClips,
+    soundCues: getPresentationSoundCues(plan),
+    seed,
+    mix: resolveMix(config),
+    sampleRate: AUDIO_SAMPLE_RATE
+});
+
+/**
+ * Deterministic export: every frame is computed from its timestamp, the
+ * soundtrack is rendered with an OfflineAudioContext and both are encoded with
+ * WebCodecs, so the render runs as fast as the encoder allows.
+ */
+async function renderVideoOffline(
+    plan: PresentationPlan,
+    config: AnimationConfig,
+    seed: number,
+    assets: SceneAssets[],
+    encoders: EncoderPlan,
     onProgress: (progress: number) => void
 ): Promise<Blob> {
-    return new Promise(async (resolve, reject) => {
-        const canvas = document.createElement('canvas');
-        canvas.width = 1080;
-        canvas.height = 1080;
-        const ctx = canvas.getContext('2d');
-
-        if (!ctx) {
-            reject(new Error("Could not create canvas context"));
-            return;
+    const { canvas, ctx } = createCanvas(config);
+    const muxer = encoders.createMuxer(canvas.width, canvas.height);
+
+    const soundtrack = await renderSoundtrack(plan, config, seed);
+    await encodeAudio(soundtrack, encoders.audio, muxer);
+
+    let failure: Error | null = null;
+    // A failed encoder closes without dequeuing, so a failure also ends the wait for the queue
+    let wakeUp: (() => void) | null = null;
+    const encoder = new VideoEncoder({
+        output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+        error: (e) => {
+            failure = e;
+            wakeUp?.();
         }
-
-        try { await document.fonts.ready; } catch (e) {}
-
-        // Load background image if exists
-        let bgImage: HTMLImageElement | null = null;
-        if (config.backgroundImage) {
-            try {
-                bgImage = await loadImage(config.backgroundImage);
-            } catch (e) {
-                console.warn("Failed to load background image for render");
-            }
+    });
+    encoder.configure(encoders.video);
+
+    const totalFrames = Math.ceil((plan.totalRunTime / 1000) * FPS);
+    for (let i = 0; i < totalFrames; i++) {
+        if (failure) break;
+        const elapsed = (i * 1000) / FPS;
+        drawPresentationFrame(ctx, plan, elapsed, assets);
+
+        const frame = new VideoFrame(canvas, { timestamp: Math.round((i * 1e6) / FPS), duration: Math.round(1e6 / FPS) });
+        encoder.encode(frame, { keyFrame: i % KEYFRAME_INTERVAL === 0 });
+        frame.close();
+
+        // Don't outrun the encoder, and let the UI breathe now and then
+        if (encoder.encodeQueueSize > 8) {
+            await new Promise<void>(resolve => {
+                wakeUp = resolve;
+                encoder.addEventListener('dequeue', () => resolve(), { once: true });
+            });
+            wakeUp = null;
+        } else if (i % 10 === 0) {
+            await nextTick();
         }
+        onProgress(Math.min(elapsed / plan.totalRunTime, 1));
+    }
+    if (!failure) await encoder.flush();
+    if (encoder.state !== 'closed') encoder.close();
+    if (failure) throw failure;
 
-        // Load Logo
-        let logoImage: HTMLImageElement | null = null;
-        if (logoSrc) {
-            try {
-                logoImage = await loadImage(logoSrc);
-            } catch (e) {
-                console.warn("Logo failed to load");
-            }
-        }
+    return muxer.finalize();
+}
 
-        // Setup Audio
-        const audioSynth = new PresentationAudio(true); 
-        await audioSynth.start();
-        if (voicePcm) {
-            await audioSynth.playSpeech(voicePcm);
-        }
+/**
+ * Fallback for browsers without WebCodecs: records the canvas in real time
+ * with MediaRecorder while the audio plays into a stream destination.
+ */
+async function renderVideoRealtime(
+    plan: PresentationPlan,
+    config: AnimationConfig, 
+    assets: SceneAssets[],
+    seed: number,
+    mimeType: string,
+    onProgress: (progress: number) => void
+): Promise<Blob> {
+    const { canvas, ctx } = createCanvas(config);
+
+    // Setup Audio
+    const audioSynth = new PresentationAudio(true, { seed, mix: resolveMix(config) }); 
+    let recorder: MediaRecorder;
+    try {
+        await audioSynth.start(plan.totalRunTime / 1000);
+        await audioSynth.playVoiceClips(plan.voiceClips);
+        audioSynth.playSoundCues(getPresentationSoundCues(plan));
 
-        const canvasStream = canvas.captureStream(30);
+        const canvasStream = canvas.captureStream(FPS);
         const audioStream = audioSynth.streamDestination?.stream;
         
         const combinedTracks = [
@@ -153,11 +263,16 @@ export async function renderVideo(
         
         const finalStream = new MediaStream(combinedTracks);
 
-        const recorder = new MediaRecorder(finalStream, {
-            mimeType: 'video/webm; codecs=vp9',
-            videoBitsPerSecond: 8000000 
+        recorder = new MediaRecorder(finalStream, {
+            mimeType,
+            videoBitsPerSecond: VIDEO_BITRATES[config.resolution] || VIDEO_BITRATES[Resolution.FULL_HD]
         });
+    } catch (e) {
+        audioSynth.stop();
+        throw e;
+    }
 
+    return new Promise((resolve, reject) => {
         const chunks: Blob[] = [];
         recorder.ondataavailable = (e) => {
             if (e.data.size > 0) chunks.push(e.data);
@@ -165,433 +280,107 @@ export async function renderVideo(
 
         recorder.onstop = () => {
             audioSynth.stop();
-            const blob = new Blob(chunks, { type: 'video/webm' });
+            const blob = new Blob(chunks, { type: mimeType.split(';')[0] });
             resolve(blob);
         };
 
         recorder.start();
 
-        const numCols = data.columns.length;
-        const numAttributes = Math.max(1, numCols - 1);
-        const totalItems = data.data.length * numAttributes;
-        const durationPerItem = config.durationPerItem * 1000;
-        const totalDuration = totalItems * durationPerItem;
-        
-        // Add extra buffer at end
-        const endBuffer = 3000; 
-        const totalRunTime = totalDuration + endBuffer;
-
         let startTime: number | null = null;
-        let lastStepIndex = -1;
-
-        const themeStyle = getThemeConfig(config.theme);
 
         const drawFrame = (timestamp: number) => {
             if (!startTime) startTime = timestamp;
             const elapsed = timestamp - startTime;
 
-            if (elapsed > totalRunTime) {
+            if (elapsed > plan.totalRunTime) {
                 recorder.stop();
                 return;
             }
 
-            const progress = Math.min(elapsed / totalDuration, 1);
-            onProgress(progress);
-
-            const totalSteps = totalItems;
-            let currentStepIndex = Math.floor(elapsed / durationPerItem);
-            
-            if (currentStepIndex > lastStepIndex && currentStepIndex < totalSteps && lastStepIndex !== -1) {
-                audioSynth.triggerTransition();
-            }
-            lastStepIndex = currentStepIndex;
-
-            if (currentStepIndex >= totalSteps) currentStepIndex = totalSteps - 1;
-
-            const stepTime = elapsed % durationPerItem;
-
-            const rowIdx = Math.floor(currentStepIndex / numAttributes);
-            const attrIdx = currentStepIndex % numAttributes;
-            const colIdx = numCols > 1 ? attrIdx + 1 : 0;
-            
-            const currentRow = data.data[rowIdx];
-            const subject = currentRow?.[0] || "";
-            const header = data.columns[colIdx] || "";
-            const value = currentRow?.[colIdx] || "";
-            const subjectLabel = data.columns[0];
-            const mainTitle = data.title || "";
-
-            // --- DRAWING ---
-
-            // Background
-            ctx.fillStyle = themeStyle.bg;
-            ctx.fillRect(0,0, canvas.width, canvas.height);
-
-            if (bgImage) {
-                // Draw image cover
-                const scale = Math.max(canvas.width / bgImage.width, canvas.height / bgImage.height);
-                const x = (canvas.width / 2) - (bgImage.width / 2) * scale;
-                const y = (canvas.height / 2) - (bgImage.height / 2) * scale;
-                
-                // Slight slow zoom effect
-                const zoom = 1 + (elapsed / totalRunTime) * 0.1;
-                ctx.save();
-                ctx.translate(canvas.width/2, canvas.height/2);
-                ctx.scale(zoom, zoom);
-                ctx.translate(-canvas.width/2, -canvas.height/2);
-                ctx.drawImage(bgImage, x, y, bgImage.width * scale, bgImage.height * scale);
-                ctx.restore();
-
-                // Dark Overlay for readability
-                ctx.fillStyle = 'rgba(0,0,0,0.6)';
-                ctx.fillRect(0,0, canvas.width, canvas.height);
-            } else {
-                 // Fallback procedural
-                 if (config.theme === Theme.COSMIC) {
-                    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
-                    gradient.addColorStop(0, '#0f172a'); 
-                    gradient.addColorStop(1, '#020617');
-                    ctx.fillStyle = gradient;
-                    ctx.fillRect(0, 0, canvas.width, canvas.height);
-                 } else if (config.theme === Theme.NEON) {
-                    ctx.strokeStyle = 'rgba(0, 255, 0, 0.15)';
-                    ctx.lineWidth = 1;
-                    const gridSize = 50;
-                    for (let x = 0; x < canvas.width; x += gridSize) {
-                        ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, canvas.height); ctx.stroke();
-                    }
-                    for (let y = 0; y < canvas.height; y += gridSize) {
-                        ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(canvas.width, y); ctx.stroke();
-                    }
-                 }
-            }
-
-
-            // Title
-            if (mainTitle) {
-                ctx.globalAlpha = 0.8;
-                ctx.font = `bold 28px ${themeStyle.fontHeader}`;
-                ctx.fillStyle = '#cbd5e1'; 
-                ctx.textAlign = 'center';
-                ctx.textBaseline = 'top';
-                ctx.fillText(mainTitle.toUpperCase(), canvas.width / 2, 40);
-            }
-
-            const fadeTime = 300; 
-            let opacity = 1;
-            if (stepTime < fadeTime) opacity = stepTime / fadeTime;
-            if (stepTime > durationPerItem - fadeTime) opacity = (durationPerItem - stepTime) / fadeTime;
-
-            const centerX = canvas.width / 2;
-            const centerY = canvas.height / 2;
-            ctx.textBaseline = 'middle';
-
-            // Layout Switching
-            switch (config.layout) {
-                case Layout.SPLIT: {
-                    // Split Logic
-                    ctx.globalAlpha = 0.5;
-                    const grad = ctx.createLinearGradient(centerX, centerY - 300, centerX, centerY + 300);
-                    grad.addColorStop(0, 'transparent');
-                    grad.addColorStop(0.5, themeStyle.lineColor1);
-                    grad.addColorStop(1, 'transparent');
-                    ctx.fillStyle = grad;
-                    ctx.fillRect(centerX - 1, centerY - 300, 2, 600);
-
-                    // Subject
-                    ctx.textAlign = 'right';
-                    ctx.globalAlpha = 0.6;
-                    ctx.font = `bold 32px ${themeStyle.fontHeader}`;
-                    ctx.fillStyle = '#93c5fd'; 
-                    ctx.fillText(subjectLabel.toUpperCase(), centerX - 50, centerY - 50);
-    
-                    ctx.globalAlpha = 1; 
-                    ctx.font = `900 60px ${themeStyle.fontMain}`;
-                    ctx.fillStyle = themeStyle.subjectColor;
-                    const subjectLines = getLines(ctx, subject, 400); 
-                    subjectLines.forEach((l, i) => ctx.fillText(l, centerX - 50, centerY + 20 + (i * 70)));
-    
-                    // Attribute
-                    if (numCols > 1) {
-                        ctx.textAlign = 'left';
-                        ctx.globalAlpha = opacity;
-                        ctx.font = `italic 500 40px ${themeStyle.fontHeader}`;
-                        ctx.fillStyle = themeStyle.headerColor;
-                        ctx.fillText(header, centerX + 50, centerY - 50);
-                        
-                        ctx.font = `bold 50px ${themeStyle.fontMain}`;
-                        ctx.fillStyle = themeStyle.valueColor;
-                        const valueLines = getLines(ctx, value, 400);
-                        valueLines.forEach((line, i) => ctx.fillText(line, centerX + 50, centerY + 20 + (i * 60)));
-                    }
-                    break;
-                }
-
-                case Layout.DIAGONAL: {
-                    // Subject Top Left
-                    const leftX = 100;
-                    const topY = 250;
-                    ctx.textBaseline = 'top';
-                    
-                    ctx.textAlign = 'left';
-                    ctx.globalAlpha = 0.6;
-                    ctx.font = `bold 32px ${themeStyle.fontHeader}`;
-                    ctx.fillStyle = '#93c5fd';
-                    ctx.fillText(subjectLabel.toUpperCase(), leftX, topY);
-
-                    ctx.globalAlpha = 1;
-                    ctx.font = `900 70px ${themeStyle.fontMain}`;
-                    ctx.fillStyle = themeStyle.subjectColor;
-                    const subjectLines = getLines(ctx, subject, 600);
-                    subjectLines.forEach((l, i) => ctx.fillText(l, leftX, topY + 60 + (i * 80)));
-                    
-                    // Separator
-                    const lineY = topY + 60 + (subjectLines.length * 80) + 20;
-                    ctx.fillStyle = themeStyle.lineColor1;
-                    ctx.fillRect(leftX, lineY, 400, 4);
-
-                    // Attribute Bottom Right
-                    const rightX = canvas.width - 100;
-                    const bottomY = canvas.height - 350;
-
-                    if (numCols > 1) {
-                        ctx.textAlign = 'right';
-                        ctx.globalAlpha = opacity;
-                        ctx.font = `italic 500 50px ${themeStyle.fontHeader}`;
-                        ctx.fillStyle = themeStyle.headerColor;
-                        ctx.fillText(header, rightX, bottomY);
-                        
-                        ctx.font = `bold 80px ${themeStyle.fontMain}`;
-                        ctx.fillStyle = themeStyle.valueColor;
-                         const valueLines = getLines(ctx, value, 600);
-                        valueLines.forEach((line, i) => ctx.fillText(line, rightX, bottomY + 80 + (i * 90)));
-                    }
-                    break;
-                }
-                
-                case Layout.MAGAZINE: {
-                     // Big background subject
-                     ctx.save();
-                     ctx.textAlign = 'center';
-                     ctx.textBaseline = 'middle';
-                     ctx.globalAlpha = 0.15;
-                     ctx.font = `900 250px ${themeStyle.fontMain}`;
-                     ctx.fillStyle = themeStyle.subjectColor;
-                     ctx.fillText(subject, centerX, centerY);
-                     ctx.restore();
-
-                     // Foreground Subject
-                     ctx.textAlign = 'center';
-                     ctx.globalAlpha = 0.8;
-                     ctx.font = `bold 32px ${themeStyle.fontHeader}`;
-                     ctx.fillStyle = '#93c5fd';
-                     ctx.fillText(subjectLabel.toUpperCase(), centerX, centerY - 200);
-
-                     ctx.globalAlpha = 1;
-                     ctx.font = `900 70px ${themeStyle.fontMain}`;
-                     ctx.fillStyle = themeStyle.subjectColor;
-                     ctx.fillText(subject, centerX, centerY - 120);
-
-                     // Separator
-                     ctx.fillStyle = themeStyle.lineColor1;
-                     ctx.fillRect(centerX - 60, centerY - 50, 120, 6);
-
-                     // Attribute
-                     if (numCols > 1) {
-                         ctx.globalAlpha = opacity;
-                         ctx.font = `italic 500 45px ${themeStyle.fontHeader}`;
-                         ctx.fillStyle = themeStyle.headerColor;
-                         ctx.fillText(header, centerX, centerY + 50);
-
-                         ctx.font = `bold 70px ${themeStyle.fontMain}`;
-                         ctx.fillStyle = themeStyle.valueColor;
-                         const valueLines = getLines(ctx, value, 800);
-                         valueLines.forEach((line, i) => ctx.fillText(line, centerX, centerY + 130 + (i * 80)));
-                     }
-                     break;
-                }
-
-                case Layout.LOWER_THIRD: {
-                    // Content at bottom
-                    const bottomBase = canvas.height - 200;
-                    ctx.textBaseline = 'top';
-                    
-                    // Separator Line (Horizontal across)
-                    ctx.fillStyle = themeStyle.lineColor1;
-                    ctx.fillRect(50, bottomBase, canvas.width - 100, 3);
-                    
-                    // Subject (Left side)
-                    ctx.textAlign = 'left';
-                    const leftX = 80;
-                    
-                    ctx.globalAlpha = 0.6;
-                    ctx.font = `bold 28px ${themeStyle.fontHeader}`;
-                    ctx.fillStyle = '#93c5fd';
-                    ctx.fillText(subjectLabel.toUpperCase(), leftX, bottomBase - 160);
-
-                    ctx.globalAlpha = 1;
-                    ctx.font = `900 60px ${themeStyle.fontMain}`;
-                    ctx.fillStyle = themeStyle.subjectColor;
-                    const subLines = getLines(ctx, subject, 400);
-                    subLines.forEach((l, i) => ctx.fillText(l, leftX, bottomBase - 120 + (i * 70)));
-
-                    // Vertical Divider
-                    ctx.fillStyle = 'rgba(255,255,255,0.3)';
-                    ctx.fillRect(500, bottomBase - 150, 2, 130);
-
-                    // Attribute (Right side)
-                    if (numCols > 1) {
-                        const rightX = 540;
-                        ctx.globalAlpha = opacity;
-                        ctx.font = `italic 500 35px ${themeStyle.fontHeader}`;
-                        ctx.fillStyle = themeStyle.headerColor;
-                        ctx.fillText(header, rightX, bottomBase - 140);
-                        
-                        ctx.font = `bold 50px ${themeStyle.fontMain}`;
-                        ctx.fillStyle = themeStyle.valueColor;
-                        const valLines = getLines(ctx, value, 450);
-                        valLines.forEach((line, i) => ctx.fillText(line, rightX, bottomBase - 90 + (i * 60)));
-                    }
-                    break;
-                }
-
-                case Layout.STACKED:
-                default: {
-                     // Default Stacked
-                    ctx.textAlign = 'center';
-                    ctx.textBaseline = 'middle';
-                    
-                    ctx.globalAlpha = 0.6;
-                    ctx.font = `bold 42px ${themeStyle.fontHeader}`;
-                    ctx.fillStyle = '#93c5fd';
-                    ctx.fillText(subjectLabel.toUpperCase(), canvas.width / 2, canvas.height * 0.26);
-
-                    const isRowStart = attrIdx === 0;
-                    let subjectY = canvas.height * 0.44; 
-                    let subjectOpacity = 1;
-                    if (isRowStart && stepTime < 500) {
-                        const p = stepTime / 500;
-                        subjectY += (1 - p) * 20;
-                        subjectOpacity = p;
-                    }
-                    
-                    ctx.globalAlpha = subjectOpacity;
-                    ctx.font = `900 80px ${themeStyle.fontMain}`; 
-                    ctx.fillStyle = themeStyle.subjectColor;
-                    ctx.fillText(subject, canvas.width / 2, subjectY);
-
-                    ctx.globalAlpha = 1;
-                    ctx.fillStyle = themeStyle.lineColor1;
-                    ctx.fillRect((canvas.width - 200)/2, canvas.height * 0.58, 200, 4);
-
-                    if (numCols > 1) {
-                        ctx.globalAlpha = opacity;
-                        ctx.font = `italic 500 50px ${themeStyle.fontHeader}`;
-                        ctx.fillStyle = themeStyle.headerColor;
-                        ctx.fillText(header, canvas.width / 2, canvas.height * 0.68); 
-
-                        ctx.font = `bold 60px ${themeStyle.fontMain}`; 
-                        ctx.fillStyle = themeStyle.valueColor;
-                        const valueLines = getLines(ctx, value, 900); 
-                        valueLines.forEach((line, i) => {
-                            ctx.fillText(line, canvas.width / 2, canvas.height * 0.81 + (i * 80));
-                        });
-                    }
-                    break;
-                }
-            }
-
-            // Progress Bar
-            if (config.showProgressBar) {
-                ctx.globalAlpha = 1;
-                const barHeight = 20;
-                const barY = canvas.height - barHeight;
-                
-                ctx.fillStyle = '#1e293b';
-                ctx.fillRect(0, barY, canvas.width, barHeight);
-
-                const fillWidth = (elapsed / totalDuration) * canvas.width;
-                ctx.fillStyle = themeStyle.barColor1;
-                ctx.fillRect(0, barY, Math.min(fillWidth, canvas.width), barHeight);
-            }
-
-            // --- BRANDING & WATERMARKS ---
-
-            if (config.showAppName) {
-                // Watermark Logo (Top Right)
-                if (logoImage) {
-                    const logoSize = 80;
-                    const pad = 30;
-                    ctx.save();
-                    ctx.globalAlpha = 0.9;
-                    
-                    const lx = canvas.width - logoSize - pad;
-                    const ly = pad;
-                    
-                    // Draw rounded rectangle container logic
-                    const radius = 12;
-                    ctx.beginPath();
-                    ctx.moveTo(lx + radius, ly);
-                    ctx.lineTo(lx + logoSize - radius, ly);
-                    ctx.quadraticCurveTo(lx + logoSize, ly, lx + logoSize, ly + radius);
-                    ctx.lineTo(lx + logoSize, ly + logoSize - radius);
-                    ctx.quadraticCurveTo(lx + logoSize, ly + logoSize, lx + logoSize - radius, ly + logoSize);
-                    ctx.lineTo(lx + radius, ly + logoSize);
-                    ctx.quadraticCurveTo(lx, ly + logoSize, lx, ly + logoSize - radius);
-                    ctx.lineTo(lx, ly + radius);
-                    ctx.quadraticCurveTo(lx, ly, lx + radius, ly);
-                    ctx.closePath();
-                    ctx.clip();
-    
-                    // Draw image containing aspect ratio
-                    const imgAspect = logoImage.width / logoImage.height;
-                    let drawW = logoSize;
-                    let drawH = logoSize;
-                    let dx = lx;
-                    let dy = ly;
-                    
-                    if (imgAspect > 1) { // Landscape
-                        drawH = logoSize / imgAspect;
-                        dy = ly + (logoSize - drawH) / 2;
-                    } else { // Portrait
-                        drawW = logoSize * imgAspect;
-                        dx = lx + (logoSize - drawW) / 2;
-                    }
-                    
-                    ctx.drawImage(logoImage, dx, dy, drawW, drawH);
-                    ctx.restore();
-                }
-
-                // App Name Text (Bottom Right - above progress bar)
-                ctx.save();
-                ctx.textAlign = 'right';
-                ctx.textBaseline = 'bottom';
-                ctx.font = `bold 24px ${themeStyle.fontMain}`;
-                ctx.fillStyle = themeStyle.subjectColor;
-                ctx.globalAlpha = 0.7;
-                ctx.shadowColor = 'black';
-                ctx.shadowBlur = 4;
-                // Position just above progress bar (20px) + padding (20px)
-                ctx.fillText("LOKSEWA AUTOMATIC", canvas.width - 20, canvas.height - 40);
-                ctx.restore();
-            }
+            onProgress(Math.min(elapsed / plan.totalRunTime, 1));
 
-            if (config.showAiWatermark) {
-                ctx.save();
-                ctx.textAlign = 'left';
-                ctx.textBaseline = 'bottom';
-                ctx.font = `14px ${themeStyle.fontMain}`;
-                ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-                ctx.shadowColor = 'black';
-                ctx.shadowBlur = 2;
-                // Position just above progress bar (20px) + padding (20px)
-                ctx.fillText("AI Generated Content", 20, canvas.height - 40);
-                ctx.restore();
+            try {
+                drawPresentationFrame(ctx, plan, elapsed, assets);
+            } catch (e) {
+                // Stop without handing back a half-drawn video
+                recorder.onstop = null;
+                recorder.stop();
+                audioSynth.stop();
+                reject(e);
+                return;
             }
-            
             requestAnimationFrame(drawFrame);
         };
 
         requestAnimationFrame(drawFrame);
     });
 }
+
+/**
+ * Renders the presentation to the requested container. Prefers the offline
+ * WebCodecs path, then real-time recording, and finally falls back to WebM if
+ * the browser can't produce the requested format at all; check the blob's
+ * type (see getVideoExtension) for what was actually produced. With a
+ * presentation, all of its scenes go into the one video; with step narration,
+ * steps stretch to fit their lines.
+ */
+export async function renderVideo(
+    data: TableData, 
+    config: AnimationConfig, 
+    voicePcm: string | null,
+    logoSrc: string | undefined,
+    onProgress: (progress: number) => void,
+    format: VideoFormat = 'webm',
+    presentation?: Presentation,
+    narration?: TableNarration
+): Promise<Blob> {
+    const plan = planPresentation(presentation, data, config, voicePcm, narration);
+    const assets = await loadPresentationAssets(plan, logoSrc);
+    // Same melody as the preview, and the same on every export
+    const seed = getMusicSeed(resolveMix(config), data);
+    const formats: VideoFormat[] = format === 'webm' ? ['webm'] : [format, 'webm'];
+
+    for (const candidate of formats) {
+        const encoders = await pickEncoderConfigs(candidate, config);
+        if (encoders) {
+            return renderVideoOffline(plan, config, seed, assets, encoders, onProgress);
+        }
+        const recorderType = pickRecorderType(candidate);
+        if (recorderType) {
+            console.warn(`WebCodecs can't encode ${candidate}, falling back to real-time recording`);
+            return renderVideoRealtime(plan, config, assets, seed, recorderType, onProgress);
+        }
+        console.warn(`This browser can't produce ${candidate} video`);
+    }
+    throw new Error("This browser can't encode video");
+}
+
+/**
+ * The soundtrack alone (music, sound effects and voice) as a WAV file, for
+ * cutting the video in an editor. Same plan and seed as renderVideo, so it
+ * lines up with the video sample for sample.
+ */
+export async function renderAudioTrack(
+    data: TableData,
+    config: AnimationConfig,
+    voicePcm: string | null,
+    presentation?: Presentation,
+    narration?: TableNarration
+): Promise<Blob> {
+    const plan = planPresentation(presentation, data, config, voicePcm, narration);
+    return encodeWav(await renderSoundtrack(plan, config, getMusicSeed(resolveMix(config), data)));
+}
+
+// Subtitles timed to the video renderVideo produces for the same project
+export function renderSubtitles(
+    data: TableData,
+    config: AnimationConfig,
+    voicePcm: string | null,
+    format: SubtitleFormat,
+    presentation?: Presentation,
+    narration?: TableNarration
+): Blob {
+    const plan = planPresentation(presentation, data, config, voicePcm, narration);
+    const type = format === 'vtt' ? 'text/vtt' : 'application/x-subrip';
+    return new Blob([formatSubtitles(getSubtitleCues(plan), format)], { type: `${type};charset=utf-8` });
+}
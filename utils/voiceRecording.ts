@@ -0,0 +1,172 @@
+// Your own voice instead of TTS: microphone recordings and uploaded files are
+// decoded, trimmed and normalised, then stored exactly like a generated
+// voiceover (base64 24kHz mono Int16 PCM) so everything that plays or exports
+// a voiceover takes them as is.
+import { PCM_SAMPLE_RATE, createAudioContext, decodePcm, encodePcm } from './audioSynth';
+
+export const VOICE_FILE_ACCEPT = '.wav,.mp3,.ogg,.oga,.m4a,.webm,audio/*';
+const VOICE_FILE_PATTERN = /\.(wav|mp3|ogg|oga|m4a|webm)$/i;
+
+// Longer than any sensible voiceover, and about 20MB of PCM in the project
+const MAX_SECONDS = 10 * 60;
+// Checked before decoding, which holds several copies of the file in memory.
+// Ten minutes of CD-quality WAV still fits.
+const MAX_VOICE_BYTES = 110 * 1024 * 1024;
+
+// Peak level normalise brings a clip up (or down) to, just under full scale
+export const NORMALISE_PEAK = 0.89;
+// Quieter than this counts as silence when trimming the ends
+const SILENCE_LEVEL = 0.02;
+// Kept either side of the speech so words aren't clipped
+const TRIM_PADDING = 0.15; // seconds
+
+/** A clip being edited, at the stored sample rate. */
+export interface VoiceTake {
+    samples: Float32Array;
+    trimStart: number; // seconds
+    trimEnd: number;   // seconds
+    normalise: boolean;
+}
+
+export const takeDuration = (take: VoiceTake) => take.samples.length / PCM_SAMPLE_RATE;
+
+const newTake = (samples: Float32Array): VoiceTake => {
+    if (!samples.length) throw new Error("The recording is empty.");
+    if (samples.length / PCM_SAMPLE_RATE > MAX_SECONDS) {
+        throw new Error(`Voiceovers can be at most ${MAX_SECONDS / 60} minutes long.`);
+    }
+    return { samples, trimStart: 0, trimEnd: samples.length / PCM_SAMPLE_RATE, normalise: true };
+};
+
+/**
+ * Decodes any format the browser can play and mixes it down to mono at the
+ * stored sample rate. The offline context does the resampling.
+ */
+async function decodeToMono(bytes: ArrayBuffer): Promise<Float32Array> {
+    const ctx = createAudioContext();
+    let decoded: AudioBuffer;
+    try {
+        decoded = await ctx.decodeAudioData(bytes);
+    } catch (e) {
+        throw new Error("This audio file couldn't be read. Try WAV, MP3 or OGG.");
+    } finally {
+        ctx.close();
+    }
+
+    const length = Math.max(1, Math.ceil(decoded.duration * PCM_SAMPLE_RATE));
+    const offline = new OfflineAudioContext(1, length, PCM_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return rendered.getChannelData(0).slice();
+}
+
+export async function readVoiceFile(file: File): Promise<VoiceTake> {
+    if (!VOICE_FILE_PATTERN.test(file.name) && !file.type.startsWith('audio/')) {
+        throw new Error("Voiceovers must be WAV, MP3 or OGG files.");
+    }
+    if (file.size > MAX_VOICE_BYTES) {
+        throw new Error(`Voiceover files can be at most ${MAX_VOICE_BYTES / 1024 / 1024}MB.`);
+    }
+    return newTake(await decodeToMono(await file.arrayBuffer()));
+}
+
+export async function readVoiceBlob(blob: Blob): Promise<VoiceTake> {
+    return newTake(await decodeToMono(await blob.arrayBuffer()));
+}
+
+// An existing voiceover, to trim or normalise again
+export const takeFromPcm = (base64Pcm: string): VoiceTake => newTake(decodePcm(base64Pcm));
+
+/** Start and end of the speech, ignoring quiet at either end. The whole clip if it's all quiet. */
+export function findSpeech(samples: Float32Array): { start: number; end: number } {
+    let first = 0;
+    while (first < samples.length && Math.abs(samples[first]) < SILENCE_LEVEL) first++;
+    let last = samples.length - 1;
+    while (last > first && Math.abs(samples[last]) < SILENCE_LEVEL) last--;
+    const duration = samples.length / PCM_SAMPLE_RATE;
+    if (first >= samples.length) return { start: 0, end: duration };
+    return {
+        start: Math.max(0, first / PCM_SAMPLE_RATE - TRIM_PADDING),
+        end: Math.min(duration, (last + 1) / PCM_SAMPLE_RATE + TRIM_PADDING),
+    };
+}
+
+/** The take as it will be stored: trimmed, then normalised if asked. */
+export function applyTake(take: VoiceTake): Float32Array {
+    const start = Math.max(0, Math.floor(take.trimStart * PCM_SAMPLE_RATE));
+    const end = Math.min(take.samples.length, Math.ceil(take.trimEnd * PCM_SAMPLE_RATE));
+    const samples = take.samples.slice(start, Math.max(start, end));
+    if (take.normalise) {
+        let peak = 0;
+        for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+        if (peak > 0) {
+            const gain = NORMALISE_PEAK / peak;
+            for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+        }
+    }
+    return samples;
+}
+
+export function encodeTake(take: VoiceTake): string {
+    const samples = applyTake(take);
+    if (!samples.length) throw new Error("Nothing is left after trimming.");
+    return encodePcm(samples);
+}
+
+/** Peak level of each of `buckets` equal slices, for drawing a waveform. */
+export function getPeaks(samples: Float32Array, buckets: number): number[] {
+    const size = samples.length / buckets;
+    return Array.from({ length: buckets }, (_, i) => {
+        let peak = 0;
+        const end = Math.min(samples.length, Math.floor((i + 1) * size));
+        for (let j = Math.floor(i * size); j < end; j++) peak = Math.max(peak, Math.abs(samples[j]));
+        return peak;
+    });
+}
+
+// Recorders pick their own container; take the first the browser supports
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export interface VoiceRecorder {
+    stop: () => Promise<VoiceTake>;
+    cancel: () => void;
+}
+
+/** Starts recording from the microphone. The take is ready once stop resolves. */
+export async function startRecording(): Promise<VoiceRecorder> {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+        throw new Error("This browser can't record audio.");
+    }
+    let stream: MediaStream;
+    try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch (e) {
+        throw new Error("Microphone access was blocked. Allow it in the browser to record.");
+    }
+    const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+        if (e.data.size) chunks.push(e.data);
+    };
+    const release = () => stream.getTracks().forEach(track => track.stop());
+    recorder.start();
+
+    return {
+        stop: () => new Promise<VoiceTake>((resolve, reject) => {
+            recorder.onstop = () => {
+                release();
+                readVoiceBlob(new Blob(chunks, { type: recorder.mimeType })).then(resolve, reject);
+            };
+            recorder.stop();
+        }),
+        cancel: () => {
+            recorder.onstop = release;
+            if (recorder.state !== 'inactive') recorder.stop();
+            else release();
+        },
+    };
+}
@@ -0,0 +1,39 @@
+// 16-bit PCM WAV writer, for handing the soundtrack to an editor on its own.
+
+const HEADER_BYTES = 44;
+
+/** Encodes every channel of the buffer, interleaved, at its own sample rate. */
+export function encodeWav(buffer: AudioBuffer): Blob {
+    const channels = buffer.numberOfChannels;
+    const frames = buffer.length;
+    const dataBytes = frames * channels * 2;
+    const view = new DataView(new ArrayBuffer(HEADER_BYTES + dataBytes));
+
+    const writeText = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+    writeText(0, 'RIFF');
+    view.setUint32(4, 36 + dataBytes, true);
+    writeText(8, 'WAVE');
+    writeText(12, 'fmt ');
+    view.setUint32(16, 16, true);                             // fmt chunk size
+    view.setUint16(20, 1, true);                              // PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * channels * 2, true); // byte rate
+    view.setUint16(32, channels * 2, true);                   // block align
+    view.setUint16(34, 16, true);                             // bits per sample
+    writeText(36, 'data');
+    view.setUint32(40, dataBytes, true);
+
+    const data = Array.from({ length: channels }, (_, ch) => buffer.getChannelData(ch));
+    let offset = HEADER_BYTES;
+    for (let i = 0; i < frames; i++) {
+        for (let ch = 0; ch < channels; ch++) {
+            const s = Math.max(-1, Math.min(1, data[ch][i]));
+            view.setInt16(offset, s < 0 ? s * 32768 : s * 32767, true);
+            offset += 2;
+        }
+    }
+    return new Blob([view.buffer], { type: 'audio/wav' });
+}
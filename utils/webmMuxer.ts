@@ -0,0 +1,275 @@
+// Minimal WebM (Matroska) writer for WebCodecs output.
+// Everything is buffered in memory and laid out once in finalize(), which lets
+// us write exact element sizes, a SeekHead and Cues so the file is seekable.
+
+export interface MuxerVideoTrack {
+    codec: 'V_VP9' | 'V_VP8';
+    width: number;
+    height: number;
+    frameRate: number;
+}
+
+export interface MuxerAudioTrack {
+    codec: 'A_OPUS';
+    sampleRate: number;
+    numberOfChannels: number;
+    codecPrivate?: Uint8Array;
+}
+
+interface StoredChunk {
+    track: number;
+    timestampMs: number;
+    isKey: boolean;
+    data: Uint8Array<ArrayBuffer>;
+}
+
+type EbmlValue = number | string | Uint8Array | EbmlElement[] | { float: number };
+
+interface EbmlElement {
+    id: number;
+    value: EbmlValue;
+    // Forces an unsigned integer to a fixed byte width (used for SeekHead offsets)
+    width?: number;
+}
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+
+// --- EBML encoding ---
+
+const idBytes = (id: number) => {
+    const bytes: number[] = [];
+    for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+    return bytes;
+};
+
+const sizeBytes = (size: number) => {
+    let length = 1;
+    while (length < 8 && size >= Math.pow(2, 7 * length) - 1) length++;
+    const bytes = new Array(length).fill(0);
+    let v = size;
+    for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = v & 0xff;
+        v = Math.floor(v / 256);
+    }
+    bytes[0] |= 1 << (8 - length);
+    return bytes;
+};
+
+const uintBytes = (value: number, width?: number) => {
+    const bytes: number[] = [];
+    for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+    if (bytes.length === 0) bytes.push(0);
+    while (width && bytes.length < width) bytes.unshift(0);
+    return bytes;
+};
+
+const encodeElement = (el: EbmlElement): Uint8Array<ArrayBuffer> => {
+    let payload: Uint8Array;
+    const v = el.value;
+    if (typeof v === 'number') payload = new Uint8Array(uintBytes(v, el.width));
+    else if (typeof v === 'string') payload = new TextEncoder().encode(v);
+    else if (v instanceof Uint8Array) payload = v;
+    else if (Array.isArray(v)) payload = concat(v.map(encodeElement));
+    else {
+        payload = new Uint8Array(8);
+        new DataView(payload.buffer).setFloat64(0, v.float);
+    }
+    return concat([new Uint8Array(idBytes(el.id)), new Uint8Array(sizeBytes(payload.length)), payload]);
+};
+
+// An element's ID and size alone, for payloads kept as separate parts instead of copied in
+const elementHeader = (id: number, size: number) => new Uint8Array([...idBytes(id), ...sizeBytes(size)]);
+
+const totalLength = (parts: Uint8Array[]) => parts.reduce((n, p) => n + p.length, 0);
+
+const concat = (parts: Uint8Array[]) => {
+    const out = new Uint8Array(totalLength(parts));
+    let offset = 0;
+    for (const p of parts) {
+        out.set(p, offset);
+        offset += p.length;
+    }
+    return out;
+};
+
+// Opus in Matroska needs an OpusHead as CodecPrivate; build one if the encoder didn't supply it
+const buildOpusHead = (channels: number, sampleRate: number) => {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(new TextEncoder().encode('OpusHead'), 0);
+    head[8] = 1; // version
+    head[9] = channels;
+    view.setUint16(10, 0, true); // pre-skip
+    view.setUint32(12, sampleRate, true);
+    view.setInt16(16, 0, true); // output gain
+    head[18] = 0; // mapping family
+    return head;
+};
+
+const ID = {
+    EBML: 0x1a45dfa3, EBMLVersion: 0x4286, EBMLReadVersion: 0x42f7, EBMLMaxIDLength: 0x42f2, EBMLMaxSizeLength: 0x42f3,
+    DocType: 0x4282, DocTypeVersion: 0x4287, DocTypeReadVersion: 0x4285,
+    Segment: 0x18538067, SeekHead: 0x114d9b74, Seek: 0x4dbb, SeekID: 0x53ab, SeekPosition: 0x53ac,
+    Info: 0x1549a966, TimestampScale: 0x2ad7b1, Duration: 0x4489, MuxingApp: 0x4d80, WritingApp: 0x5741,
+    Tracks: 0x1654ae6b, TrackEntry: 0xae, TrackNumber: 0xd7, TrackUID: 0x73c5, TrackType: 0x83, CodecID: 0x86,
+    CodecPrivate: 0x63a2, DefaultDuration: 0x23e383, Video: 0xe0, PixelWidth: 0xb0, PixelHeight: 0xba,
+    Audio: 0xe1, SamplingFrequency: 0xb5, Channels: 0x9f,
+    Cluster: 0x1f43b675, Timestamp: 0xe7, SimpleBlock: 0xa3,
+    Cues: 0x1c53bb6b, CuePoint: 0xbb, CueTime: 0xb3, CueTrackPositions: 0xb7, CueTrack: 0xf7, CueClusterPosition: 0xf1,
+};
+
+// Cluster relative timestamps are int16 milliseconds
+const MAX_CLUSTER_SPAN_MS = 5000;
+
+export class WebMMuxer {
+    private chunks: StoredChunk[] = [];
+    private audioPrivate: Uint8Array | undefined;
+
+    constructor(private video: MuxerVideoTrack, private audio: MuxerAudioTrack | null) {
+        this.audioPrivate = audio?.codecPrivate;
+    }
+
+    addVideoChunk(chunk: EncodedVideoChunk) {
+        this.store(VIDEO_TRACK, chunk);
+    }
+
+    addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) {
+        const description = meta?.decoderConfig?.description;
+        if (description && !this.audioPrivate) {
+            this.audioPrivate = ArrayBuffer.isView(description)
+                ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+                : new Uint8Array(description).slice();
+        }
+        this.store(AUDIO_TRACK, chunk);
+    }
+
+    private store(track: number, chunk: EncodedVideoChunk | EncodedAudioChunk) {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        this.chunks.push({ track, timestampMs: Math.round(chunk.timestamp / 1000), isKey: chunk.type === 'key', data });
+    }
+
+    finalize(): Blob {
+        const chunks = [...this.chunks].sort((a, b) => a.timestampMs - b.timestampMs || a.track - b.track);
+        const lastMs = chunks.length ? chunks[chunks.length - 1].timestampMs : 0;
+        const frameMs = 1000 / this.video.frameRate;
+
+        const header = encodeElement({
+            id: ID.EBML, value: [
+                { id: ID.EBMLVersion, value: 1 },
+                { id: ID.EBMLReadVersion, value: 1 },
+                { id: ID.EBMLMaxIDLength, value: 4 },
+                { id: ID.EBMLMaxSizeLength, value: 8 },
+                { id: ID.DocType, value: 'webm' },
+                { id: ID.DocTypeVersion, value: 4 },
+                { id: ID.DocTypeReadVersion, value: 2 },
+            ]
+        });
+
+        const info = encodeElement({
+            id: ID.Info, value: [
+                { id: ID.TimestampScale, value: 1000000 },
+                { id: ID.MuxingApp, value: 'Loksewa Automatic' },
+                { id: ID.WritingApp, value: 'Loksewa Automatic' },
+                { id: ID.Duration, value: { float: lastMs + frameMs } },
+            ]
+        });
+
+        const trackEntries: EbmlElement[] = [{
+            id: ID.TrackEntry, value: [
+                { id: ID.TrackNumber, value: VIDEO_TRACK },
+                { id: ID.TrackUID, value: VIDEO_TRACK },
+                { id: ID.TrackType, value: 1 },
+                { id: ID.CodecID, value: this.video.codec },
+                { id: ID.DefaultDuration, value: Math.round(1e9 / this.video.frameRate) },
+                { id: ID.Video, value: [
+                    { id: ID.PixelWidth, value: this.video.width },
+                    { id: ID.PixelHeight, value: this.video.height },
+                ] },
+            ]
+        }];
+        if (this.audio) {
+            trackEntries.push({
+                id: ID.TrackEntry, value: [
+                    { id: ID.TrackNumber, value: AUDIO_TRACK },
+                    { id: ID.TrackUID, value: AUDIO_TRACK },
+                    { id: ID.TrackType, value: 2 },
+                    { id: ID.CodecID, value: this.audio.codec },
+                    { id: ID.CodecPrivate, value: this.audioPrivate || buildOpusHead(this.audio.numberOfChannels, this.audio.sampleRate) },
+                    { id: ID.Audio, value: [
+                        { id: ID.SamplingFrequency, value: { float: this.audio.sampleRate } },
+                        { id: ID.Channels, value: this.audio.numberOfChannels },
+                    ] },
+                ]
+            });
+        }
+        const tracks = encodeElement({ id: ID.Tracks, value: trackEntries });
+
+        // Clusters start on video keyframes (so Cues can point at them) or when the int16 span runs out.
+        // Frame data is never copied: clusters are lists of headers and the encoder's own chunks.
+        const clusters: { timestampMs: number; parts: Uint8Array<ArrayBuffer>[]; size: number }[] = [];
+        let current: { timestampMs: number; parts: Uint8Array<ArrayBuffer>[] } | null = null;
+        const flush = () => {
+            if (!current) return;
+            const body = [encodeElement({ id: ID.Timestamp, value: current.timestampMs }), ...current.parts];
+            const parts = [elementHeader(ID.Cluster, totalLength(body)), ...body];
+            clusters.push({ timestampMs: current.timestampMs, parts, size: totalLength(parts) });
+            current = null;
+        };
+        for (const chunk of chunks) {
+            const startsCluster = !current
+                || (chunk.track === VIDEO_TRACK && chunk.isKey)
+                || chunk.timestampMs - current.timestampMs >= MAX_CLUSTER_SPAN_MS;
+            if (startsCluster) {
+                flush();
+                current = { timestampMs: chunk.timestampMs, parts: [] };
+            }
+            const blockHead = new Uint8Array(4);
+            blockHead[0] = 0x80 | chunk.track; // track number as a 1-byte vint
+            new DataView(blockHead.buffer).setInt16(1, chunk.timestampMs - current!.timestampMs);
+            blockHead[3] = chunk.isKey ? 0x80 : 0;
+            current!.parts.push(elementHeader(ID.SimpleBlock, blockHead.length + chunk.data.length), blockHead, chunk.data);
+        }
+        flush();
+
+        // Segment layout: SeekHead | Info | Tracks | Clusters | Cues
+        // SeekHead positions use fixed 8-byte integers so its size doesn't depend on them.
+        const seekEntry = (id: number, position: number): EbmlElement => ({
+            id: ID.Seek, value: [
+                { id: ID.SeekID, value: new Uint8Array(idBytes(id)) },
+                { id: ID.SeekPosition, value: position, width: 8 },
+            ]
+        });
+        const buildSeekHead = (infoPos: number, tracksPos: number, cuesPos: number) => encodeElement({
+            id: ID.SeekHead, value: [seekEntry(ID.Info, infoPos), seekEntry(ID.Tracks, tracksPos), seekEntry(ID.Cues, cuesPos)]
+        });
+
+        const seekHeadSize = buildSeekHead(0, 0, 0).length;
+        const infoPos = seekHeadSize;
+        const tracksPos = infoPos + info.length;
+        let position = tracksPos + tracks.length;
+        const cuePoints: EbmlElement[] = [];
+        for (const cluster of clusters) {
+            cuePoints.push({
+                id: ID.CuePoint, value: [
+                    { id: ID.CueTime, value: cluster.timestampMs },
+                    { id: ID.CueTrackPositions, value: [
+                        { id: ID.CueTrack, value: VIDEO_TRACK },
+                        { id: ID.CueClusterPosition, value: position },
+                    ] },
+                ]
+            });
+            position += cluster.size;
+        }
+        const cues = encodeElement({ id: ID.Cues, value: cuePoints });
+        const seekHead = buildSeekHead(infoPos, tracksPos, position);
+
+        // position is now the size of everything before Cues
+        const segmentHeader = elementHeader(ID.Segment, position + cues.length);
+
+        return new Blob([
+            header, segmentHeader, seekHead, info, tracks, ...clusters.flatMap(c => c.parts), cues
+        ], { type: 'video/webm' });
+    }
+}